@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import Loader from './Loader';
+import type { AnalysisOptions, AnalysisResponse, ChatMessage, ChatResponse, ChatTranscript } from '../lib/types';
+
+interface AnalysisChatPanelProps {
+  /** Left out for blind review history records; the server then uses the resume stored with `historyId`. */
+  resumeText?: string;
+  jobDescription: string;
+  options: AnalysisOptions;
+  analysis: AnalysisResponse;
+  /** The analysis history record transcripts are saved with; conversations are not saved without one. */
+  historyId?: string;
+}
+
+const SOURCE_LABELS = { resume: 'Resume', jobDescription: 'Job description' } as const;
+
+const suggestedQuestions = (fitScore: number) => [
+  `Explain the ${fitScore}.`,
+  'Would this person handle on-call?',
+  'What should we probe in the interview?'
+];
+
+const AnalysisChatPanel: React.FC<AnalysisChatPanelProps> = ({
+  resumeText,
+  jobDescription,
+  options,
+  analysis,
+  historyId
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A conversation is about one analysis; reset when it changes and load the transcript saved with it, if any.
+  useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+    setError(null);
+    if (historyId) {
+      fetch(`/api/history/${historyId}/chat`)
+        .then((response) => (response.ok ? (response.json() as Promise<ChatTranscript>) : null))
+        .then((transcript) => {
+          if (transcript && !cancelled) {
+            setMessages(transcript.messages);
+          }
+        })
+        .catch(() => undefined);
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [analysis, historyId, jobDescription, options, resumeText]);
+
+  const ask = async (text: string) => {
+    const content = text.trim();
+    if (!content || isLoading) {
+      return;
+    }
+    const conversation = [...messages, { role: 'user' as const, content }];
+    setMessages(conversation);
+    setQuestion('');
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ resumeText, jobDescription, analysis, messages: conversation, historyId, ...options })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to answer the question.');
+      }
+      setMessages([...conversation, (payload as ChatResponse).message]);
+    } catch (err) {
+      setMessages(messages);
+      setQuestion(content);
+      setError(err instanceof Error ? err.message : 'Failed to answer the question.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clearConversation = async () => {
+    if (historyId) {
+      const response = await fetch(`/api/history/${historyId}/chat`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const payload = await response.json().catch(() => null);
+        setError(payload?.error ?? 'Unable to clear the saved conversation.');
+        return;
+      }
+    }
+    setMessages([]);
+    setError(null);
+  };
+
+  const handleKeyDown: React.KeyboardEventHandler<HTMLTextAreaElement> = (event) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      ask(question);
+    }
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-50">Ask about this analysis</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Follow-up questions are answered from the resume, job description, analysis and skills matrix, with quotes
+            from the documents.{historyId ? ' The conversation is saved with the analysis.' : ''}
+          </p>
+        </div>
+        {messages.length > 0 && (
+          <button
+            type="button"
+            onClick={clearConversation}
+            disabled={isLoading}
+            className="shrink-0 text-xs text-slate-400 hover:text-rose-300 disabled:opacity-50"
+          >
+            Clear conversation
+          </button>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <ol className="mt-6 space-y-4">
+          {messages.map((message, index) => (
+            <li key={index} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+              <div
+                className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
+                  message.role === 'user'
+                    ? 'bg-emerald-500/15 text-emerald-50'
+                    : 'border border-slate-800 bg-slate-950/40 text-slate-200'
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{message.content}</p>
+                {message.citations && message.citations.length > 0 && (
+                  <ul className="mt-2 space-y-1 border-t border-slate-800 pt-2 text-xs text-slate-400">
+                    {message.citations.map((citation) => (
+                      <li key={`${citation.source}-${citation.start}`}>
+                        <span className="font-semibold text-slate-300">{SOURCE_LABELS[citation.source]}:</span> “
+                        {citation.quote}”
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isLoading && (
+        <div className="mt-4">
+          <Loader label="Thinking" />
+        </div>
+      )}
+      {error && (
+        <p className="mt-4 rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+      )}
+
+      {messages.length === 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {suggestedQuestions(analysis.fitScore).map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => ask(suggestion)}
+              disabled={isLoading}
+              className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-300 transition hover:border-emerald-500/60 hover:text-emerald-300 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form
+        className="mt-4 flex items-end gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          ask(question);
+        }}
+      >
+        <textarea
+          value={question}
+          onChange={(event) => setQuestion(event.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder="Ask a follow-up question…"
+          className="flex-1 resize-none rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !question.trim()}
+          className="inline-flex shrink-0 items-center justify-center rounded-full border border-emerald-500/50 px-5 py-2 text-sm font-semibold text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Ask
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default AnalysisChatPanel;
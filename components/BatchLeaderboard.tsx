@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import type { BatchCandidateResult } from '../lib/types';
+
+type SortKey = 'fitScore' | 'name';
+
+interface BatchLeaderboardProps {
+  results: BatchCandidateResult[];
+}
+
+const TOP_GAP_COUNT = 2;
+
+const BatchLeaderboard: React.FC<BatchLeaderboardProps> = ({ results }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('fitScore');
+  const [descending, setDescending] = useState(true);
+
+  const rankById = useMemo(() => {
+    const ranked = results
+      .filter((result): result is Extract<BatchCandidateResult, { status: 'ok' }> => result.status === 'ok')
+      .sort((a, b) => b.analysis.fitScore - a.analysis.fitScore);
+    return new Map(ranked.map((result, index) => [result.id, index + 1]));
+  }, [results]);
+
+  const sortedResults = useMemo(() => {
+    const direction = descending ? -1 : 1;
+    return [...results].sort((a, b) => {
+      if (a.status !== b.status) {
+        return a.status === 'ok' ? -1 : 1;
+      }
+      if (sortKey === 'name' || a.status !== 'ok' || b.status !== 'ok') {
+        return direction * a.name.localeCompare(b.name);
+      }
+      return direction * (a.analysis.fitScore - b.analysis.fitScore) || a.name.localeCompare(b.name);
+    });
+  }, [descending, results, sortKey]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((previous) => !previous);
+      return;
+    }
+    setSortKey(key);
+    setDescending(key === 'fitScore');
+  };
+
+  const renderSortIndicator = (key: SortKey) => (sortKey === key ? (descending ? ' ↓' : ' ↑') : '');
+
+  if (!results.length) {
+    return null;
+  }
+
+  return (
+    <section className="mt-8 overflow-x-auto rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+      <h2 className="text-xl font-semibold text-slate-50">Candidate leaderboard</h2>
+      <table className="mt-4 w-full min-w-[720px] text-left text-sm text-slate-200">
+        <thead className="text-xs uppercase tracking-wide text-slate-400">
+          <tr>
+            <th className="py-2 pr-3">Rank</th>
+            <th className="py-2 pr-3">
+              <button type="button" onClick={() => handleSort('name')} className="uppercase hover:text-slate-200">
+                Candidate{renderSortIndicator('name')}
+              </button>
+            </th>
+            <th className="py-2 pr-3">
+              <button type="button" onClick={() => handleSort('fitScore')} className="uppercase hover:text-slate-200">
+                Fit score{renderSortIndicator('fitScore')}
+              </button>
+            </th>
+            <th className="py-2 pr-3">Summary</th>
+            <th className="py-2">Top gaps</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800">
+          {sortedResults.map((result) => (
+            <tr key={result.id} className="align-top">
+              <td className="py-3 pr-3 text-slate-400">{rankById.get(result.id) ?? '—'}</td>
+              <td className="py-3 pr-3 font-medium text-slate-50">{result.name}</td>
+              {result.status === 'ok' ? (
+                <>
+                  <td className="py-3 pr-3 text-lg font-bold text-emerald-400">{result.analysis.fitScore}</td>
+                  <td className="py-3 pr-3 text-slate-300">{result.analysis.fitSummary ?? '—'}</td>
+                  <td className="py-3 text-slate-300">
+                    {result.analysis.weaknesses.length ? (
+                      <ul className="list-disc space-y-1 pl-4">
+                        {result.analysis.weaknesses.slice(0, TOP_GAP_COUNT).map((gap, index) => (
+                          <li key={`${result.id}-gap-${index}`}>{gap}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                </>
+              ) : (
+                <td colSpan={3} className="py-3 text-rose-300">
+                  {result.error}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default BatchLeaderboard;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import Loader from './Loader';
+import type { AnalysisOptions, BiasAuditResponse, BiasFlagField, ProtectedAttribute } from '../lib/types';
+
+interface BiasAuditPanelProps {
+  resumeText: string;
+  jobDescription: string;
+  options: AnalysisOptions;
+}
+
+const FIELD_LABELS: Record<BiasFlagField, string> = {
+  weaknesses: 'Weakness',
+  recruiterQuestions: 'Recruiter question',
+  candidateQuestions: 'Candidate question'
+};
+
+const ATTRIBUTE_LABELS: Record<ProtectedAttribute, string> = {
+  age: 'Age',
+  gender: 'Gender',
+  'race-ethnicity': 'Race / ethnicity',
+  'national-origin': 'National origin',
+  language: 'Language',
+  religion: 'Religion',
+  'disability-health': 'Disability / health',
+  'family-status': 'Family status',
+  'career-gap': 'Career gap',
+  'school-prestige': 'School prestige'
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+const BiasAuditPanel: React.FC<BiasAuditPanelProps> = ({ resumeText, jobDescription, options }) => {
+  const [audit, setAudit] = useState<BiasAuditResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // An audit describes one set of inputs; drop it as soon as they change.
+  useEffect(() => {
+    setAudit(null);
+    setError(null);
+  }, [jobDescription, options, resumeText]);
+
+  const runAudit = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/bias-audit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        // Without a generation profile the audit runs deterministically, so deltas are not sampling noise.
+        body: JSON.stringify({ resumeText, jobDescription, ...options, generationProfile: undefined })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to run the bias audit.');
+      }
+      setAudit(payload as BiasAuditResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run the bias audit.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-50">Bias &amp; fairness audit</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Re-scores variants of this resume with swapped names, removed dates, altered school names, non-native
+            phrasing, and a career break. A fair assessment should barely move.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={runAudit}
+          disabled={isLoading}
+          className="inline-flex shrink-0 items-center justify-center rounded-full border border-emerald-500/50 px-5 py-2 text-sm font-semibold text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {audit ? 'Run again' : 'Run audit'}
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="mt-4">
+          <Loader label="Scoring counterfactual resumes" />
+        </div>
+      )}
+      {error && (
+        <p className="mt-4 rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+      )}
+
+      {audit && !isLoading && (
+        <div className="mt-6 space-y-6">
+          <p className="text-sm text-slate-300">{audit.summary}</p>
+
+          <table className="w-full text-left text-sm text-slate-200">
+            <thead className="text-xs uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="py-2 pr-3">Variant</th>
+                <th className="py-2 pr-3">Changes</th>
+                <th className="py-2 pr-3">Fit score</th>
+                <th className="py-2">Delta vs. {audit.baselineFitScore}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {audit.variants.map((variant, index) => (
+                <tr key={`${variant.perturbation}-${index}`} className="align-top">
+                  <td className="py-2 pr-3">
+                    <span className="font-medium text-slate-50">{variant.label}</span>
+                    {variant.note && <p className="mt-1 text-xs text-slate-400">{variant.note}</p>}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-400">{variant.changes}</td>
+                  {variant.status === 'ok' ? (
+                    <>
+                      <td className="py-2 pr-3">{variant.fitScore}</td>
+                      <td
+                        className={`py-2 font-semibold ${variant.exceedsThreshold ? 'text-rose-300' : 'text-emerald-300'}`}
+                      >
+                        {formatDelta(variant.delta)}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={2} className={`py-2 ${variant.status === 'error' ? 'text-rose-300' : 'text-slate-500'}`}>
+                      {variant.status === 'error' ? variant.error : `Skipped: ${variant.reason}`}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {audit.flags.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-amber-300">
+                Output referencing protected characteristics
+              </h3>
+              <ul className="mt-2 space-y-2 text-sm text-slate-200">
+                {audit.flags.map((flag, index) => (
+                  <li key={index} className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-3">
+                    <span className="text-xs uppercase tracking-wide text-amber-200">
+                      {ATTRIBUTE_LABELS[flag.attribute]} · {FIELD_LABELS[flag.field]}
+                      {flag.variant ? ` · ${flag.variant}` : ''}
+                    </span>
+                    <p className="mt-1">{flag.text}</p>
+                    <p className="mt-1 text-xs text-slate-400">Matched “{flag.match}”</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BiasAuditPanel;
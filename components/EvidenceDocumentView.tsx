@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { CitationSource, EvidenceCitation } from '../lib/types';
+
+interface EvidenceDocumentViewProps {
+  resumeText: string;
+  jobDescription: string;
+  citations: EvidenceCitation[];
+  /** Citations of the selected claim; drawn more strongly and scrolled into view. */
+  activeCitations?: EvidenceCitation[];
+}
+
+interface Segment {
+  text: string;
+  highlight: 'none' | 'cited' | 'active';
+}
+
+const PANES: Array<{ source: CitationSource; label: string }> = [
+  { source: 'resume', label: 'Resume' },
+  { source: 'jobDescription', label: 'Job description' }
+];
+
+/** Splits `text` into plain and highlighted runs; citations that no longer match the text (it was edited) are skipped. */
+const buildSegments = (text: string, citations: EvidenceCitation[], active: EvidenceCitation[]): Segment[] => {
+  const level = new Array<number>(text.length + 1).fill(0);
+  const mark = (citation: EvidenceCitation, value: number) => {
+    if (text.slice(citation.start, citation.end) !== citation.quote) {
+      return;
+    }
+    for (let index = citation.start; index < citation.end; index += 1) {
+      level[index] = Math.max(level[index], value);
+    }
+  };
+  citations.forEach((citation) => mark(citation, 1));
+  active.forEach((citation) => mark(citation, 2));
+
+  const segments: Segment[] = [];
+  let start = 0;
+  for (let index = 1; index <= text.length; index += 1) {
+    if (index === text.length || level[index] !== level[start]) {
+      const highlight = level[start] === 2 ? 'active' : level[start] === 1 ? 'cited' : 'none';
+      segments.push({ text: text.slice(start, index), highlight });
+      start = index;
+    }
+  }
+  return segments;
+};
+
+const EvidenceDocumentView: React.FC<EvidenceDocumentViewProps> = ({
+  resumeText,
+  jobDescription,
+  citations,
+  activeCitations = []
+}) => {
+  const paneRefs = useRef<Partial<Record<CitationSource, HTMLDivElement | null>>>({});
+  const texts: Record<CitationSource, string> = { resume: resumeText, jobDescription };
+
+  const segments = useMemo(
+    () => ({
+      resume: buildSegments(
+        resumeText,
+        citations.filter((citation) => citation.source === 'resume'),
+        activeCitations.filter((citation) => citation.source === 'resume')
+      ),
+      jobDescription: buildSegments(
+        jobDescription,
+        citations.filter((citation) => citation.source === 'jobDescription'),
+        activeCitations.filter((citation) => citation.source === 'jobDescription')
+      )
+    }),
+    [activeCitations, citations, jobDescription, resumeText]
+  );
+
+  useEffect(() => {
+    PANES.forEach(({ source }) => {
+      const pane = paneRefs.current[source];
+      const target = pane?.querySelector<HTMLElement>('mark[data-active="true"]');
+      if (pane && target) {
+        pane.scrollTop = target.offsetTop - pane.offsetTop - 48;
+      }
+    });
+  }, [segments]);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {PANES.map(({ source, label }) => (
+        <div key={source} className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">{label}</span>
+          <div
+            ref={(element) => {
+              paneRefs.current[source] = element;
+            }}
+            className="relative h-72 overflow-y-auto whitespace-pre-wrap rounded-lg border border-slate-800 bg-slate-950/60 p-3 text-xs leading-relaxed text-slate-400"
+          >
+            {texts[source].trim() ? (
+              segments[source].map((segment, index) =>
+                segment.highlight === 'none' ? (
+                  <React.Fragment key={index}>{segment.text}</React.Fragment>
+                ) : (
+                  <mark
+                    key={index}
+                    data-active={segment.highlight === 'active'}
+                    className={
+                      segment.highlight === 'active'
+                        ? 'rounded bg-emerald-400/30 text-emerald-50'
+                        : 'rounded bg-slate-600/30 text-slate-200'
+                    }
+                  >
+                    {segment.text}
+                  </mark>
+                )
+              )
+            ) : (
+              <span className="text-slate-500">Document text is not available.</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EvidenceDocumentView;
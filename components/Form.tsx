@@ -1,145 +1,23 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { JOB_DESCRIPTION_FILE_ACCEPT, RESUME_FILE_ACCEPT, extractTextFromFile } from '../lib/browserExtraction';
+import { LANGUAGE_NAMES } from '../lib/languageDetection';
+import type { AnalysisOptions, GenerationProfileName, LanguageCode, ScoringTemplateSummary } from '../lib/types';
 
-const SUPPORTED_EXTENSIONS = new Set(['txt', 'md', 'rtf', 'pdf', 'docx']);
+const GENERATION_PROFILE_OPTIONS: Array<{ value: GenerationProfileName; label: string }> = [
+  { value: 'default', label: 'Default (creative)' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'deterministic', label: 'Deterministic' }
+];
 
-declare global {
-  interface Window {
-    pdfjsLib?: {
-      getDocument: (options: unknown) => { promise: Promise<any> };
-      GlobalWorkerOptions: { workerSrc: string };
-    };
-    __pdfjsLoadingPromise?: Promise<any>;
-    mammoth?: {
-      extractRawText: (options: { arrayBuffer: ArrayBuffer }) => Promise<{ value: string }>;
-    };
-    __mammothLoadingPromise?: Promise<any>;
-  }
-}
-
-const CDN_BASE_PDF = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174';
-const MAMMOTH_BROWSER_SRC = 'https://unpkg.com/mammoth@1.6.0/mammoth.browser.min.js';
-
-const loadScript = (src: string) =>
-  new Promise<void>((resolve, reject) => {
-    if (typeof window === 'undefined') {
-      reject(new Error('Scripts can only be loaded in the browser.'));
-      return;
-    }
-
-    const existing = document.querySelector<HTMLScriptElement>(`script[src="${src}"]`);
-    if (existing) {
-      if (existing.dataset.status === 'loaded') {
-        resolve();
-        return;
-      }
-      existing.addEventListener('load', () => resolve(), { once: true });
-      existing.addEventListener('error', () => reject(new Error(`Failed to load script ${src}`)), {
-        once: true,
-      });
-      return;
-    }
-
-    const script = document.createElement('script');
-    script.src = src;
-    script.async = true;
-    script.dataset.status = 'loading';
-    script.onload = () => {
-      script.dataset.status = 'loaded';
-      resolve();
-    };
-    script.onerror = () => {
-      script.dataset.status = 'error';
-      reject(new Error(`Failed to load script ${src}`));
-    };
-    document.head.appendChild(script);
-  });
-
-const loadPdfJs = async () => {
-  if (typeof window === 'undefined') {
-    throw new Error('PDF parsing is only supported in the browser.');
-  }
-
-  if (window.pdfjsLib) {
-    return window.pdfjsLib;
-  }
-
-  if (!window.__pdfjsLoadingPromise) {
-    window.__pdfjsLoadingPromise = (async () => {
-      await loadScript(`${CDN_BASE_PDF}/pdf.min.js`);
-      if (!window.pdfjsLib) {
-        throw new Error('Failed to initialize the PDF.js library.');
-      }
-      window.pdfjsLib.GlobalWorkerOptions.workerSrc = `${CDN_BASE_PDF}/pdf.worker.min.js`;
-      return window.pdfjsLib;
-    })();
-  }
-
-  return window.__pdfjsLoadingPromise;
-};
-
-const loadMammoth = async () => {
-  if (typeof window === 'undefined') {
-    throw new Error('DOCX parsing is only supported in the browser.');
-  }
-
-  if (window.mammoth) {
-    return window.mammoth;
-  }
-
-  if (!window.__mammothLoadingPromise) {
-    window.__mammothLoadingPromise = (async () => {
-      await loadScript(MAMMOTH_BROWSER_SRC);
-      if (!window.mammoth) {
-        throw new Error('Failed to initialize the Mammoth library.');
-      }
-      return window.mammoth;
-    })();
-  }
-
-  return window.__mammothLoadingPromise;
-};
-
-const stripRtf = (value: string) =>
-  value
-    .replace(/\{\\(?:\*?[^}]|[^{}])*}/g, ' ')
-    .replace(/\n/g, ' ')
-    .replace(/\\'[0-9a-fA-F]{2}/g, (match) =>
-      String.fromCharCode(parseInt(match.slice(2), 16))
-    )
-    .replace(/\\[a-zA-Z]+-?\d* ?/g, ' ')
-    .replace(/[{}]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-
-const cleanExtractedText = (value: string) => {
-  const normalized = value
-    .replace(/\r\n/g, '\n')
-    .replace(/\f/g, '\n')
-    .replace(/\u0000/g, '')
-    .replace(/^[\t ]*\d+[\t ]*$/gm, '')
-    .replace(/^page\s+\d+(\s+of\s+\d+)?$/gim, '')
-    .replace(/^(title|author|subject|keywords|creator|producer|creationdate|moddate):.*$/gim, '')
-    .replace(/[ \t]+\n/g, '\n');
-
-  const lines = normalized
-    .split('\n')
-    .map((line) =>
-      line
-        .replace(/[^\S\n]+/g, ' ')
-        .replace(/\s?[-–—]\s?/g, (match) => (match.trim() === '-' ? ' - ' : ' '))
-        .replace(/\s+/g, ' ')
-        .trim()
-    )
-    .filter((line, index, array) => line.length > 0 || (index > 0 && array[index - 1].length > 0));
-
-  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
-};
+const ENSEMBLE_RUN_OPTIONS = [1, 3, 5];
 
 interface AnalyzerFormProps {
   resumeText: string;
   jobDescription: string;
   onResumeChange: (value: string) => void;
   onJobDescriptionChange: (value: string) => void;
+  options: AnalysisOptions;
+  onOptionsChange: (options: AnalysisOptions) => void;
   onSubmit: (event: React.FormEvent<HTMLFormElement>) => void;
   isLoading: boolean;
   onReset: () => void;
@@ -150,109 +28,66 @@ const AnalyzerForm: React.FC<AnalyzerFormProps> = ({
   jobDescription,
   onResumeChange,
   onJobDescriptionChange,
+  options,
+  onOptionsChange,
   onSubmit,
   isLoading,
   onReset
 }) => {
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  const extractPdf = async (file: File) => {
-    const pdfjsLib = await loadPdfJs();
-    const typedArray = new Uint8Array(await file.arrayBuffer());
-    const pdf = await pdfjsLib.getDocument({ data: typedArray }).promise;
-
-    try {
-      const pageTexts: string[] = [];
-      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
-        const page = await pdf.getPage(pageNumber);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items
-          .map((item: any) => (typeof item.str === 'string' ? item.str : ''))
-          .filter((segment: string) => segment.trim().length > 0)
-          .join(' ');
-        if (pageText) {
-          pageTexts.push(pageText);
+  const resumeFileInputRef = useRef<HTMLInputElement | null>(null);
+  const jobFileInputRef = useRef<HTMLInputElement | null>(null);
+  const [scoringTemplates, setScoringTemplates] = useState<ScoringTemplateSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/scoring-templates')
+      .then((response) => (response.ok ? response.json() : { templates: [] }))
+      .then((payload: { templates: ScoringTemplateSummary[] }) => {
+        if (!cancelled) {
+          setScoringTemplates(payload.templates);
         }
-      }
-      return pageTexts.join('\n');
-    } finally {
-      if (typeof pdf.cleanup === 'function') {
-        await pdf.cleanup();
-      }
-      if (typeof pdf.destroy === 'function') {
-        await pdf.destroy();
-      }
-    }
-  };
-
-  const extractDocx = async (file: File) => {
-    const mammoth = await loadMammoth();
-    const arrayBuffer = await file.arrayBuffer();
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    return result.value ?? '';
-  };
+      })
+      .catch((error) => console.error('Failed to load scoring templates', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  const readPlainText = async (file: File, extension: string) => {
-    let rawText = await file.text();
-    if (extension === 'rtf') {
-      rawText = stripRtf(rawText);
-    }
-    return rawText;
-  };
+  const selectedTemplate = scoringTemplates.find((template) => template.id === options.scoringTemplate);
 
-  const resetFileInput = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const resetFileInputs = () => {
+    [resumeFileInputRef, jobFileInputRef].forEach((ref) => {
+      if (ref.current) {
+        ref.current.value = '';
+      }
+    });
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
-      return;
-    }
-
-    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
-
-    if (!SUPPORTED_EXTENSIONS.has(extension)) {
-      window.alert('Unsupported file type. Please upload a TXT, MD, RTF, PDF, or DOCX file.');
-      resetFileInput();
-      return;
-    }
-
-    try {
-      let extracted = '';
-
-      if (extension === 'pdf') {
-        extracted = await extractPdf(file);
-      } else if (extension === 'docx') {
-        extracted = await extractDocx(file);
-      } else {
-        extracted = await readPlainText(file, extension);
+  const createFileUploadHandler =
+    (onTextChange: (value: string) => void) => async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) {
+        return;
       }
 
-      const cleaned = cleanExtractedText(extracted);
-
-      if (!cleaned) {
-        throw new Error('Unable to extract readable text from the selected file.');
+      try {
+        const cleaned = await extractTextFromFile(file);
+        onTextChange(cleaned);
+      } catch (error) {
+        console.error('Failed to process file contents', error);
+        window.alert(
+          error instanceof Error
+            ? error.message
+            : 'Unable to read the selected file. Please try a different document.'
+        );
+      } finally {
+        resetFileInputs();
       }
-
-      onResumeChange(cleaned);
-      resetFileInput();
-    } catch (error) {
-      console.error('Failed to process file contents', error);
-      window.alert(
-        error instanceof Error
-          ? error.message
-          : 'Unable to read the selected file. Please try a different document.'
-      );
-      resetFileInput();
-    }
-  };
+    };
 
   const handleClear = () => {
     onReset();
-    resetFileInput();
+    resetFileInputs();
   };
 
   return (
@@ -266,11 +101,11 @@ const AnalyzerForm: React.FC<AnalyzerFormProps> = ({
           <div className="flex flex-col gap-2 text-xs text-slate-300 sm:flex-row sm:items-center sm:gap-4">
             <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-dashed border-slate-700 px-3 py-1 font-medium hover:border-emerald-400 hover:text-emerald-200">
               <input
-                ref={fileInputRef}
+                ref={resumeFileInputRef}
                 type="file"
-                accept=".txt,.md,.rtf,.pdf,.docx"
+                accept={RESUME_FILE_ACCEPT}
                 className="hidden"
-                onChange={handleFileUpload}
+                onChange={createFileUploadHandler(onResumeChange)}
               />
               Upload file
             </label>
@@ -290,7 +125,25 @@ const AnalyzerForm: React.FC<AnalyzerFormProps> = ({
       </section>
 
       <section className="space-y-3">
-        <h2 className="text-lg font-semibold text-slate-50">Job Description</h2>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <h2 className="text-lg font-semibold text-slate-50">Job Description</h2>
+          <div className="flex flex-col gap-2 text-xs text-slate-300 sm:flex-row sm:items-center sm:gap-4">
+            <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-dashed border-slate-700 px-3 py-1 font-medium hover:border-sky-400 hover:text-sky-200">
+              <input
+                ref={jobFileInputRef}
+                type="file"
+                accept={JOB_DESCRIPTION_FILE_ACCEPT}
+                className="hidden"
+                onChange={createFileUploadHandler(onJobDescriptionChange)}
+              />
+              Upload file
+            </label>
+          </div>
+        </div>
+        <p className="text-xs text-slate-400">
+          Paste the job description or upload it as a document. Saved job pages (.html) and JSON-LD JobPosting exports
+          (.json) are converted to clean text with the title, location, and requirements preserved.
+        </p>
         <textarea
           required
           value={jobDescription}
@@ -300,6 +153,85 @@ const AnalyzerForm: React.FC<AnalyzerFormProps> = ({
         />
       </section>
 
+      <section className="flex flex-col gap-4 text-xs text-slate-300 sm:flex-row sm:items-end">
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Scoring mode</span>
+          <select
+            value={options.generationProfile ?? 'default'}
+            onChange={(event) =>
+              onOptionsChange({ ...options, generationProfile: event.target.value as GenerationProfileName })
+            }
+            className="rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+          >
+            {GENERATION_PROFILE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Ensemble runs</span>
+          <select
+            value={options.ensembleRuns ?? 1}
+            onChange={(event) => onOptionsChange({ ...options, ensembleRuns: Number(event.target.value) })}
+            className="rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+          >
+            {ENSEMBLE_RUN_OPTIONS.map((runs) => (
+              <option key={runs} value={runs}>
+                {runs === 1 ? 'Single run' : `${runs} runs (median score)`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Scoring template</span>
+          <select
+            value={options.scoringTemplate ?? ''}
+            onChange={(event) => onOptionsChange({ ...options, scoringTemplate: event.target.value || undefined })}
+            className="rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+          >
+            <option value="">Model score (no template)</option>
+            {scoringTemplates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Output language</span>
+          <select
+            value={options.outputLanguage ?? 'en'}
+            onChange={(event) =>
+              onOptionsChange({
+                ...options,
+                outputLanguage: event.target.value === 'en' ? undefined : (event.target.value as LanguageCode)
+              })
+            }
+            className="rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+          >
+            {(Object.keys(LANGUAGE_NAMES) as LanguageCode[]).map((code) => (
+              <option key={code} value={code}>
+                {LANGUAGE_NAMES[code]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {selectedTemplate?.description ? (
+          <p className="max-w-xs text-xs text-slate-400">{selectedTemplate.description}</p>
+        ) : null}
+        <label className="flex items-center gap-2 self-end py-2" title="Hide the candidate's name, contact details and personal attributes in the results.">
+          <input
+            type="checkbox"
+            checked={Boolean(options.blindReview)}
+            onChange={(event) => onOptionsChange({ ...options, blindReview: event.target.checked || undefined })}
+            className="h-4 w-4 rounded border-slate-700 bg-slate-950 accent-emerald-500"
+          />
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Blind review</span>
+        </label>
+      </section>
+
       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
         <button
           type="submit"
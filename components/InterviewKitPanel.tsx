@@ -0,0 +1,318 @@
+import React, { useEffect, useState } from 'react';
+import Loader from './Loader';
+import type {
+  AnalysisOptions,
+  AnalysisResponse,
+  InterviewKit,
+  InterviewScore,
+  InterviewScorecard,
+  InterviewerRole,
+  StoredInterview
+} from '../lib/types';
+
+interface InterviewKitPanelProps {
+  /** Left out for blind review history records; the server then uses the resume stored with `historyId`. */
+  resumeText?: string;
+  jobDescription: string;
+  options: AnalysisOptions;
+  analysis: AnalysisResponse;
+  /** The analysis history record the kit and scores are stored with; scoring is unavailable without one. */
+  historyId?: string;
+}
+
+const DURATIONS = [30, 45, 60, 90];
+const SCORE_LEVELS = [1, 2, 3, 4, 5];
+
+const INTERVIEWER_LABELS: Record<InterviewerRole, string> = {
+  recruiter: 'Recruiter',
+  'hiring-manager': 'Hiring manager',
+  'technical-interviewer': 'Technical interviewer',
+  'team-member': 'Team member'
+};
+
+const selectClassName =
+  'rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none';
+
+const indexScores = (scores: InterviewScore[]) =>
+  scores.reduce<Record<string, InterviewScore>>((byQuestion, score) => ({ ...byQuestion, [score.questionId]: score }), {});
+
+const InterviewKitPanel: React.FC<InterviewKitPanelProps> = ({ resumeText, jobDescription, options, analysis, historyId }) => {
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [kit, setKit] = useState<InterviewKit | null>(null);
+  const [scorecard, setScorecard] = useState<InterviewScorecard | null>(null);
+  const [scores, setScores] = useState<Record<string, InterviewScore>>({});
+  const [interviewer, setInterviewer] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const showStored = ({ kit: storedKit, scorecard: storedScorecard }: StoredInterview) => {
+    setKit(storedKit);
+    setScorecard(storedScorecard ?? null);
+    setScores(indexScores(storedScorecard?.scores ?? []));
+    setIsDirty(false);
+  };
+
+  // A kit belongs to one analysis; reset when it changes and load the kit already stored with it, if any.
+  useEffect(() => {
+    let cancelled = false;
+    setKit(null);
+    setScorecard(null);
+    setScores({});
+    setError(null);
+    if (historyId) {
+      fetch(`/api/history/${historyId}/interview`)
+        .then((response) => (response.ok ? (response.json() as Promise<StoredInterview>) : null))
+        .then((stored) => {
+          if (stored && !cancelled) {
+            showStored(stored);
+          }
+        })
+        .catch(() => undefined);
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [analysis, historyId, jobDescription, options, resumeText]);
+
+  const generateKit = async () => {
+    if (scorecard && !window.confirm('Building a new kit discards the scores recorded against this one. Continue?')) {
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/interview-kit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ resumeText, jobDescription, analysis, durationMinutes, historyId, ...options })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to build the interview kit.');
+      }
+      showStored({ kit: payload as InterviewKit });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build the interview kit.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateScore = (questionId: string, update: Partial<InterviewScore>) => {
+    setScores((previous) => {
+      const current = previous[questionId];
+      const score = update.score ?? current?.score;
+      if (!score) {
+        return previous;
+      }
+      return {
+        ...previous,
+        [questionId]: { ...current, ...update, questionId, score, interviewer: interviewer.trim() || current?.interviewer }
+      };
+    });
+    setIsDirty(true);
+  };
+
+  const saveScores = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${historyId}/interview`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ scores: Object.keys(scores).map((questionId) => scores[questionId]) })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to save the scores.');
+      }
+      showStored(payload as StoredInterview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the scores.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sectionScore = (sectionId: string) => scorecard?.sections.find((section) => section.sectionId === sectionId);
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-50">Interview kit</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Structured questions for each key skill and gap, with answer guidance, a 1–5 rubric, a suggested interviewer
+            and a time budget. Scores recorded here roll up into a post-interview score saved with the analysis.
+          </p>
+        </div>
+        <div className="flex shrink-0 items-end gap-3 text-xs text-slate-300">
+          <label className="flex flex-col gap-1">
+            <span className="font-semibold uppercase tracking-wide text-slate-400">Duration</span>
+            <select
+              value={durationMinutes}
+              onChange={(event) => setDurationMinutes(Number(event.target.value))}
+              className={selectClassName}
+            >
+              {DURATIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} min
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={generateKit}
+            disabled={isLoading}
+            className="inline-flex items-center justify-center rounded-full border border-emerald-500/50 px-5 py-2 text-sm font-semibold text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {kit ? 'Rebuild kit' : 'Build kit'}
+          </button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="mt-4">
+          <Loader label="Building interview kit" />
+        </div>
+      )}
+      {error && (
+        <p className="mt-4 rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+      )}
+
+      {kit && !isLoading && (
+        <div className="mt-6 space-y-6">
+          <div className="flex flex-wrap items-baseline gap-x-6 gap-y-2 text-sm text-slate-300">
+            <span>
+              {kit.sections.reduce((count, section) => count + section.questions.length, 0)} questions ·{' '}
+              {kit.totalMinutes} min (target {kit.durationMinutes})
+            </span>
+            <span className="flex items-baseline gap-2">
+              <span className="uppercase tracking-wide text-slate-400">Fit score</span>
+              <span className="text-lg font-semibold text-slate-200">{analysis.fitScore}</span>
+            </span>
+            <span className="flex items-baseline gap-2">
+              <span className="uppercase tracking-wide text-slate-400">Interview score</span>
+              <span className="text-2xl font-bold text-emerald-400">{scorecard?.interviewScore ?? '—'}</span>
+            </span>
+          </div>
+
+          {historyId ? (
+            <label className="flex max-w-xs flex-col gap-1 text-xs text-slate-300">
+              <span className="font-semibold uppercase tracking-wide text-slate-400">Your name (recorded with scores)</span>
+              <input
+                value={interviewer}
+                onChange={(event) => setInterviewer(event.target.value)}
+                className={selectClassName}
+              />
+            </label>
+          ) : (
+            <p className="text-xs text-slate-400">Scores can be recorded once the analysis is saved to history.</p>
+          )}
+
+          {kit.sections.map((section) => {
+            const summary = sectionScore(section.id);
+            return (
+              <div key={section.id} className="rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="font-semibold text-slate-100">
+                    <span
+                      className={`mr-2 rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase ${
+                        section.kind === 'gap' ? 'bg-amber-500/15 text-amber-200' : 'bg-sky-500/15 text-sky-200'
+                      }`}
+                    >
+                      {section.kind === 'gap' ? 'Gap' : 'Skill'}
+                    </span>
+                    {section.title}
+                  </h3>
+                  {summary && summary.average !== null && (
+                    <span className="text-xs text-slate-400">
+                      Average {summary.average} / 5 · {summary.scored} of {summary.total} scored
+                    </span>
+                  )}
+                </div>
+                <ol className="mt-3 space-y-4">
+                  {section.questions.map((question) => (
+                    <li key={question.id} className="text-sm text-slate-200">
+                      <p className="leading-relaxed">{question.question}</p>
+                      <p className="mt-1 text-xs text-slate-400">
+                        {INTERVIEWER_LABELS[question.interviewer]} · {question.minutes} min
+                      </p>
+                      <details className="mt-2 text-xs text-slate-300">
+                        <summary className="cursor-pointer text-slate-400">Answer guide &amp; rubric</summary>
+                        {question.strongAnswer && (
+                          <p className="mt-2 text-emerald-200">Strong: {question.strongAnswer}</p>
+                        )}
+                        {question.weakAnswer && <p className="mt-1 text-rose-200">Weak: {question.weakAnswer}</p>}
+                        <ol className="mt-2 space-y-1">
+                          {question.rubric.map((level, index) => (
+                            <li key={index}>
+                              <span className="font-semibold text-slate-100">{index + 1}</span> — {level}
+                            </li>
+                          ))}
+                        </ol>
+                      </details>
+                      {historyId && (
+                        <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center">
+                          <div className="flex gap-1" role="group" aria-label={`Score for ${question.id}`}>
+                            {SCORE_LEVELS.map((level) => (
+                              <button
+                                key={level}
+                                type="button"
+                                aria-pressed={scores[question.id]?.score === level}
+                                title={question.rubric[level - 1]}
+                                onClick={() => updateScore(question.id, { score: level })}
+                                className={`h-7 w-7 rounded-full border text-xs font-semibold transition ${
+                                  scores[question.id]?.score === level
+                                    ? 'border-emerald-500 bg-emerald-500/20 text-emerald-200'
+                                    : 'border-slate-700 text-slate-400 hover:border-emerald-500/60 hover:text-emerald-300'
+                                }`}
+                              >
+                                {level}
+                              </button>
+                            ))}
+                          </div>
+                          {scores[question.id] && (
+                            <input
+                              value={scores[question.id].notes ?? ''}
+                              onChange={(event) => updateScore(question.id, { notes: event.target.value })}
+                              placeholder="Notes"
+                              className={`${selectClassName} flex-1 py-1 text-xs`}
+                            />
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+
+          {historyId && (
+            <div className="flex items-center gap-3 text-xs text-slate-400">
+              <button
+                type="button"
+                onClick={saveScores}
+                disabled={isSaving || !isDirty}
+                className="rounded-full border border-emerald-500/50 px-4 py-1.5 text-sm font-semibold text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isSaving ? 'Saving…' : 'Save scores'}
+              </button>
+              {scorecard && <span>Last saved {new Date(scorecard.updatedAt).toLocaleString()}</span>}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default InterviewKitPanel;
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import Loader from './Loader';
+import type {
+  AnalysisOptions,
+  AnalysisResponse,
+  OutreachLength,
+  OutreachMode,
+  OutreachResponse,
+  OutreachSentence,
+  OutreachTone
+} from '../lib/types';
+
+interface OutreachPanelProps {
+  resumeText: string;
+  jobDescription: string;
+  options: AnalysisOptions;
+  analysis: AnalysisResponse;
+}
+
+const MODE_LABELS: Record<OutreachMode, string> = {
+  'cover-letter': 'Cover letter',
+  'recruiter-outreach': 'Recruiter outreach'
+};
+
+const TONE_LABELS: Record<OutreachTone, string> = {
+  professional: 'Professional',
+  friendly: 'Friendly',
+  enthusiastic: 'Enthusiastic'
+};
+
+const LENGTH_LABELS: Record<OutreachLength, string> = {
+  short: 'Short',
+  medium: 'Medium',
+  long: 'Long'
+};
+
+const selectClassName =
+  'rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none';
+
+const describeSources = ({ claim, citations }: OutreachSentence) =>
+  `From the ${claim === 'candidate' ? 'resume' : 'job description'}: ${citations.map((citation) => `“${citation.quote}”`).join(' · ')}`;
+
+const OutreachPanel: React.FC<OutreachPanelProps> = ({ resumeText, jobDescription, options, analysis }) => {
+  const [mode, setMode] = useState<OutreachMode>('cover-letter');
+  const [tone, setTone] = useState<OutreachTone>('professional');
+  const [length, setLength] = useState<OutreachLength>('medium');
+  const [draft, setDraft] = useState<OutreachResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // A draft describes one resume and analysis; drop it as soon as either changes.
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+  }, [analysis, jobDescription, options, resumeText]);
+
+  const generateDraft = async () => {
+    setIsLoading(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch('/api/outreach', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ resumeText, jobDescription, analysis, mode, tone, length, ...options })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to draft the message.');
+      }
+      setDraft(payload as OutreachResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft the message.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyDraft = async () => {
+    if (!draft) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(draft.subject ? `${draft.subject}\n\n${draft.text}` : draft.text);
+      setCopied(true);
+    } catch {
+      setError('Copying to the clipboard is not available in this browser.');
+    }
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+      <div>
+        <h2 className="text-xl font-semibold text-slate-50">Cover letter &amp; outreach</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Drafts a cover letter for the candidate or an outreach message from a recruiter, built from the cited
+          strengths and skills evidence. Every claim is checked against the resume or job description.
+        </p>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-4 text-xs text-slate-300 sm:flex-row sm:items-end">
+        <div className="flex rounded-full border border-slate-700 p-1" role="group" aria-label="Draft type">
+          {(Object.keys(MODE_LABELS) as OutreachMode[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={mode === value}
+              onClick={() => setMode(value)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                mode === value ? 'bg-emerald-500/20 text-emerald-200' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {MODE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Tone</span>
+          <select value={tone} onChange={(event) => setTone(event.target.value as OutreachTone)} className={selectClassName}>
+            {(Object.keys(TONE_LABELS) as OutreachTone[]).map((value) => (
+              <option key={value} value={value}>
+                {TONE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold uppercase tracking-wide text-slate-400">Length</span>
+          <select
+            value={length}
+            onChange={(event) => setLength(event.target.value as OutreachLength)}
+            className={selectClassName}
+          >
+            {(Object.keys(LENGTH_LABELS) as OutreachLength[]).map((value) => (
+              <option key={value} value={value}>
+                {LENGTH_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={generateDraft}
+          disabled={isLoading}
+          className="inline-flex shrink-0 items-center justify-center rounded-full border border-emerald-500/50 px-5 py-2 text-sm font-semibold text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50 sm:ml-auto"
+        >
+          {draft ? 'Draft again' : 'Draft'}
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="mt-4">
+          <Loader label="Drafting" />
+        </div>
+      )}
+      {error && (
+        <p className="mt-4 rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+      )}
+
+      {draft && !isLoading && (
+        <div className="mt-6 space-y-4">
+          <div className="rounded-lg border border-slate-800 bg-slate-950/40 p-4 text-sm leading-relaxed text-slate-200">
+            {draft.subject && <p className="mb-3 font-semibold text-slate-50">Subject: {draft.subject}</p>}
+            <div className="space-y-3">
+              {draft.paragraphs.map((sentences, paragraphIndex) => (
+                <p key={paragraphIndex}>
+                  {sentences.map((sentence, sentenceIndex) => (
+                    <React.Fragment key={sentenceIndex}>
+                      {sentenceIndex > 0 && ' '}
+                      {sentence.claim ? (
+                        <span
+                          title={describeSources(sentence)}
+                          className="underline decoration-slate-600 decoration-dotted underline-offset-4"
+                        >
+                          {sentence.text}
+                        </span>
+                      ) : (
+                        sentence.text
+                      )}
+                    </React.Fragment>
+                  ))}
+                </p>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            <button
+              type="button"
+              onClick={copyDraft}
+              className="rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-200 transition hover:border-emerald-500/60 hover:text-emerald-300"
+            >
+              {copied ? 'Copied' : 'Copy to clipboard'}
+            </button>
+            <span>Hover an underlined sentence to see the passages it is based on.</span>
+          </div>
+          {draft.droppedClaims.length > 0 && (
+            <details className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-amber-100">
+              <summary className="cursor-pointer font-medium">
+                {draft.droppedClaims.length} unsupported claim{draft.droppedClaims.length === 1 ? ' was' : 's were'}{' '}
+                left out
+              </summary>
+              <ul className="mt-2 list-disc space-y-1 pl-5 text-amber-200/90">
+                {draft.droppedClaims.map((claim, index) => (
+                  <li key={index}>{claim}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default OutreachPanel;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import type { AnalysisResponse, ReportFormat } from '../lib/types';
+
+interface ReportExportButtonsProps {
+  result: AnalysisResponse;
+}
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  markdown: 'Markdown',
+  json: 'JSON'
+};
+
+const FORMATS = Object.keys(FORMAT_LABELS) as ReportFormat[];
+
+const buttonClassName =
+  'inline-flex items-center rounded-full border border-slate-700 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-emerald-500/60 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Download links for the combined fit report. Saved analyses are exported from history, which also pulls in their
+ * skills matrix; unsaved results are posted as-is.
+ */
+const ReportExportButtons: React.FC<ReportExportButtonsProps> = ({ result }) => {
+  const [pendingFormat, setPendingFormat] = useState<ReportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const downloadUnsaved = async (format: ReportFormat) => {
+    setPendingFormat(format);
+    setError(null);
+    try {
+      const response = await fetch(`/api/export/${format}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ analysis: result })
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload.error ?? 'Unable to export the report.');
+      }
+      const fileName = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1];
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName ?? `fit-report.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the report.');
+    } finally {
+      setPendingFormat(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2 md:items-end">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] uppercase tracking-wide text-slate-400">Download report</span>
+        {FORMATS.map((format) =>
+          result.historyId ? (
+            <a
+              key={format}
+              href={`/api/export/${format}?id=${encodeURIComponent(result.historyId)}`}
+              download
+              className={buttonClassName}
+            >
+              {FORMAT_LABELS[format]}
+            </a>
+          ) : (
+            <button
+              key={format}
+              type="button"
+              onClick={() => downloadUnsaved(format)}
+              disabled={pendingFormat !== null}
+              className={buttonClassName}
+            >
+              {pendingFormat === format ? 'Preparing…' : FORMAT_LABELS[format]}
+            </button>
+          )
+        )}
+      </div>
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+};
+
+export default ReportExportButtons;
@@ -1,12 +1,61 @@
-import React from 'react';
-import type { AnalysisResponse } from '../lib/types';
+import React, { useEffect, useMemo, useState } from 'react';
+import EvidenceDocumentView from './EvidenceDocumentView';
+import Loader from './Loader';
+import ReportExportButtons from './ReportExportButtons';
+import { LANGUAGE_NAMES } from '../lib/languageDetection';
+import type { AnalysisResponse, DetectedLanguage, EvidenceCitation } from '../lib/types';
+
+type CitedField = 'strengths' | 'weaknesses';
+
+const NO_CITATIONS: EvidenceCitation[] = [];
+
+const languageLabel = ({ code }: DetectedLanguage) => (code ? LANGUAGE_NAMES[code] : 'undetermined');
 
 interface ResultsCardProps {
-  result: AnalysisResponse;
+  /** Partial while streaming: sections that have not arrived yet are undefined. */
+  result: Partial<AnalysisResponse>;
+  isStreaming?: boolean;
+  /**
+   * The analyzed texts; when given, cited passages are highlighted in a side-by-side document view. Blind review
+   * results carry their own redacted copies, which are shown instead.
+   */
+  documents?: { resumeText: string; jobDescription: string };
 }
 
-const ResultsCard: React.FC<ResultsCardProps> = ({ result }) => {
-  const renderList = (items: string[], accentColor: string, emptyLabel: string) => {
+const ResultsCard: React.FC<ResultsCardProps> = ({ result, isStreaming = false, documents: analyzedDocuments }) => {
+  const documents = result.redactedDocuments ?? analyzedDocuments;
+  const [selectedClaim, setSelectedClaim] = useState<{ field: CitedField; index: number } | null>(null);
+
+  const citationsOf = (field: CitedField, index: number): EvidenceCitation[] =>
+    result.citations?.[field][index] ?? NO_CITATIONS;
+  const allCitations = useMemo(
+    () =>
+      result.citations
+        ? result.citations.strengths.concat(result.citations.weaknesses).flatMap((citations) => citations)
+        : NO_CITATIONS,
+    [result.citations]
+  );
+
+  useEffect(() => setSelectedClaim(null), [result.citations]);
+
+  const showEvidence = Boolean(documents && !isStreaming && allCitations.length);
+
+  const renderList = (
+    items: string[] | undefined,
+    accentColor: string,
+    emptyLabel: string,
+    citedField?: CitedField
+  ) => {
+    if (items === undefined) {
+      return isStreaming ? (
+        <div className="mt-3">
+          <Loader label="Generating" />
+        </div>
+      ) : (
+        <p className="mt-3 text-sm text-slate-400">{emptyLabel}</p>
+      );
+    }
+
     if (items.length === 0) {
       return <p className="mt-3 text-sm text-slate-400">{emptyLabel}</p>;
     }
@@ -16,7 +65,28 @@ const ResultsCard: React.FC<ResultsCardProps> = ({ result }) => {
         {items.map((item, index) => (
           <li key={`${accentColor}-${index}`} className="flex gap-2">
             <span className={`mt-1 h-1.5 w-1.5 flex-shrink-0 rounded-full ${accentColor}`} />
-            <span>{item}</span>
+            {citedField && showEvidence && citationsOf(citedField, index).length > 0 ? (
+              <button
+                type="button"
+                aria-pressed={selectedClaim?.field === citedField && selectedClaim.index === index}
+                onClick={() =>
+                  setSelectedClaim(
+                    selectedClaim?.field === citedField && selectedClaim.index === index
+                      ? null
+                      : { field: citedField, index }
+                  )
+                }
+                className="text-left underline decoration-slate-600 decoration-dotted underline-offset-4 transition hover:decoration-emerald-400 aria-pressed:decoration-emerald-400 aria-pressed:decoration-solid"
+              >
+                {item}
+                <span className="ml-2 text-xs text-slate-500">
+                  {citationsOf(citedField, index).length} source
+                  {citationsOf(citedField, index).length === 1 ? '' : 's'}
+                </span>
+              </button>
+            ) : (
+              <span>{item}</span>
+            )}
           </li>
         ))}
       </ul>
@@ -32,28 +102,192 @@ const ResultsCard: React.FC<ResultsCardProps> = ({ result }) => {
             <p className="mt-1 max-w-2xl text-sm text-slate-300">{result.fitSummary}</p>
           )}
         </div>
-        <div className="flex items-baseline gap-2 self-start rounded-lg border border-emerald-500/30 bg-emerald-500/10 px-3 py-2">
-          <span className="text-4xl font-bold text-emerald-400">{result.fitScore}</span>
-          <span className="text-sm uppercase tracking-wide text-slate-400">/100</span>
+        <div className="flex flex-col items-start gap-1 self-start md:items-end">
+          <div className="flex items-stretch gap-2">
+            <div className="flex items-baseline gap-2 rounded-lg border border-emerald-500/30 bg-emerald-500/10 px-3 py-2">
+              <span className="text-4xl font-bold text-emerald-400">{result.fitScore ?? '—'}</span>
+              <span className="text-sm uppercase tracking-wide text-slate-400">/100</span>
+            </div>
+            {result.keywordCoverage && (
+              <div
+                className="flex flex-col justify-center rounded-lg border border-slate-700 bg-slate-950/40 px-3 py-2"
+                title="Deterministic keyword coverage of the job description, computed offline without the model"
+              >
+                <span className="text-xl font-semibold text-slate-200">{result.keywordCoverage.score}</span>
+                <span className="text-[10px] uppercase tracking-wide text-slate-400">Keyword baseline</span>
+              </div>
+            )}
+            {result.semanticSimilarity && (
+              <div
+                className="flex flex-col justify-center rounded-lg border border-slate-700 bg-slate-950/40 px-3 py-2"
+                title={`Embedding similarity of job requirements to resume passages (${result.semanticSimilarity.provider}: ${result.semanticSimilarity.model})`}
+              >
+                <span className="text-xl font-semibold text-slate-200">{result.semanticSimilarity.score}</span>
+                <span className="text-[10px] uppercase tracking-wide text-slate-400">Semantic match</span>
+              </div>
+            )}
+          </div>
+          {result.scoreStability && (
+            <p
+              className="text-xs text-slate-400"
+              title={`Individual run scores: ${result.scoreStability.scores.join(', ')}`}
+            >
+              Median of {result.scoreStability.runs} runs · 95% band {result.scoreStability.low}–
+              {result.scoreStability.high} · σ {result.scoreStability.standardDeviation}
+            </p>
+          )}
+          {result.scoreBreakdown && (
+            <p className="text-xs text-slate-400">
+              Weighted by the {result.scoreBreakdown.templateLabel} template · model score{' '}
+              {result.scoreBreakdown.modelFitScore}
+            </p>
+          )}
+          {result.languages && (
+            <p className="text-xs text-slate-400" title="Detected offline from each document's common words">
+              Resume in {languageLabel(result.languages.resume)} · job description in{' '}
+              {languageLabel(result.languages.jobDescription)}
+            </p>
+          )}
+          {!isStreaming && result.fitScore !== undefined && (
+            <div className="mt-2">
+              <ReportExportButtons result={result as AnalysisResponse} />
+            </div>
+          )}
         </div>
       </header>
 
+      {result.warnings && result.warnings.length > 0 && (
+        <details className="mt-4 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-amber-100">
+          <summary className="cursor-pointer font-medium">
+            Some fields were repaired with defaults ({result.warnings.length})
+          </summary>
+          <ul className="mt-2 list-disc space-y-1 pl-5 text-amber-200/90">
+            {result.warnings.map((warning, index) => (
+              <li key={`warning-${index}`}>{warning}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {result.scoreBreakdown && result.scoreBreakdown.categories.length > 0 && (
+        <details open className="mt-4 rounded-lg border border-slate-800 bg-slate-950/40 p-3 text-xs text-slate-300">
+          <summary className="cursor-pointer font-medium">
+            Fit score breakdown ({result.scoreBreakdown.templateLabel} template)
+          </summary>
+          <table className="mt-2 w-full text-left">
+            <thead className="text-[10px] uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-1 font-medium">Category</th>
+                <th className="py-1 text-right font-medium">Weight</th>
+                <th className="py-1 text-right font-medium">Match</th>
+                <th className="py-1 text-right font-medium">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.scoreBreakdown.categories.map((row) => (
+                <tr key={row.category} className="border-t border-slate-800/80">
+                  <td className="py-1">
+                    {row.category}
+                    {row.missing && <span className="text-rose-300"> (required, not found)</span>}
+                    {!row.templateCategory && <span className="text-slate-500"> (weighted by importance)</span>}
+                  </td>
+                  <td className="py-1 text-right">{row.weight}</td>
+                  <td className="py-1 text-right">{row.matchScore}</td>
+                  <td className="py-1 text-right font-semibold text-slate-200">{row.contribution}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+
+      {result.keywordCoverage && result.keywordCoverage.termCount > 0 && (
+        <details className="mt-4 rounded-lg border border-slate-800 bg-slate-950/40 p-3 text-xs text-slate-300">
+          <summary className="cursor-pointer font-medium">
+            Keyword coverage: {result.keywordCoverage.matchedTerms.length} of {result.keywordCoverage.termCount} job
+            description terms found in the resume
+          </summary>
+          <div className="mt-2 grid gap-3 md:grid-cols-2">
+            <p>
+              <span className="font-semibold text-emerald-300">Matched: </span>
+              {result.keywordCoverage.matchedTerms.join(', ') || '—'}
+            </p>
+            <p>
+              <span className="font-semibold text-amber-300">Missing: </span>
+              {result.keywordCoverage.missingTerms.join(', ') || '—'}
+            </p>
+          </div>
+        </details>
+      )}
+
+      {result.semanticSimilarity && result.semanticSimilarity.requirements.length > 0 && (
+        <details className="mt-4 rounded-lg border border-slate-800 bg-slate-950/40 p-3 text-xs text-slate-300">
+          <summary className="cursor-pointer font-medium">
+            Semantic match by requirement ({result.semanticSimilarity.requirements.length})
+          </summary>
+          <ul className="mt-2 space-y-2">
+            {result.semanticSimilarity.requirements.map((requirement, index) => (
+              <li key={requirement.requirementId ?? `requirement-${index}`} className="flex gap-3">
+                <span
+                  className={`w-10 flex-shrink-0 text-right font-semibold ${
+                    requirement.score >= 70
+                      ? 'text-emerald-300'
+                      : requirement.score >= 40
+                      ? 'text-amber-300'
+                      : 'text-rose-300'
+                  }`}
+                >
+                  {requirement.score}
+                </span>
+                <span>
+                  {requirement.requirementId && <span className="text-slate-500">[{requirement.requirementId}] </span>}
+                  {requirement.requirement}
+                  {requirement.priority === 'nice-to-have' && <span className="text-slate-500"> (nice to have)</span>}
+                  {requirement.bestMatch && (
+                    <span className="block text-slate-500">Closest resume passage: {requirement.bestMatch}</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       <div className="mt-8 space-y-8">
         <div className="grid gap-6 md:grid-cols-2">
           <div>
             <dt className="text-sm font-semibold uppercase tracking-wide text-emerald-300">
               Strengths
             </dt>
-            <dd>{renderList(result.strengths, 'bg-emerald-400', 'No strengths identified.')}</dd>
+            <dd>{renderList(result.strengths, 'bg-emerald-400', 'No strengths identified.', 'strengths')}</dd>
           </div>
           <div>
             <dt className="text-sm font-semibold uppercase tracking-wide text-amber-300">
               Weaknesses / Gaps
             </dt>
-            <dd>{renderList(result.weaknesses, 'bg-amber-400', 'No weaknesses identified.')}</dd>
+            <dd>{renderList(result.weaknesses, 'bg-amber-400', 'No weaknesses identified.', 'weaknesses')}</dd>
           </div>
         </div>
 
+        {showEvidence && documents && (
+          <div>
+            <dt className="text-sm font-semibold uppercase tracking-wide text-slate-300">Evidence</dt>
+            <dd className="mt-1 space-y-3">
+              <p className="text-xs text-slate-400">
+                {selectedClaim
+                  ? 'Passages cited for the selected point are highlighted; select it again to show all citations.'
+                  : 'Select a strength or weakness to highlight the passages it cites.'}
+              </p>
+              <EvidenceDocumentView
+                resumeText={documents.resumeText}
+                jobDescription={documents.jobDescription}
+                citations={allCitations}
+                activeCitations={selectedClaim ? citationsOf(selectedClaim.field, selectedClaim.index) : NO_CITATIONS}
+              />
+            </dd>
+          </div>
+        )}
+
         <div className="grid gap-6 md:grid-cols-2">
           <div>
             <dt className="text-sm font-semibold uppercase tracking-wide text-sky-300">
@@ -81,7 +315,7 @@ const ResultsCard: React.FC<ResultsCardProps> = ({ result }) => {
           </div>
         </div>
 
-        {result.recommendations.length > 0 && (
+        {(result.recommendations === undefined ? isStreaming : result.recommendations.length > 0) && (
           <div>
             <dt className="text-sm font-semibold uppercase tracking-wide text-emerald-300">
               Next Steps to Improve Your Fit
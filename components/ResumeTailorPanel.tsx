@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import Loader from './Loader';
+import type { AnalysisOptions, AnalysisResponse, DiffSegment, TailorResponse } from '../lib/types';
+
+interface ResumeTailorPanelProps {
+  resumeText: string;
+  jobDescription: string;
+  options: AnalysisOptions;
+  analysis: AnalysisResponse;
+}
+
+const SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+  equal: 'text-slate-300',
+  removed: 'rounded bg-rose-500/15 text-rose-300 line-through decoration-rose-400/70',
+  added: 'rounded bg-emerald-500/15 text-emerald-200'
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+const ResumeTailorPanel: React.FC<ResumeTailorPanelProps> = ({ resumeText, jobDescription, options, analysis }) => {
+  const [tailored, setTailored] = useState<TailorResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Suggestions describe one resume and analysis; drop them as soon as either changes.
+  useEffect(() => {
+    setTailored(null);
+    setError(null);
+  }, [analysis, jobDescription, options, resumeText]);
+
+  const suggestRewrites = async () => {
+    setIsLoading(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch('/api/tailor', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ resumeText, jobDescription, analysis, ...options })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to suggest rewrites.');
+      }
+      setTailored(payload as TailorResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest rewrites.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyTailoredResume = async () => {
+    if (!tailored) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(tailored.tailoredResumeText);
+      setCopied(true);
+    } catch {
+      setError('Copying to the clipboard is not available in this browser.');
+    }
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-50">Tailor this resume</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Suggests rewrites of resume bullets that address the gaps above using only facts already in the resume,
+            then re-scores the edited resume to project the change.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={suggestRewrites}
+          disabled={isLoading}
+          className="inline-flex shrink-0 items-center justify-center rounded-full border border-emerald-500/50 px-5 py-2 text-sm font-semibold text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {tailored ? 'Suggest again' : 'Suggest rewrites'}
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="mt-4">
+          <Loader label="Rewriting and re-scoring" />
+        </div>
+      )}
+      {error && (
+        <p className="mt-4 rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+      )}
+
+      {tailored && !isLoading && (
+        <div className="mt-6 space-y-6">
+          <div className="flex items-baseline gap-3 text-sm text-slate-300">
+            <span className="uppercase tracking-wide text-slate-400">Projected fit score</span>
+            <span className="text-lg font-semibold text-slate-200">{tailored.rescore.originalFitScore}</span>
+            <span aria-hidden>→</span>
+            <span className="text-2xl font-bold text-emerald-400">{tailored.rescore.tailoredFitScore}</span>
+            <span
+              className={`font-semibold ${tailored.rescore.delta > 0 ? 'text-emerald-300' : tailored.rescore.delta < 0 ? 'text-rose-300' : 'text-slate-400'}`}
+            >
+              ({formatDelta(tailored.rescore.delta)})
+            </span>
+          </div>
+
+          <ol className="space-y-4">
+            {tailored.rewrites.map((rewrite, index) => (
+              <li key={`${rewrite.original.start}-${index}`} className="rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+                <p className="text-sm leading-relaxed">
+                  {rewrite.diff.map((segment, segmentIndex) => (
+                    <span key={segmentIndex} className={SEGMENT_CLASSES[segment.type]}>
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+                {rewrite.rationale && <p className="mt-2 text-xs text-slate-400">{rewrite.rationale}</p>}
+                {rewrite.jobKeywords.length > 0 && (
+                  <p className="mt-2 flex flex-wrap gap-1">
+                    {rewrite.jobKeywords.map((keyword) => (
+                      <span
+                        key={keyword}
+                        className="rounded-full border border-sky-500/30 bg-sky-500/10 px-2 py-0.5 text-[11px] text-sky-200"
+                      >
+                        {keyword}
+                      </span>
+                    ))}
+                  </p>
+                )}
+                {rewrite.unsupportedTerms.length > 0 && (
+                  <p className="mt-2 text-xs text-amber-300">
+                    Not found in your resume: {rewrite.unsupportedTerms.join(', ')}. Left out of the tailored resume and the projected score; only use it if it is true.
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {tailored.notes && (
+            <p className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-3 text-sm text-amber-100">
+              {tailored.notes}
+            </p>
+          )}
+
+          <details className="rounded-lg border border-slate-800 bg-slate-950/40 p-3 text-sm text-slate-300">
+            <summary className="cursor-pointer font-medium">Tailored resume</summary>
+            <button
+              type="button"
+              onClick={copyTailoredResume}
+              className="mt-3 rounded-full border border-slate-700 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-emerald-500/60 hover:text-emerald-300"
+            >
+              {copied ? 'Copied' : 'Copy to clipboard'}
+            </button>
+            <pre className="mt-3 whitespace-pre-wrap font-sans text-sm text-slate-200">
+              {tailored.tailoredResumeText}
+            </pre>
+          </details>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ResumeTailorPanel;
@@ -0,0 +1,115 @@
+import React from 'react';
+import ResultsCard from './ResultsCard';
+import type { RoleMatchJobResult, RoleMatchResponse } from '../lib/types';
+
+interface RoleComparisonViewProps {
+  result: RoleMatchResponse;
+}
+
+const formatMatch = (value?: number) => (value === undefined ? 'n/a' : value);
+
+const RoleComparisonView: React.FC<RoleComparisonViewProps> = ({ result }) => {
+  const { comparison, jobs } = result;
+  const titleById = new Map(jobs.map((job) => [job.id, job.title]));
+  const bestTitle = comparison.bestJobId ? titleById.get(comparison.bestJobId) : undefined;
+  const comparisonTitle = comparison.comparisonJobId ? titleById.get(comparison.comparisonJobId) : undefined;
+  const failedJobs = jobs.filter(
+    (job): job is Extract<RoleMatchJobResult, { status: 'error' }> => job.status === 'error'
+  );
+
+  return (
+    <section className="mt-8 space-y-6">
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+        <h2 className="text-xl font-semibold text-slate-50">Best role match</h2>
+        {bestTitle && (
+          <p className="mt-1 text-sm text-slate-300">
+            <span className="font-semibold text-emerald-300">{bestTitle}</span> is the strongest fit for this resume.
+          </p>
+        )}
+
+        <ol className="mt-4 space-y-3">
+          {comparison.ranking.map((role, index) => (
+            <li key={role.jobId} className="space-y-1">
+              <div className="flex items-baseline justify-between text-sm">
+                <span className={index === 0 ? 'font-semibold text-emerald-300' : 'text-slate-200'}>
+                  {index + 1}. {role.title}
+                </span>
+                <span className="text-slate-400">
+                  Fit {role.fitScore} · Weighted skills match {role.weightedMatch}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-800">
+                <div
+                  className={`h-2 rounded-full ${index === 0 ? 'bg-emerald-400' : 'bg-sky-500/70'}`}
+                  style={{ width: `${role.fitScore}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {comparison.drivers.length > 0 && comparisonTitle && (
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              What separates {bestTitle} from {comparisonTitle}
+            </h3>
+            <table className="mt-3 w-full text-left text-sm text-slate-200">
+              <thead className="text-xs uppercase tracking-wide text-slate-400">
+                <tr>
+                  <th className="py-2 pr-3">Skills category</th>
+                  <th className="py-2 pr-3">{bestTitle}</th>
+                  <th className="py-2 pr-3">{comparisonTitle}</th>
+                  <th className="py-2">Impact</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {comparison.drivers.map((driver) => (
+                  <tr key={driver.category}>
+                    <td className="py-2 pr-3">{driver.category}</td>
+                    <td className="py-2 pr-3">{formatMatch(driver.bestJobMatch)}</td>
+                    <td className="py-2 pr-3">{formatMatch(driver.comparisonJobMatch)}</td>
+                    <td className={`py-2 ${driver.impact > 0 ? 'text-emerald-300' : 'text-rose-300'}`}>
+                      {driver.impact > 0 ? '+' : ''}
+                      {driver.impact}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-500">
+              Impact is the category&apos;s contribution to the emphasis-weighted skills match of the best role minus its
+              contribution for the runner-up.
+            </p>
+          </div>
+        )}
+
+        {failedJobs.length > 0 && (
+          <ul className="mt-4 space-y-1 text-xs text-rose-300">
+            {failedJobs.map((job) => (
+              <li key={job.id}>
+                {job.title}: {job.error}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {comparison.ranking.map((role) => {
+        const job = jobs.find((candidate) => candidate.id === role.jobId);
+        if (!job || job.status !== 'ok') {
+          return null;
+        }
+        return (
+          <details key={job.id} className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4">
+            <summary className="cursor-pointer text-sm font-semibold text-slate-100">
+              {job.title} — full analysis
+            </summary>
+            <ResultsCard result={job.analysis} />
+          </details>
+        );
+      })}
+    </section>
+  );
+};
+
+export default RoleComparisonView;
@@ -1,13 +1,25 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 
 import Loader from './Loader';
-import type { SkillImportance, SkillsMatrixEntry } from '../lib/types';
+import type {
+  GenerationProfileName,
+  LanguageCode,
+  SkillImportance,
+  SkillsMatrixEntry,
+  SkillsMatrixResponse
+} from '../lib/types';
 
 type MatchStatus = 'strong' | 'needs-improvement' | 'weak';
 
 interface SkillsRadarMatrixProps {
   resumeText: string;
   jobDescriptionText: string;
+  /** Previously generated matrix to display instead of requesting a new one. */
+  matrix?: SkillsMatrixResponse;
+  generationProfile?: GenerationProfileName;
+  scoringTemplate?: string;
+  blindReview?: boolean;
+  outputLanguage?: LanguageCode;
 }
 
 declare global {
@@ -16,6 +28,8 @@ declare global {
   }
 }
 
+const MATRIX_REQUEST_DEBOUNCE_MS = 800;
+
 const CHART_JS_CDN = 'https://cdn.jsdelivr.net/npm/chart.js@4.4.5/dist/chart.umd.min.js';
 
 const determineStatus = (score: number): MatchStatus => {
@@ -39,6 +53,28 @@ const formatImportance = (importance: SkillImportance): string => {
   }
 };
 
+/** Renders keywords inline, marking those the verification pass could not find in the source text. */
+const renderKeywords = (keywords: string[], unverified: string[] = []) =>
+  keywords.length
+    ? keywords.map((keyword, index) => (
+        <React.Fragment key={keyword}>
+          {index > 0 && ', '}
+          {keyword}
+          {unverified.includes(keyword) && (
+            <span
+              className="ml-1 rounded bg-amber-500/15 px-1 text-[10px] uppercase tracking-wide text-amber-300"
+              title="Not found in the source text, even after stemming and synonym matching"
+            >
+              unverified
+            </span>
+          )}
+        </React.Fragment>
+      ))
+    : '—';
+
+const markUnverified = (keywords: string[], unverified: string[] = []) =>
+  keywords.map((keyword) => (unverified.includes(keyword) ? `${keyword} (unverified)` : keyword));
+
 interface TooltipDetails {
   required: string[];
   inferred: string[];
@@ -48,7 +84,15 @@ interface TooltipDetails {
   status: MatchStatus;
 }
 
-const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({ resumeText, jobDescriptionText }) => {
+const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({
+  resumeText,
+  jobDescriptionText,
+  matrix,
+  generationProfile,
+  scoringTemplate,
+  blindReview,
+  outputLanguage
+}) => {
   const [isChartReady, setChartReady] = useState(false);
   const [entries, setEntries] = useState<SkillsMatrixEntry[]>([]);
   const [summary, setSummary] = useState<string | undefined>();
@@ -80,6 +124,14 @@ const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({ resumeText, jobDe
   }, []);
 
   useEffect(() => {
+    if (matrix) {
+      setEntries(matrix.categories);
+      setSummary(matrix.summary);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
     if (!resumeText.trim() || !jobDescriptionText.trim()) {
       setEntries([]);
       setSummary(undefined);
@@ -111,7 +163,14 @@ const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({ resumeText, jobDe
           headers: {
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ resumeText, jobDescription: jobDescriptionText }),
+          body: JSON.stringify({
+            resumeText,
+            jobDescription: jobDescriptionText,
+            generationProfile,
+            scoringTemplate,
+            blindReview,
+            outputLanguage
+          }),
           signal: controller.signal
         });
 
@@ -150,13 +209,15 @@ const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({ resumeText, jobDe
       }
     };
 
-    fetchMatrix();
+    // Debounce so typing in either textarea does not fire a request per keystroke.
+    const timer = window.setTimeout(fetchMatrix, MATRIX_REQUEST_DEBOUNCE_MS);
 
     return () => {
       isActive = false;
+      window.clearTimeout(timer);
       controller.abort();
     };
-  }, [jobDescriptionText, resumeText]);
+  }, [blindReview, generationProfile, jobDescriptionText, matrix, outputLanguage, resumeText, scoringTemplate]);
 
   const decoratedEntries = useMemo(
     () =>
@@ -182,9 +243,9 @@ const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({ resumeText, jobDe
   const chartTooltips = useMemo<TooltipDetails[]>(
     () =>
       decoratedEntries.map((entry) => ({
-        required: entry.requiredKeywords,
+        required: markUnverified(entry.requiredKeywords, entry.unverifiedRequiredKeywords),
         inferred: entry.inferredRequirements,
-        resume: entry.resumeKeywords,
+        resume: markUnverified(entry.resumeKeywords, entry.unverifiedResumeKeywords),
         experience: entry.experienceEvidence,
         gapReason: entry.gapReason,
         status: entry.status
@@ -425,15 +486,29 @@ const SkillsRadarMatrix: React.FC<SkillsRadarMatrixProps> = ({ resumeText, jobDe
                       <p className="text-xs text-slate-400">Importance: {formatImportance(entry.importance)}</p>
                     </div>
                     <div className="space-y-1 text-xs text-slate-400">
-                      <p>JD keywords: {entry.requiredKeywords.length ? entry.requiredKeywords.join(', ') : '—'}</p>
+                      <p>JD keywords: {renderKeywords(entry.requiredKeywords, entry.unverifiedRequiredKeywords)}</p>
                       <p>
                         Inferred needs:{' '}
                         {entry.inferredRequirements.length ? entry.inferredRequirements.join(', ') : '—'}
                       </p>
-                      <p>
-                        Resume evidence: {entry.resumeKeywords.length ? entry.resumeKeywords.join(', ') : '—'}
-                      </p>
+                      <p>Resume evidence: {renderKeywords(entry.resumeKeywords, entry.unverifiedResumeKeywords)}</p>
+                      {entry.alignmentPenalty ? (
+                        <p className="text-amber-300/80">
+                          Candidate alignment lowered by {entry.alignmentPenalty} for unverified resume keywords
+                        </p>
+                      ) : null}
+                      {entry.requirementIds?.length ? <p>Covers requirements: {entry.requirementIds.join(', ')}</p> : null}
+                      {entry.semanticAlignment !== undefined && (
+                        <p>Semantic match: {entry.semanticAlignment} (blended into candidate alignment)</p>
+                      )}
                       {entry.experienceEvidence && <p>Depth: {entry.experienceEvidence}</p>}
+                      {entry.evidenceCitations?.length ? (
+                        <ul className="space-y-0.5 border-l border-slate-700 pl-2 italic text-slate-500">
+                          {entry.evidenceCitations.map((citation) => (
+                            <li key={citation.start}>“{citation.quote}”</li>
+                          ))}
+                        </ul>
+                      ) : null}
                       {entry.gapReason && entry.status !== 'strong' && <p>Gap: {entry.gapReason}</p>}
                     </div>
                   </div>
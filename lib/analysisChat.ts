@@ -0,0 +1,116 @@
+import { generateSkillsMatrix } from './analysisService';
+import { CHAT_PROMPT_VERSION, buildChatPrompt, parseChatResponse, type ChatContext } from './chatPrompt';
+import { hashContent } from './contentHash';
+import { describeGeneration, resolveGenerationSettings } from './generation';
+import { getMatchingAnalysisRecord, updateHistoryRecord } from './historyStore';
+import { completeWithRepair } from './modelOutput';
+import { describeLanguage } from './languageDetection';
+import { getActiveModel } from './openai';
+import { describeRedaction, prepareRedaction, redactText } from './redaction';
+import { buildCacheKey, withResponseCache } from './responseCache';
+import type {
+  AnalysisRequest,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatTranscript,
+  RedactionEntity,
+  SkillsMatrixResponse
+} from './types';
+
+/** The free text of the context the prompt shows; scores and other numbers need no redaction. */
+function redactContext({ analysis, skillsMatrix }: ChatContext, entities: RedactionEntity[]): ChatContext {
+  const redact = (text: string) => redactText(text, entities);
+  return {
+    analysis: {
+      ...analysis,
+      fitSummary: analysis.fitSummary && redact(analysis.fitSummary),
+      strengths: analysis.strengths.map(redact),
+      weaknesses: analysis.weaknesses.map(redact),
+      recommendations: analysis.recommendations.map(redact)
+    },
+    skillsMatrix: skillsMatrix && {
+      ...skillsMatrix,
+      categories: skillsMatrix.categories.map((category) => ({
+        ...category,
+        experienceEvidence: category.experienceEvidence && redact(category.experienceEvidence),
+        gapReason: category.gapReason && redact(category.gapReason)
+      }))
+    }
+  };
+}
+
+/** The skills matrix for the same inputs, usually served from the cache; questions are still answered without one. */
+async function loadSkillsMatrix(request: AnalysisRequest): Promise<SkillsMatrixResponse | undefined> {
+  try {
+    const { value } = await generateSkillsMatrix(request, { saveHistory: false });
+    return value;
+  } catch (error) {
+    console.error('Skills matrix unavailable for follow-up chat', error);
+    return undefined;
+  }
+}
+
+/**
+ * Answers the latest question in a follow-up conversation about an analysis, with the resume, job description,
+ * analysis and skills matrix as context. Answers cite verified passages from the documents.
+ */
+export async function answerFollowUp(
+  { analysis, skillsMatrix, messages, ...request }: Omit<ChatRequest, 'historyId'>,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<ChatResponse> {
+  const context: ChatContext = { analysis, skillsMatrix: skillsMatrix ?? (await loadSkillsMatrix(request)) };
+  const generation = resolveGenerationSettings(request.generationProfile);
+  const cacheKey = buildCacheKey({
+    namespace: 'chat',
+    promptVersion: CHAT_PROMPT_VERSION,
+    model: getActiveModel(),
+    resumeText: request.resumeText,
+    jobDescription: request.jobDescription,
+    variant: [
+      describeGeneration(generation, 1),
+      describeRedaction(request),
+      describeLanguage(request.outputLanguage),
+      `context=${hashContent(JSON.stringify(context))}`,
+      `conversation=${hashContent(JSON.stringify(messages.map(({ role, content }) => ({ role, content }))))}`
+    ].join('|')
+  });
+
+  const { value } = await withResponseCache(cacheKey, refresh, async () => {
+    const redaction = prepareRedaction(request);
+    const { redacted, sources } = redaction;
+    // Questions and earlier (revealed) answers may name the candidate; the model must not see personal details.
+    const redactMessage = ({ role, content, citations }: ChatMessage): ChatMessage => ({
+      role,
+      content: redactText(content, redacted.entities),
+      citations: citations?.map((citation) => ({ ...citation, quote: redactText(citation.quote, redacted.entities) }))
+    });
+    const prompt = buildChatPrompt(
+      redacted,
+      redactContext(context, redacted.entities),
+      messages.map(redactMessage),
+      request.outputLanguage
+    );
+    const { value: response } = await completeWithRepair(
+      prompt,
+      (content) => parseChatResponse(redaction.revealCompletion(content), sources),
+      { generation }
+    );
+    return redaction.blind
+      ? { ...response, redactedDocuments: { resumeText: redacted.resumeText, jobDescription: request.jobDescription } }
+      : response;
+  });
+  return value;
+}
+
+/** Saves a conversation with the analysis history record it is about, replacing the earlier transcript. */
+export async function saveChatTranscript(
+  historyId: string,
+  request: AnalysisRequest,
+  messages: ChatMessage[]
+): Promise<ChatTranscript> {
+  await getMatchingAnalysisRecord(historyId, request);
+  const chat: ChatTranscript = { messages, updatedAt: new Date().toISOString() };
+  await updateHistoryRecord(historyId, (current) => (current.kind === 'analysis' ? { ...current, chat } : current));
+  return chat;
+}
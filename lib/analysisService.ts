@@ -0,0 +1,262 @@
+import { aggregateEnsemble } from './ensemble';
+import { describeGeneration, normalizeEnsembleRuns, resolveGenerationSettings } from './generation';
+import { getHistoryRecord, recordHistory } from './historyStore';
+import { parseJobDescription } from './jobDescriptionParser';
+import { scoreKeywordCoverage } from './keywordScoring';
+import { verifySkillsMatrixKeywords } from './keywordVerification';
+import { describeLanguage, detectDocumentLanguages } from './languageDetection';
+import { completeWithRepair } from './modelOutput';
+import { getActiveModel } from './openai';
+import { ANALYSIS_PROMPT_VERSION, buildAnalysisPrompt, parseModelResponse } from './prompt';
+import { describeRedaction, prepareRedaction } from './redaction';
+import { buildCacheKey, readCache, withResponseCache, writeCache } from './responseCache';
+import { aggregateFitScore, describeScoringTemplate, getScoringTemplate } from './scoringTemplates';
+import { applySemanticAlignment, computeSemanticSimilarity, resolveSimilarityProvider } from './semanticSimilarity';
+import { SKILLS_MATRIX_PROMPT_VERSION, buildSkillsMatrixPrompt, parseSkillsMatrixResponse } from './skillsMatrixPrompt';
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  GenerationSettings,
+  SemanticSimilarity,
+  SkillsMatrixResponse
+} from './types';
+
+export interface RunOptions {
+  /** Skip the response cache and call the model even when a fresh cached result exists. */
+  refresh?: boolean;
+  /** A completion already received (e.g. streamed) to validate as the first attempt. */
+  firstCompletion?: string;
+  /**
+   * Similarity already computed (from the redacted documents) for the streamed prompt, reused so the repair prompt
+   * matches it exactly.
+   */
+  semanticSimilarity?: SemanticSimilarity | null;
+  /** Save the result to history (default). Counterfactual audit variants are not saved. */
+  saveHistory?: boolean;
+  /** A skills matrix the caller already generated for the same request, aggregated instead of generating another. */
+  skillsMatrix?: SkillsMatrixResponse;
+}
+
+export interface RunResult<T> {
+  value: T;
+  cached: boolean;
+}
+
+/** Similarity scores enter the prompts, so results from different embedding models are cached separately. */
+function embeddingVariant(): string {
+  const provider = resolveSimilarityProvider();
+  return provider ? `embeddings=${provider.name}:${provider.model}` : 'embeddings=off';
+}
+
+export function analysisCacheKey(request: AnalysisRequest): string {
+  const generation = resolveGenerationSettings(request.generationProfile);
+  return buildCacheKey({
+    namespace: 'analysis',
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    model: getActiveModel(),
+    resumeText: request.resumeText,
+    jobDescription: request.jobDescription,
+    variant: [
+      describeGeneration(generation, normalizeEnsembleRuns(request.ensembleRuns)),
+      embeddingVariant(),
+      describeScoringTemplate(request.scoringTemplate),
+      describeRedaction(request),
+      describeLanguage(request.outputLanguage)
+    ].join('|')
+  });
+}
+
+export function skillsMatrixCacheKey(request: AnalysisRequest): string {
+  const generation = resolveGenerationSettings(request.generationProfile);
+  return buildCacheKey({
+    namespace: 'skills-matrix',
+    promptVersion: SKILLS_MATRIX_PROMPT_VERSION,
+    model: getActiveModel(),
+    resumeText: request.resumeText,
+    jobDescription: request.jobDescription,
+    variant: [
+      describeGeneration(generation, 1),
+      embeddingVariant(),
+      describeScoringTemplate(request.scoringTemplate),
+      describeRedaction(request),
+      describeLanguage(request.outputLanguage)
+    ].join('|')
+  });
+}
+
+export function readCachedAnalysis(request: AnalysisRequest): Promise<AnalysisResponse | null> {
+  return readCache<AnalysisResponse>(analysisCacheKey(request));
+}
+
+/** Varies the seed per ensemble run so seeded profiles still sample independent analyses. */
+function seedForRun(generation: GenerationSettings, run: number): GenerationSettings {
+  return generation.seed === undefined ? generation : { ...generation, seed: generation.seed + run };
+}
+
+/**
+ * A cache hit carries the history id of the run that produced it. When that record has since been deleted (or was
+ * never saved, because the run skipped history), the result is saved again and the cache entry updated, so the id
+ * returned always resolves for chat, interview and export calls.
+ */
+async function reattachHistory<T extends AnalysisResponse | SkillsMatrixResponse>(
+  cacheKey: string,
+  result: RunResult<T>,
+  save: (response: T) => Promise<string | undefined>
+): Promise<RunResult<T>> {
+  const savedId = result.value.historyId;
+  if (!result.cached || (savedId && (await getHistoryRecord(savedId).catch(() => null)))) {
+    return result;
+  }
+  const response = { ...result.value, historyId: undefined };
+  const historyId = await save(response);
+  if (!historyId) {
+    return { ...result, value: response };
+  }
+  const value = { ...response, historyId };
+  await writeCache(cacheKey, value);
+  return { ...result, value };
+}
+
+/**
+ * Scores a resume against a job description: serves identical inputs from the response cache, otherwise validates
+ * the model output (with repair retries), aggregates ensemble runs, saves the result to history and caches it. With a
+ * scoring template, `fitScore` is replaced by the template-weighted aggregate of the skills matrix categories. The
+ * model and embedding providers only ever see the redacted resume.
+ */
+export async function analyzeFit(
+  request: AnalysisRequest,
+  {
+    refresh = false,
+    firstCompletion,
+    semanticSimilarity: precomputedSimilarity,
+    saveHistory = true,
+    skillsMatrix: precomputedMatrix
+  }: RunOptions = {}
+): Promise<RunResult<AnalysisResponse>> {
+  const { resumeText, jobDescription, generationProfile, scoringTemplate, blindReview, outputLanguage } = request;
+  const generation = resolveGenerationSettings(generationProfile);
+  const ensembleRuns = normalizeEnsembleRuns(request.ensembleRuns);
+  const template = getScoringTemplate(scoringTemplate);
+  const cacheKey = analysisCacheKey(request);
+  const saveToHistory = (response: AnalysisResponse) =>
+    recordHistory({
+      kind: 'analysis',
+      request: {
+        resumeText,
+        jobDescription,
+        generationProfile,
+        ensembleRuns,
+        scoringTemplate,
+        blindReview,
+        outputLanguage
+      },
+      response
+    });
+
+  const result = await withResponseCache(cacheKey, refresh || firstCompletion !== undefined, async () => {
+    const redaction = prepareRedaction(request);
+    const { redacted, sources } = redaction;
+    const semanticSimilarity =
+      precomputedSimilarity !== undefined
+        ? precomputedSimilarity
+        : await computeSemanticSimilarity(redacted.resumeText, redacted.jobDescription);
+    const messages = buildAnalysisPrompt(
+      { resumeText: redacted.resumeText, jobDescription: redacted.jobDescription, scoringTemplate, outputLanguage },
+      { semanticSimilarity }
+    );
+    const parse = (content: string) => parseModelResponse(redaction.revealCompletion(content), sources);
+    const [runs, matrix] = await Promise.all([
+      Promise.all(
+        Array.from({ length: ensembleRuns }, async (_, run) => {
+          const { value } = await completeWithRepair(messages, parse, {
+            firstCompletion: run === 0 ? firstCompletion : undefined,
+            generation: seedForRun(generation, run)
+          });
+          return value;
+        })
+      ),
+      template && !precomputedMatrix
+        ? generateSkillsMatrix(
+            { resumeText, jobDescription, generationProfile, scoringTemplate, blindReview, outputLanguage },
+            { refresh, saveHistory }
+          )
+        : null
+    ]);
+    const matrixValue = template ? precomputedMatrix ?? matrix?.value : undefined;
+
+    const value: AnalysisResponse = {
+      ...aggregateEnsemble(runs),
+      keywordCoverage: scoreKeywordCoverage(sources.resumeText, sources.jobDescription),
+      semanticSimilarity: redaction.reveal(semanticSimilarity) ?? undefined,
+      languages: detectDocumentLanguages(sources.resumeText, sources.jobDescription),
+      redactedDocuments: redaction.blind ? { resumeText: redacted.resumeText, jobDescription } : undefined
+    };
+    if (template && matrixValue?.categories.length) {
+      const { fitScore, breakdown } = aggregateFitScore(matrixValue, template, value.fitScore);
+      value.fitScore = fitScore;
+      value.scoreBreakdown = breakdown;
+      value.skillsMatrix = matrixValue;
+    } else if (template) {
+      value.warnings = (value.warnings ?? []).concat(
+        `Scoring template "${template.label}" was not applied because no skills matrix could be derived; fitScore is the model's own score.`
+      );
+    }
+    if (!saveHistory) {
+      return value;
+    }
+    const historyId = await saveToHistory(value);
+    return { ...value, historyId };
+  });
+  return saveHistory ? reattachHistory(cacheKey, result, saveToHistory) : result;
+}
+
+export async function generateSkillsMatrix(
+  request: AnalysisRequest,
+  { refresh = false, saveHistory = true }: RunOptions = {}
+): Promise<RunResult<SkillsMatrixResponse>> {
+  const { resumeText, jobDescription, generationProfile, scoringTemplate, blindReview, outputLanguage } = request;
+  const generation = resolveGenerationSettings(generationProfile);
+  const cacheKey = skillsMatrixCacheKey(request);
+  const saveToHistory = (response: SkillsMatrixResponse) =>
+    recordHistory({
+      kind: 'skills-matrix',
+      request: { resumeText, jobDescription, generationProfile, scoringTemplate, blindReview, outputLanguage },
+      response
+    });
+
+  const result = await withResponseCache(
+    cacheKey,
+    refresh,
+    async () => {
+      const redaction = prepareRedaction(request);
+      const { redacted, sources } = redaction;
+      const messages = buildSkillsMatrixPrompt({
+        resumeText: redacted.resumeText,
+        jobDescription: redacted.jobDescription,
+        scoringTemplate,
+        outputLanguage
+      });
+      const requirementIds = parseJobDescription(jobDescription).requirements.map((requirement) => requirement.id);
+      const { value } = await completeWithRepair(
+        messages,
+        (content) => parseSkillsMatrixResponse(redaction.revealCompletion(content), requirementIds, sources),
+        { generation }
+      );
+      if (!value.categories.length) {
+        return value;
+      }
+      const verified = verifySkillsMatrixKeywords(value, sources);
+      const aligned = await applySemanticAlignment(verified, redacted.resumeText, redacted.jobDescription);
+      if (redaction.blind) {
+        aligned.redactedDocuments = { resumeText: redacted.resumeText, jobDescription };
+      }
+      if (!saveHistory) {
+        return aligned;
+      }
+      const historyId = await saveToHistory(aligned);
+      return { ...aligned, historyId };
+    },
+    (value) => value.categories.length > 0
+  );
+  return saveHistory ? reattachHistory(cacheKey, result, saveToHistory) : result;
+}
@@ -0,0 +1,187 @@
+import { importJobDescription } from './jobPostingImport';
+import { cleanExtractedText, stripRtf } from './textCleanup';
+
+export const SUPPORTED_EXTENSIONS = new Set(['txt', 'md', 'rtf', 'pdf', 'docx', 'html', 'htm', 'json']);
+
+/** `accept` attribute values for resume uploads and for job description uploads, which also take JD exports. */
+export const RESUME_FILE_ACCEPT = '.txt,.md,.rtf,.pdf,.docx';
+export const JOB_DESCRIPTION_FILE_ACCEPT = `${RESUME_FILE_ACCEPT},.html,.htm,.json`;
+
+declare global {
+  interface Window {
+    pdfjsLib?: {
+      getDocument: (options: unknown) => { promise: Promise<any> };
+      GlobalWorkerOptions: { workerSrc: string };
+    };
+    __pdfjsLoadingPromise?: Promise<any>;
+    mammoth?: {
+      extractRawText: (options: { arrayBuffer: ArrayBuffer }) => Promise<{ value: string }>;
+    };
+    __mammothLoadingPromise?: Promise<any>;
+  }
+}
+
+const CDN_BASE_PDF = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174';
+const MAMMOTH_BROWSER_SRC = 'https://unpkg.com/mammoth@1.6.0/mammoth.browser.min.js';
+
+const loadScript = (src: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (typeof window === 'undefined') {
+      reject(new Error('Scripts can only be loaded in the browser.'));
+      return;
+    }
+
+    const existing = document.querySelector<HTMLScriptElement>(`script[src="${src}"]`);
+    if (existing) {
+      if (existing.dataset.status === 'loaded') {
+        resolve();
+        return;
+      }
+      existing.addEventListener('load', () => resolve(), { once: true });
+      existing.addEventListener('error', () => reject(new Error(`Failed to load script ${src}`)), {
+        once: true,
+      });
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.dataset.status = 'loading';
+    script.onload = () => {
+      script.dataset.status = 'loaded';
+      resolve();
+    };
+    script.onerror = () => {
+      script.dataset.status = 'error';
+      reject(new Error(`Failed to load script ${src}`));
+    };
+    document.head.appendChild(script);
+  });
+
+const loadPdfJs = async () => {
+  if (typeof window === 'undefined') {
+    throw new Error('PDF parsing is only supported in the browser.');
+  }
+
+  if (window.pdfjsLib) {
+    return window.pdfjsLib;
+  }
+
+  if (!window.__pdfjsLoadingPromise) {
+    window.__pdfjsLoadingPromise = (async () => {
+      await loadScript(`${CDN_BASE_PDF}/pdf.min.js`);
+      if (!window.pdfjsLib) {
+        throw new Error('Failed to initialize the PDF.js library.');
+      }
+      window.pdfjsLib.GlobalWorkerOptions.workerSrc = `${CDN_BASE_PDF}/pdf.worker.min.js`;
+      return window.pdfjsLib;
+    })();
+  }
+
+  return window.__pdfjsLoadingPromise;
+};
+
+const loadMammoth = async () => {
+  if (typeof window === 'undefined') {
+    throw new Error('DOCX parsing is only supported in the browser.');
+  }
+
+  if (window.mammoth) {
+    return window.mammoth;
+  }
+
+  if (!window.__mammothLoadingPromise) {
+    window.__mammothLoadingPromise = (async () => {
+      await loadScript(MAMMOTH_BROWSER_SRC);
+      if (!window.mammoth) {
+        throw new Error('Failed to initialize the Mammoth library.');
+      }
+      return window.mammoth;
+    })();
+  }
+
+  return window.__mammothLoadingPromise;
+};
+
+const extractPdf = async (file: File) => {
+  const pdfjsLib = await loadPdfJs();
+  const typedArray = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data: typedArray }).promise;
+
+  try {
+    const pageTexts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items
+        .map((item: any) => (typeof item.str === 'string' ? item.str : ''))
+        .filter((segment: string) => segment.trim().length > 0)
+        .join(' ');
+      if (pageText) {
+        pageTexts.push(pageText);
+      }
+    }
+    return pageTexts.join('\n');
+  } finally {
+    if (typeof pdf.cleanup === 'function') {
+      await pdf.cleanup();
+    }
+    if (typeof pdf.destroy === 'function') {
+      await pdf.destroy();
+    }
+  }
+};
+
+const extractDocx = async (file: File) => {
+  const mammoth = await loadMammoth();
+  const arrayBuffer = await file.arrayBuffer();
+  const result = await mammoth.extractRawText({ arrayBuffer });
+  return result.value ?? '';
+};
+
+const readPlainText = async (file: File, extension: string) => {
+  const rawText = await file.text();
+  if (extension === 'rtf') {
+    return stripRtf(rawText);
+  }
+  if (extension === 'json') {
+    return importJobDescription(rawText, 'json');
+  }
+  if (extension === 'html' || extension === 'htm') {
+    return importJobDescription(rawText, 'html');
+  }
+  return rawText;
+};
+
+export const getFileExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() ?? '';
+
+/**
+ * Extracts and cleans the text of an uploaded document in the browser, throwing a user-facing error when the file type
+ * is unsupported or no readable text is found.
+ */
+export const extractTextFromFile = async (file: File) => {
+  const extension = getFileExtension(file);
+
+  if (!SUPPORTED_EXTENSIONS.has(extension)) {
+    throw new Error('Unsupported file type. Please upload a TXT, MD, RTF, PDF, DOCX, HTML, or JSON file.');
+  }
+
+  let extracted = '';
+
+  if (extension === 'pdf') {
+    extracted = await extractPdf(file);
+  } else if (extension === 'docx') {
+    extracted = await extractDocx(file);
+  } else {
+    extracted = await readPlainText(file, extension);
+  }
+
+  const cleaned = cleanExtractedText(extracted);
+
+  if (!cleaned) {
+    throw new Error('Unable to extract readable text from the selected file.');
+  }
+
+  return cleaned;
+};
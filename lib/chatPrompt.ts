@@ -0,0 +1,139 @@
+import { formatIssue, parseJsonObject, type ParseResult, type ValidationIssue } from './modelOutput';
+import { createEvidenceLocator, readCitations, type EvidenceSources } from './evidence';
+import { buildJobContextSection } from './jobDescriptionParser';
+import { buildLanguageSection } from './languageDetection';
+import type {
+  AnalysisResponse,
+  AzureOpenAIChatMessage,
+  ChatMessage,
+  ChatResponse,
+  LanguageCode,
+  SkillsMatrixResponse
+} from './types';
+
+/** Bump whenever the prompt or schema changes so cached responses are not reused across versions. */
+export const CHAT_PROMPT_VERSION = 'chat-v2';
+
+const OUTPUT_SCHEMA = `{
+  "answer": string (plain text, no markdown headings),
+  "evidence": [{ "source": "resume" | "job_description", "quote": string (copied verbatim) }] (0-3 items)
+}`;
+
+/** The analysis and skills matrix as the model sees them; free text is already redacted. */
+export interface ChatContext {
+  analysis: AnalysisResponse;
+  skillsMatrix?: SkillsMatrixResponse;
+}
+
+const formatList = (items: string[]) => (items.length ? items.map((item) => `  - ${item}`).join('\n') : '  - (none)');
+
+function describeAnalysis({ analysis, skillsMatrix }: ChatContext): string {
+  const {
+    fitScore,
+    fitSummary,
+    scoreStability,
+    scoreBreakdown,
+    keywordCoverage,
+    semanticSimilarity,
+    strengths,
+    weaknesses,
+    recommendations
+  } = analysis;
+  const lines = [`- Fit score: ${fitScore}/100`];
+  if (scoreStability) {
+    lines.push(
+      `- Ensemble: median of ${scoreStability.runs} runs (${scoreStability.scores.join(', ')}), 95% band ${scoreStability.low}-${scoreStability.high}`
+    );
+  }
+  if (fitSummary) {
+    lines.push(`- Summary: ${fitSummary}`);
+  }
+  if (scoreBreakdown) {
+    lines.push(
+      `- The fit score is the "${scoreBreakdown.templateLabel}" template's weighted average of skills matrix categories (the model's own score was ${scoreBreakdown.modelFitScore}):`,
+      ...scoreBreakdown.categories.map(
+        ({ category, weight, matchScore, contribution, missing }) =>
+          `  - ${category}: weight ${weight}, match ${matchScore}${missing ? ' (required but missing)' : ''}, contributes ${contribution} points`
+      )
+    );
+  }
+  if (keywordCoverage) {
+    lines.push(
+      `- Keyword coverage: ${keywordCoverage.score}/100; missing job terms: ${keywordCoverage.missingTerms.join(', ') || '(none)'}`
+    );
+  }
+  if (semanticSimilarity) {
+    lines.push(`- Semantic similarity of requirements to the resume: ${semanticSimilarity.score}/100`);
+  }
+  lines.push(
+    `- Strengths:\n${formatList(strengths)}`,
+    `- Gaps:\n${formatList(weaknesses)}`,
+    `- Recommendations:\n${formatList(recommendations)}`
+  );
+
+  const categories = (skillsMatrix?.categories ?? []).map(
+    ({ category, importance, jobEmphasis, matchScore, experienceEvidence, gapReason }) =>
+      `- ${category} (${importance}, job emphasis ${jobEmphasis}, match ${matchScore})${
+        experienceEvidence ? `. Evidence: ${experienceEvidence}` : ''
+      }${gapReason ? `. Gap: ${gapReason}` : ''}`
+  );
+  return `Fit analysis:\n${lines.join('\n')}\n\nSkills matrix:\n${categories.join('\n') || '- (not available)'}`;
+}
+
+/** Earlier answers are replayed in the response format, so the model keeps answering in it. */
+function formatAssistantTurn({ content, citations = [] }: ChatMessage): string {
+  return JSON.stringify({
+    answer: content,
+    evidence: citations.map(({ source, quote }) => ({ source: source === 'jobDescription' ? 'job_description' : source, quote }))
+  });
+}
+
+export function buildChatPrompt(
+  { resumeText, jobDescription }: EvidenceSources,
+  context: ChatContext,
+  messages: ChatMessage[],
+  outputLanguage?: LanguageCode
+): AzureOpenAIChatMessage[] {
+  const trimmedResume = resumeText.trim();
+  const trimmedJob = jobDescription.trim();
+
+  return [
+    {
+      role: 'system',
+      content: `You are a recruiting analyst answering follow-up questions about a completed resume-to-job fit analysis. Respond to every question ONLY with valid JSON that matches this schema:\n${OUTPUT_SCHEMA}\n\nGuidance:\n- Answer from the resume, the job description, and the analysis below. When they do not settle the question, say what is unknown and what to ask in an interview instead of guessing.\n- To explain a score, walk through the components listed in the analysis; do not invent new numbers.\n- Back statements about the candidate or the job with quotes copied exactly from the documents; quotes that cannot be found are discarded.\n- Never speculate about age, gender, ethnicity, nationality, health, religion, family status, or other protected characteristics, and do not treat them as relevant to fit.\n- Keep answers under about 150 words unless the question asks for detail.\n- Bracketed placeholders such as [CANDIDATE_NAME] stand in for redacted personal details; copy them unchanged and never guess what they hide.\n\n${describeAnalysis(
+        context
+      )}\n\nJob Description:\n"""\n${trimmedJob}\n"""${buildJobContextSection(trimmedJob)}\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""${buildLanguageSection(
+        trimmedResume,
+        trimmedJob,
+        outputLanguage
+      )}`
+    },
+    ...messages.map(
+      (message): AzureOpenAIChatMessage =>
+        message.role === 'assistant'
+          ? { role: 'assistant', content: formatAssistantTurn(message) }
+          : { role: 'user', content: message.content }
+    )
+  ];
+}
+
+/** Validates a chat completion: the answer is required; quotes that cannot be found in the documents are dropped. */
+export function parseChatResponse(content: string, sources: EvidenceSources): ParseResult<ChatResponse> {
+  const issues: ValidationIssue[] = [];
+  const data = parseJsonObject(content, issues);
+  if (!data) {
+    return { value: null, issues };
+  }
+  const answer = typeof data.answer === 'string' ? data.answer.trim() : '';
+  if (!answer) {
+    issues.push({ path: 'answer', message: 'missing or empty', fatal: true });
+    return { value: null, issues };
+  }
+
+  const citations = readCitations(data.evidence, 'evidence', issues, createEvidenceLocator(sources));
+  const value: ChatResponse = { message: { role: 'assistant', content: answer, citations } };
+  if (issues.length) {
+    value.warnings = issues.map(formatIssue);
+  }
+  return { value, issues };
+}
@@ -0,0 +1,30 @@
+/**
+ * Maps `items` through an async `worker`, keeping at most `limit` calls in flight. Results preserve input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export function resolveBatchConcurrency(): number {
+  const configured = Number(process.env.BATCH_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_BATCH_CONCURRENCY;
+}
@@ -0,0 +1,21 @@
+import { createHash } from 'crypto';
+
+function normalizeForHash(value: string): string {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Stable SHA-256 of whitespace-normalized inputs, so trivially reformatted copies of the same documents hash alike.
+ */
+export function hashContent(...parts: string[]): string {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(normalizeForHash(part));
+    hash.update('\u0000');
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,49 @@
+import type { IncomingMessage } from 'http';
+
+import { isMultipartRequest, parseMultipartForm, readJsonBody } from './multipart';
+import { extractDocument } from './serverExtraction';
+import type { AnalysisRequest, ExtractedDocument, GenerationProfileName, LanguageCode } from './types';
+
+const RESUME_FILE_FIELDS = ['resume', 'resumeFile'];
+const JOB_DESCRIPTION_FILE_FIELDS = ['jobDescription', 'jobDescriptionFile'];
+
+export interface AnalysisPayload {
+  request: AnalysisRequest;
+  documents: {
+    resume?: ExtractedDocument;
+    jobDescription?: ExtractedDocument;
+  };
+}
+
+/**
+ * Reads an analysis request sent either as JSON or as `multipart/form-data`. Multipart requests may upload the resume
+ * and/or job description as files (`resume`, `jobDescription`), which are extracted server-side and take precedence
+ * over text fields of the same name.
+ */
+export async function readAnalysisPayload(req: IncomingMessage): Promise<AnalysisPayload> {
+  if (!isMultipartRequest(req)) {
+    return { request: await readJsonBody<AnalysisRequest>(req), documents: {} };
+  }
+
+  const { fields, files } = await parseMultipartForm(req);
+  const resumeFile = files.find((file) => RESUME_FILE_FIELDS.includes(file.fieldName));
+  const jobFile = files.find((file) => JOB_DESCRIPTION_FILE_FIELDS.includes(file.fieldName));
+
+  const [resume, jobDescription] = await Promise.all([
+    resumeFile ? extractDocument(resumeFile.buffer, resumeFile.fileName) : undefined,
+    jobFile ? extractDocument(jobFile.buffer, jobFile.fileName) : undefined
+  ]);
+
+  return {
+    request: {
+      resumeText: resume?.text ?? fields.resumeText ?? '',
+      jobDescription: jobDescription?.text ?? fields.jobDescription ?? '',
+      generationProfile: (fields.generationProfile as GenerationProfileName | undefined) || undefined,
+      ensembleRuns: fields.ensembleRuns ? Number(fields.ensembleRuns) : undefined,
+      scoringTemplate: fields.scoringTemplate || undefined,
+      blindReview: fields.blindReview ? fields.blindReview === 'true' : undefined,
+      outputLanguage: (fields.outputLanguage as LanguageCode | undefined) || undefined
+    },
+    documents: { resume, jobDescription }
+  };
+}
@@ -0,0 +1,132 @@
+import type { AnalysisResponse, EvidenceCitation, ScoreStability } from './types';
+
+const NEAR_DUPLICATE_THRESHOLD = 0.6;
+const Z_95 = 1.96;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function computeScoreStability(scores: number[]): ScoreStability {
+  const mid = median(scores);
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance =
+    scores.length > 1
+      ? scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / (scores.length - 1)
+      : 0;
+  const standardDeviation = Math.sqrt(variance);
+  const margin = (Z_95 * standardDeviation) / Math.sqrt(scores.length);
+
+  return {
+    runs: scores.length,
+    scores,
+    median: round(mid),
+    mean: round(mean),
+    standardDeviation: round(standardDeviation),
+    low: Math.max(0, Math.round(mid - margin)),
+    high: Math.min(100, Math.round(mid + margin))
+  };
+}
+
+function tokenize(value: string): Set<string> {
+  return new Set(
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9+#.\s]/g, ' ')
+      .split(/\s+/)
+      .filter((token) => token.length > 2)
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) {
+      shared += 1;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Merges bullet lists from several runs, collapsing near-duplicates (token Jaccard similarity) and ordering the
+ * survivors by how many runs mentioned them, so consistently reported points come first.
+ */
+export function mergeBulletLists(lists: string[][]): string[] {
+  const clusters: Array<{ text: string; tokens: Set<string>; runs: Set<number> }> = [];
+
+  lists.forEach((items, runIndex) => {
+    for (const item of items) {
+      const tokens = tokenize(item);
+      const match = clusters.find((cluster) => similarity(cluster.tokens, tokens) >= NEAR_DUPLICATE_THRESHOLD);
+      if (match) {
+        match.runs.add(runIndex);
+      } else {
+        clusters.push({ text: item, tokens, runs: new Set([runIndex]) });
+      }
+    }
+  });
+
+  return clusters
+    .map((cluster, index) => ({ ...cluster, index }))
+    .sort((a, b) => b.runs.size - a.runs.size || a.index - b.index)
+    .map((cluster) => cluster.text);
+}
+
+/** Looks up each merged bullet's citations in the run it was taken from. */
+function citationsFor(
+  merged: string[],
+  runs: AnalysisResponse[],
+  field: 'strengths' | 'weaknesses'
+): EvidenceCitation[][] {
+  const byClaim = new Map<string, EvidenceCitation[]>();
+  runs.forEach((run) =>
+    run[field].forEach((claim, index) => {
+      if (!byClaim.has(claim)) {
+        byClaim.set(claim, run.citations?.[field][index] ?? []);
+      }
+    })
+  );
+  return merged.map((claim) => byClaim.get(claim) ?? []);
+}
+
+/**
+ * Combines ensemble runs into one response: the median fit score with its stability band, merged strengths and
+ * weaknesses, and the remaining narrative fields from the run closest to the median.
+ */
+export function aggregateEnsemble(runs: AnalysisResponse[]): AnalysisResponse {
+  if (runs.length === 1) {
+    return runs[0];
+  }
+
+  const stability = computeScoreStability(runs.map((run) => run.fitScore));
+  const representative = runs.reduce((closest, run) =>
+    Math.abs(run.fitScore - stability.median) < Math.abs(closest.fitScore - stability.median) ? run : closest
+  );
+  const warnings = runs.flatMap((run, index) => (run.warnings ?? []).map((warning) => `run ${index + 1}: ${warning}`));
+  const strengths = mergeBulletLists(runs.map((run) => run.strengths));
+  const weaknesses = mergeBulletLists(runs.map((run) => run.weaknesses));
+
+  return {
+    ...representative,
+    fitScore: Math.round(stability.median),
+    strengths,
+    weaknesses,
+    citations: {
+      strengths: citationsFor(strengths, runs, 'strengths'),
+      weaknesses: citationsFor(weaknesses, runs, 'weaknesses')
+    },
+    warnings: warnings.length ? warnings : undefined,
+    scoreStability: stability
+  };
+}
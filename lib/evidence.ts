@@ -0,0 +1,220 @@
+import type { ValidationIssue } from './modelOutput';
+import type { CitationSource, EvidenceCitation } from './types';
+
+export interface EvidenceSources {
+  resumeText: string;
+  jobDescription: string;
+}
+
+export type EvidenceLocator = (source: CitationSource, quote: string) => EvidenceCitation | null;
+
+const SOURCE_ALIASES: Record<string, CitationSource> = {
+  resume: 'resume',
+  cv: 'resume',
+  candidate: 'resume',
+  jobdescription: 'jobDescription',
+  job: 'jobDescription',
+  jd: 'jobDescription',
+  posting: 'jobDescription'
+};
+
+const SOURCE_LABELS: Record<CitationSource, string> = { resume: 'resume', jobDescription: 'job description' };
+
+const MIN_QUOTE_LENGTH = 3;
+const ELLIPSIS = /\s*(?:\.{3}|…)\s*/;
+const COMBINING_MARKS = /[\u0300-\u036f]+/;
+
+interface SearchIndex {
+  /** Lowercased, accent-folded text with quotes and dashes unified and whitespace (and bullet glyphs) collapsed. */
+  normalized: string;
+  /** Original offset of each character in `normalized`. */
+  offsets: number[];
+}
+
+function normalizeChar(char: string): string {
+  if (/[‘’‚‛′`´]/.test(char)) {
+    return "'";
+  }
+  if (/[“”„″]/.test(char)) {
+    return '"';
+  }
+  if (/[‐-―−]/.test(char)) {
+    return '-';
+  }
+  // "é" matches "e", so a quote survives the model dropping or normalizing accents differently.
+  const lower = char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+  return lower.length === 1 ? lower : char;
+}
+
+function buildIndex(text: string): SearchIndex {
+  let normalized = '';
+  const offsets: number[] = [];
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (COMBINING_MARKS.test(char)) {
+      continue;
+    }
+    if (/[\s•▪◦·]/.test(char)) {
+      if (normalized.length && !normalized.endsWith(' ')) {
+        normalized += ' ';
+        offsets.push(index);
+      }
+      continue;
+    }
+    normalized += normalizeChar(char);
+    offsets.push(index);
+  }
+  return { normalized, offsets };
+}
+
+/** Splits a model quote into the fragments around any ellipsis, normalized like the search index. */
+function quoteFragments(quote: string): string[] {
+  const unwrapped = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, '');
+  return unwrapped
+    .split(ELLIPSIS)
+    .map((fragment) => buildIndex(fragment).normalized.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Finds a quote in `index`, tolerating case, whitespace, smart quotes and ellipses between fragments. Returns the
+ * original offsets spanning every fragment, or null when any fragment is missing.
+ */
+function locate(index: SearchIndex, quote: string): { start: number; end: number } | null {
+  const fragments = quoteFragments(quote);
+  if (!fragments.length || fragments.join(' ').length < MIN_QUOTE_LENGTH) {
+    return null;
+  }
+
+  let position = index.normalized.indexOf(fragments[0]);
+  if (position < 0) {
+    return null;
+  }
+  const start = position;
+  let end = position + fragments[0].length;
+  for (const fragment of fragments.slice(1)) {
+    position = index.normalized.indexOf(fragment, end);
+    if (position < 0) {
+      return null;
+    }
+    end = position + fragment.length;
+  }
+  return { start: index.offsets[start], end: index.offsets[end - 1] + 1 };
+}
+
+/** Builds a locator for both documents; each search index is built on first use. */
+export function createEvidenceLocator({ resumeText, jobDescription }: EvidenceSources): EvidenceLocator {
+  const texts: Record<CitationSource, string> = { resume: resumeText, jobDescription };
+  const indexes: Partial<Record<CitationSource, SearchIndex>> = {};
+
+  return (source, quote) => {
+    const index = indexes[source] ?? (indexes[source] = buildIndex(texts[source]));
+    const span = locate(index, quote);
+    return span ? { source, quote: texts[source].slice(span.start, span.end), ...span } : null;
+  };
+}
+
+function normalizeSource(value: unknown): CitationSource | null {
+  return typeof value === 'string' ? SOURCE_ALIASES[value.toLowerCase().replace(/[^a-z]/g, '')] ?? null : null;
+}
+
+function truncate(value: string) {
+  return value.length > 60 ? `${value.slice(0, 57)}...` : value;
+}
+
+/**
+ * Verifies model-supplied evidence — `{ source, quote }` objects, or bare quote strings attributed to `defaultSource`
+ * — against the source documents. Quotes that cannot be found are dropped and reported, so the repair turn can ask
+ * for verbatim text.
+ */
+export function readCitations(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  locator: EvidenceLocator,
+  defaultSource: CitationSource = 'resume'
+): EvidenceCitation[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const items = Array.isArray(value) ? value : [value];
+  const citations: EvidenceCitation[] = [];
+
+  items.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    const entry = (typeof item === 'string' ? { quote: item } : item ?? {}) as Record<string, unknown>;
+    const quote = typeof entry.quote === 'string' ? entry.quote : typeof entry.text === 'string' ? entry.text : '';
+    const source = entry.source === undefined ? defaultSource : normalizeSource(entry.source);
+
+    if (!source) {
+      issues.push({
+        path: `${itemPath}.source`,
+        message: `expected "resume" or "job_description", got ${JSON.stringify(entry.source)}; dropped`,
+        fatal: false
+      });
+      return;
+    }
+    if (!quote.trim()) {
+      issues.push({ path: `${itemPath}.quote`, message: 'missing; dropped', fatal: false });
+      return;
+    }
+
+    const citation = locator(source, quote);
+    if (!citation) {
+      issues.push({
+        path: itemPath,
+        message: `quote "${truncate(quote.trim())}" not found verbatim in the ${SOURCE_LABELS[source]}; dropped`,
+        fatal: false
+      });
+    } else if (!citations.some((existing) => existing.source === source && existing.start === citation.start)) {
+      citations.push(citation);
+    }
+  });
+
+  return citations;
+}
+
+/**
+ * Reads a list of claims given as `{ claim, evidence }` objects (or plain strings from older prompts) into the claim
+ * texts and their verified citations, index-aligned. Claims without any evidence are reported.
+ */
+export function readCitedClaims(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  locator: EvidenceLocator,
+  { minItems = 0 }: { minItems?: number } = {}
+): { claims: string[]; citations: EvidenceCitation[][] } {
+  if (value === undefined || value === null) {
+    issues.push({ path, message: 'missing; defaulted to an empty list', fatal: false });
+    return { claims: [], citations: [] };
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array of claim objects, got ${typeof value}; defaulted to an empty list`, fatal: false });
+    return { claims: [], citations: [] };
+  }
+
+  const claims: string[] = [];
+  const citations: EvidenceCitation[][] = [];
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    const entry = (typeof item === 'string' ? { claim: item } : item ?? {}) as Record<string, unknown>;
+    const claim = typeof entry.claim === 'string' ? entry.claim.trim() : typeof entry.text === 'string' ? entry.text.trim() : '';
+    if (!claim) {
+      issues.push({ path: `${itemPath}.claim`, message: 'missing or empty; dropped', fatal: false });
+      return;
+    }
+
+    const evidence = entry.evidence ?? entry.citations;
+    if (evidence === undefined || (Array.isArray(evidence) && !evidence.length)) {
+      issues.push({ path: `${itemPath}.evidence`, message: 'missing; cite at least one verbatim quote', fatal: false });
+    }
+    claims.push(claim);
+    citations.push(readCitations(evidence, `${itemPath}.evidence`, issues, locator));
+  });
+
+  if (claims.length < minItems) {
+    issues.push({ path, message: `expected at least ${minItems} items, got ${claims.length}`, fatal: false });
+  }
+  return { claims, citations };
+}
@@ -0,0 +1,82 @@
+import { LANGUAGE_NAMES, isLanguageCode } from './languageDetection';
+import { getScoringTemplate, listScoringTemplates } from './scoringTemplates';
+import type { AnalysisOptions, GenerationProfileName, GenerationSettings } from './types';
+
+export const GENERATION_PROFILES: Record<GenerationProfileName, GenerationSettings> = {
+  default: { temperature: 1 },
+  balanced: { temperature: 0.4, topP: 0.9, seed: 7 },
+  deterministic: { temperature: 0, topP: 1, seed: 7 }
+};
+
+export const MAX_ENSEMBLE_RUNS = 9;
+
+export function isGenerationProfileName(value: unknown): value is GenerationProfileName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GENERATION_PROFILES, value);
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Resolves sampling settings: the requested profile, else `LLM_GENERATION_PROFILE`, else `default`. The
+ * `LLM_TEMPERATURE`, `LLM_TOP_P` and `LLM_SEED` variables override individual values of the server default profile.
+ */
+export function resolveGenerationSettings(profile?: GenerationProfileName): GenerationSettings {
+  if (profile) {
+    return GENERATION_PROFILES[profile];
+  }
+
+  const configured = process.env.LLM_GENERATION_PROFILE;
+  const base = GENERATION_PROFILES[isGenerationProfileName(configured) ? configured : 'default'];
+  const temperature = readNumberEnv('LLM_TEMPERATURE');
+  const topP = readNumberEnv('LLM_TOP_P');
+  const seed = readNumberEnv('LLM_SEED');
+
+  return {
+    temperature: temperature ?? base.temperature,
+    topP: topP ?? base.topP,
+    seed: seed !== undefined ? Math.round(seed) : base.seed
+  };
+}
+
+export function normalizeEnsembleRuns(value: unknown): number {
+  const runs = Math.round(Number(value));
+  return Number.isFinite(runs) && runs > 1 ? Math.min(runs, MAX_ENSEMBLE_RUNS) : 1;
+}
+
+/** Serializes settings for cache keys so different sampling configurations never share cached results. */
+export function describeGeneration(settings: GenerationSettings, ensembleRuns: number): string {
+  return `t=${settings.temperature};p=${settings.topP ?? ''};s=${settings.seed ?? ''};k=${ensembleRuns}`;
+}
+
+export function validateAnalysisOptions({
+  generationProfile,
+  ensembleRuns,
+  scoringTemplate,
+  blindReview,
+  outputLanguage
+}: AnalysisOptions): string | null {
+  if (generationProfile !== undefined && !isGenerationProfileName(generationProfile)) {
+    return `Unknown generation profile "${generationProfile}". Expected one of: ${Object.keys(GENERATION_PROFILES).join(', ')}.`;
+  }
+  if (ensembleRuns !== undefined && (!Number.isInteger(ensembleRuns) || ensembleRuns < 1 || ensembleRuns > MAX_ENSEMBLE_RUNS)) {
+    return `Ensemble runs must be a whole number between 1 and ${MAX_ENSEMBLE_RUNS}.`;
+  }
+  if (scoringTemplate !== undefined && !getScoringTemplate(scoringTemplate)) {
+    const ids = listScoringTemplates().map((template) => template.id);
+    return `Unknown scoring template "${scoringTemplate}". Expected one of: ${ids.join(', ')}.`;
+  }
+  if (blindReview !== undefined && typeof blindReview !== 'boolean') {
+    return 'Blind review must be true or false.';
+  }
+  if (outputLanguage !== undefined && !isLanguageCode(outputLanguage)) {
+    return `Unknown output language "${outputLanguage}". Expected one of: ${Object.keys(LANGUAGE_NAMES).join(', ')}.`;
+  }
+  return null;
+}
@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { hashContent } from './contentHash';
+import { PayloadError } from './requestErrors';
+import type { AnalysisRequest, HistoryKind, HistoryRecord, HistorySummary } from './types';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type HistoryEntry = DistributiveOmit<HistoryRecord, 'id' | 'createdAt' | 'contentHash'>;
+
+export type AnalysisHistoryRecord = Extract<HistoryRecord, { kind: 'analysis' }>;
+
+export type SkillsMatrixHistoryRecord = Extract<HistoryRecord, { kind: 'skills-matrix' }>;
+
+const DEFAULT_HISTORY_DIR = 'data/history';
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+const PREVIEW_LENGTH = 120;
+
+/** Tail of the pending updates per record id, so read-modify-write cycles on one record run one after another. */
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+function historyDir(): string {
+  return path.resolve(process.cwd(), process.env.HISTORY_DIR ?? DEFAULT_HISTORY_DIR);
+}
+
+function recordPath(id: string): string | null {
+  return ID_PATTERN.test(id) ? path.join(historyDir(), `${id}.json`) : null;
+}
+
+function preview(text: string): string {
+  const firstLine = text.trim().split('\n').find((line) => line.trim()) ?? '';
+  return firstLine.length > PREVIEW_LENGTH ? `${firstLine.slice(0, PREVIEW_LENGTH - 1)}…` : firstLine;
+}
+
+async function writeRecord(record: HistoryRecord): Promise<void> {
+  const filePath = recordPath(record.id)!;
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+export async function saveHistoryRecord(entry: HistoryEntry): Promise<HistoryRecord> {
+  const record = {
+    ...entry,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    contentHash: hashContent(entry.request.resumeText, entry.request.jobDescription),
+    request: { ...entry.request }
+  } as HistoryRecord;
+
+  await writeRecord(record);
+  return record;
+}
+
+/**
+ * Saves a completed result without letting storage failures break the API response. Returns the record id, if saved.
+ */
+export async function recordHistory(entry: HistoryEntry): Promise<string | undefined> {
+  try {
+    const record = await saveHistoryRecord(entry);
+    return record.id;
+  } catch (error) {
+    console.error('Failed to save analysis history', error);
+    return undefined;
+  }
+}
+
+export async function getHistoryRecord(id: string): Promise<HistoryRecord | null> {
+  const filePath = recordPath(id);
+  if (!filePath) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as HistoryRecord;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies `update` to a saved record and writes it back. Updates to the same record are queued, so concurrent saves
+ * (a chat turn and an interview scorecard, say) each see the other's changes. Returns the updated record, or null if
+ * there is none.
+ */
+export async function updateHistoryRecord(
+  id: string,
+  update: (record: HistoryRecord) => HistoryRecord
+): Promise<HistoryRecord | null> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const record = await getHistoryRecord(id);
+      if (!record) {
+        return null;
+      }
+      const updated = update(record);
+      await writeRecord(updated);
+      return updated;
+    });
+  pendingUpdates.set(id, next);
+
+  try {
+    return await next;
+  } finally {
+    if (pendingUpdates.get(id) === next) {
+      pendingUpdates.delete(id);
+    }
+  }
+}
+
+/**
+ * The analysis record `id`, checked against the documents and blind review setting of a request that wants to store
+ * something with it, so nothing derived from other inputs (or revealing what a blind record hides) is attached.
+ */
+export async function getMatchingAnalysisRecord(
+  id: string,
+  { resumeText, jobDescription, blindReview }: AnalysisRequest
+): Promise<AnalysisHistoryRecord> {
+  const record = await getHistoryRecord(id);
+  if (!record || record.kind !== 'analysis') {
+    throw new PayloadError('Analysis history record not found.', 404);
+  }
+  if (record.contentHash !== hashContent(resumeText, jobDescription) || !record.request.blindReview !== !blindReview) {
+    throw new PayloadError('This analysis was saved for different documents or review settings.', 409);
+  }
+  return record;
+}
+
+/**
+ * Fills in the resume of a request that refers to analysis record `id` instead of sending it, as the history page does
+ * for blind review records, whose original resume never reaches the browser. The review setting must match the record.
+ */
+export async function withStoredResume<T extends AnalysisRequest>(id: string | undefined, request: T): Promise<T> {
+  if (request.resumeText?.trim() || !id) {
+    return request;
+  }
+  const record = await getHistoryRecord(id);
+  if (!record || record.kind !== 'analysis') {
+    throw new PayloadError('Analysis history record not found.', 404);
+  }
+  if (!record.request.blindReview !== !request.blindReview) {
+    throw new PayloadError('This analysis was saved for different documents or review settings.', 409);
+  }
+  return { ...request, resumeText: record.request.resumeText };
+}
+
+/**
+ * The newest skills matrix saved for the same documents as analysis `record`, with the same blind review setting,
+ * scoring template and output language. A matrix from another review mode would reveal (or hide) what the analysis
+ * does not, and one from another template is not the matrix the fit score was aggregated from.
+ */
+export async function findMatchingSkillsMatrix(record: AnalysisHistoryRecord): Promise<SkillsMatrixHistoryRecord | null> {
+  const matrices = await listHistoryRecords({ kind: 'skills-matrix', contentHash: record.contentHash });
+  const match = matrices.find(
+    (candidate): candidate is SkillsMatrixHistoryRecord =>
+      candidate.kind === 'skills-matrix' &&
+      !candidate.request.blindReview === !record.request.blindReview &&
+      (candidate.request.scoringTemplate ?? null) === (record.request.scoringTemplate ?? null) &&
+      (candidate.request.outputLanguage ?? null) === (record.request.outputLanguage ?? null)
+  );
+  return match ?? null;
+}
+
+/** A record as sent to the browser: blind review records carry the redacted resume in place of the original. */
+export function presentHistoryRecord(record: HistoryRecord): HistoryRecord {
+  if (!record.request.blindReview) {
+    return record;
+  }
+  return {
+    ...record,
+    request: { ...record.request, resumeText: record.response.redactedDocuments?.resumeText ?? '' }
+  } as HistoryRecord;
+}
+
+export async function deleteHistoryRecord(id: string): Promise<boolean> {
+  const filePath = recordPath(id);
+  if (!filePath) {
+    return false;
+  }
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function listHistoryRecords(filter: { kind?: HistoryKind; contentHash?: string } = {}): Promise<HistoryRecord[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(historyDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const records = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) =>
+        getHistoryRecord(fileName.replace(/\.json$/, '')).catch((error: unknown) => {
+          // One unreadable file (corrupt, or half-written by an older build) should not hide the rest of the history.
+          console.error(`Skipping unreadable history record ${fileName}`, error);
+          return null;
+        })
+      )
+  );
+
+  return records
+    .filter((record): record is HistoryRecord => record !== null)
+    .filter((record) => !filter.kind || record.kind === filter.kind)
+    .filter((record) => !filter.contentHash || record.contentHash === filter.contentHash)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function summarizeHistoryRecord(record: HistoryRecord): HistorySummary {
+  return {
+    id: record.id,
+    kind: record.kind,
+    createdAt: record.createdAt,
+    contentHash: record.contentHash,
+    jobPreview: preview(record.request.jobDescription),
+    resumePreview: preview(record.response.redactedDocuments?.resumeText ?? record.request.resumeText),
+    fitScore: record.kind === 'analysis' ? record.response.fitScore : undefined,
+    interviewScore: record.kind === 'analysis' ? record.interview?.scorecard?.interviewScore ?? undefined : undefined
+  };
+}
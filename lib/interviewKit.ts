@@ -0,0 +1,205 @@
+import { generateSkillsMatrix } from './analysisService';
+import { hashContent } from './contentHash';
+import { describeGeneration, resolveGenerationSettings } from './generation';
+import { getMatchingAnalysisRecord, updateHistoryRecord } from './historyStore';
+import {
+  INTERVIEW_KIT_PROMPT_VERSION,
+  buildInterviewKitPrompt,
+  parseInterviewKitResponse,
+  type InterviewKitMaterial
+} from './interviewKitPrompt';
+import { completeWithRepair } from './modelOutput';
+import { describeLanguage } from './languageDetection';
+import { getActiveModel } from './openai';
+import { describeRedaction, prepareRedaction, redactText } from './redaction';
+import { PayloadError } from './requestErrors';
+import { buildCacheKey, withResponseCache } from './responseCache';
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  InterviewKit,
+  InterviewKitRequest,
+  InterviewScore,
+  InterviewScorecard,
+  RedactionEntity,
+  SkillsMatrixResponse,
+  StoredInterview
+} from './types';
+
+export const DEFAULT_INTERVIEW_MINUTES = 60;
+
+/** Only the most emphasized skills matrix categories are offered, so the kit fits in one interview. */
+const MAX_KIT_CATEGORIES = 8;
+
+export function collectInterviewKitMaterial(
+  analysis: AnalysisResponse,
+  skillsMatrix: SkillsMatrixResponse | undefined
+): InterviewKitMaterial {
+  const categories = (skillsMatrix?.categories ?? [])
+    .slice()
+    .sort((a, b) => b.jobEmphasis - a.jobEmphasis)
+    .slice(0, MAX_KIT_CATEGORIES)
+    .map((entry) => ({
+      name: entry.category,
+      importance: entry.importance,
+      matchScore: entry.matchScore,
+      gapReason: entry.gapReason,
+      evidence: entry.experienceEvidence
+    }));
+  return { categories, gaps: analysis.weaknesses, seedQuestions: analysis.recruiterQuestions };
+}
+
+function redactMaterial({ categories, gaps, seedQuestions }: InterviewKitMaterial, entities: RedactionEntity[]) {
+  const redact = (text: string) => redactText(text, entities);
+  return {
+    categories: categories.map((category) => ({
+      ...category,
+      name: redact(category.name),
+      gapReason: category.gapReason && redact(category.gapReason),
+      evidence: category.evidence && redact(category.evidence)
+    })),
+    gaps: gaps.map(redact),
+    seedQuestions: seedQuestions.map(redact)
+  };
+}
+
+/** The skills matrix for the same inputs, usually served from the cache; kits are still built from gaps without one. */
+async function loadSkillsMatrix(request: AnalysisRequest): Promise<SkillsMatrixResponse | undefined> {
+  try {
+    const { value } = await generateSkillsMatrix(request, { saveHistory: false });
+    return value;
+  } catch (error) {
+    console.error('Skills matrix unavailable for interview kit', error);
+    return undefined;
+  }
+}
+
+/**
+ * Builds a structured interview kit: questions grouped by skills matrix category and analysis gap, each with strong
+ * and weak answer guidance, a 1-5 rubric, a suggested interviewer and a time allocation.
+ */
+export async function generateInterviewKit(
+  { analysis, skillsMatrix, durationMinutes = DEFAULT_INTERVIEW_MINUTES, ...request }: Omit<InterviewKitRequest, 'historyId'>,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<InterviewKit> {
+  const material = collectInterviewKitMaterial(analysis, skillsMatrix ?? (await loadSkillsMatrix(request)));
+  const generation = resolveGenerationSettings(request.generationProfile);
+  const cacheKey = buildCacheKey({
+    namespace: 'interview-kit',
+    promptVersion: INTERVIEW_KIT_PROMPT_VERSION,
+    model: getActiveModel(),
+    resumeText: request.resumeText,
+    jobDescription: request.jobDescription,
+    variant: [
+      describeGeneration(generation, 1),
+      describeRedaction(request),
+      describeLanguage(request.outputLanguage),
+      `minutes=${durationMinutes}`,
+      `material=${hashContent(JSON.stringify(material))}`
+    ].join('|')
+  });
+
+  const { value } = await withResponseCache(cacheKey, refresh, async () => {
+    const redaction = prepareRedaction(request);
+    const { redacted } = redaction;
+    // Outside blind review the analysis has personal details restored; the model must not see them.
+    const messages = buildInterviewKitPrompt(
+      redacted,
+      redactMaterial(material, redacted.entities),
+      durationMinutes,
+      request.outputLanguage
+    );
+    const { value: kit } = await completeWithRepair(
+      messages,
+      (content) => parseInterviewKitResponse(redaction.revealCompletion(content), material, durationMinutes),
+      { generation }
+    );
+    return redaction.blind
+      ? { ...kit, redactedDocuments: { resumeText: redacted.resumeText, jobDescription: request.jobDescription } }
+      : kit;
+  });
+  return value;
+}
+
+/** Stores a kit on the analysis history record it was built for, replacing any earlier kit and its scores. */
+export async function saveInterviewKit(
+  historyId: string,
+  request: AnalysisRequest,
+  kit: InterviewKit
+): Promise<StoredInterview> {
+  await getMatchingAnalysisRecord(historyId, request);
+  const interview: StoredInterview = { kit };
+  await updateHistoryRecord(historyId, (current) => (current.kind === 'analysis' ? { ...current, interview } : current));
+  return interview;
+}
+
+/** Converts a 1-5 rubric average to the 0-100 scale used by fit scores. */
+const toPercent = (average: number) => Math.round(((average - 1) / 4) * 100);
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Rolls per-question scores up into section averages and a 0-100 interview score. Sections are weighted by the
+ * minutes allotted to them, so the score leans on the areas the kit spends the most time on; unscored sections are
+ * left out rather than counted as zero.
+ */
+export function scoreInterview(kit: InterviewKit, scores: InterviewScore[], updatedAt = new Date().toISOString()): InterviewScorecard {
+  let weightedTotal = 0;
+  let totalWeight = 0;
+  const sections = kit.sections.map((section) => {
+    const scored = section.questions
+      .map((question) => scores.find((score) => score.questionId === question.id))
+      .filter((score): score is InterviewScore => score !== undefined);
+    const average = scored.length ? scored.reduce((sum, score) => sum + score.score, 0) / scored.length : null;
+    if (average !== null) {
+      const weight = section.questions.reduce((sum, question) => sum + question.minutes, 0);
+      weightedTotal += weight * toPercent(average);
+      totalWeight += weight;
+    }
+    return {
+      sectionId: section.id,
+      average: average === null ? null : round1(average),
+      scored: scored.length,
+      total: section.questions.length
+    };
+  });
+
+  return {
+    scores,
+    sections,
+    interviewScore: totalWeight > 0 ? Math.round(weightedTotal / totalWeight) : null,
+    updatedAt
+  };
+}
+
+/**
+ * Records interviewer scores against the kit stored on an analysis history record, replacing earlier scores. The kit
+ * is read inside the update, so scores are never saved against a kit that a concurrent save has just replaced.
+ */
+export async function saveInterviewScores(historyId: string, scores: InterviewScore[]): Promise<StoredInterview> {
+  let interview: StoredInterview | undefined;
+  const updated = await updateHistoryRecord(historyId, (current) => {
+    if (current.kind !== 'analysis') {
+      throw new PayloadError('Analysis history record not found.', 404);
+    }
+    if (!current.interview) {
+      throw new PayloadError('No interview kit is stored with this analysis yet.', 409);
+    }
+
+    const questionIds = current.interview.kit.sections.reduce<string[]>(
+      (ids, section) => ids.concat(section.questions.map((question) => question.id)),
+      []
+    );
+    const unknown = scores.filter((score) => !questionIds.includes(score.questionId));
+    if (unknown.length) {
+      throw new PayloadError(`Unknown question IDs: ${unknown.map((score) => score.questionId).join(', ')}.`);
+    }
+
+    interview = { kit: current.interview.kit, scorecard: scoreInterview(current.interview.kit, scores) };
+    return { ...current, interview };
+  });
+  if (!updated || !interview) {
+    throw new PayloadError('Analysis history record not found.', 404);
+  }
+  return interview;
+}
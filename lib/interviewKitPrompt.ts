@@ -0,0 +1,258 @@
+import { formatIssue, parseJsonObject, type ParseResult, type ValidationIssue } from './modelOutput';
+import type { EvidenceSources } from './evidence';
+import { buildJobContextSection } from './jobDescriptionParser';
+import { buildLanguageSection } from './languageDetection';
+import type {
+  AzureOpenAIChatMessage,
+  InterviewKit,
+  InterviewQuestion,
+  InterviewSection,
+  InterviewerRole,
+  LanguageCode,
+  SkillImportance
+} from './types';
+
+/** Bump whenever the prompt or schema changes so cached responses are not reused across versions. */
+export const INTERVIEW_KIT_PROMPT_VERSION = 'interview-kit-v2';
+
+export const INTERVIEWER_ROLES: InterviewerRole[] = ['recruiter', 'hiring-manager', 'technical-interviewer', 'team-member'];
+
+export const RUBRIC_LEVELS = 5;
+
+/** Kits whose time allocations add up to more than this far from the requested duration are sent back. */
+const DURATION_TOLERANCE = 0.25;
+const MAX_QUESTION_MINUTES = 60;
+const DEFAULT_QUESTION_MINUTES = 5;
+
+const OUTPUT_SCHEMA = `{
+  "sections": [
+    {
+      "focus": string (one ID from the lists below, e.g. "C1" or "G2"),
+      "questions": [
+        {
+          "question": string,
+          "strong_answer": string (what a strong answer covers),
+          "weak_answer": string (warning signs in a weak answer),
+          "rubric": string[] (exactly 5 entries: what earns a 1, 2, 3, 4 and 5),
+          "interviewer": "recruiter" | "hiring_manager" | "technical_interviewer" | "team_member",
+          "minutes": integer
+        }
+      ] (1-3 items)
+    }
+  ]
+}`;
+
+const INTERVIEWER_ALIASES: Record<string, InterviewerRole> = {
+  recruiter: 'recruiter',
+  talentacquisition: 'recruiter',
+  hiringmanager: 'hiring-manager',
+  manager: 'hiring-manager',
+  technicalinterviewer: 'technical-interviewer',
+  technical: 'technical-interviewer',
+  engineer: 'technical-interviewer',
+  teammember: 'team-member',
+  team: 'team-member',
+  peer: 'team-member'
+};
+
+/** What the kit is built from: skills matrix categories (`C1`, …) and analysis gaps (`G1`, …). */
+export interface InterviewKitMaterial {
+  categories: Array<{ name: string; importance: SkillImportance; matchScore: number; gapReason?: string; evidence?: string }>;
+  gaps: string[];
+  /** The analysis's recruiter questions, offered as a starting point. */
+  seedQuestions: string[];
+}
+
+function buildMaterialSection({ categories, gaps, seedQuestions }: InterviewKitMaterial): string {
+  const categoryLines = categories.map(
+    ({ name, importance, matchScore, gapReason, evidence }, index) =>
+      `- C${index + 1}: ${name} (${importance}, match ${matchScore}/100)${evidence ? `. Evidence: ${evidence}` : ''}${
+        gapReason ? `. Gap: ${gapReason}` : ''
+      }`
+  );
+  const gapLines = gaps.map((gap, index) => `- G${index + 1}: ${gap}`);
+  const seedLines = seedQuestions.map((question) => `- ${question}`);
+  return `\n\nSkills matrix categories:\n${categoryLines.join('\n') || '- (none)'}\n\nGaps from the fit analysis:\n${
+    gapLines.join('\n') || '- (none)'
+  }\n\nQuestions already suggested by the analysis:\n${seedLines.join('\n') || '- (none)'}`;
+}
+
+export function buildInterviewKitPrompt(
+  { resumeText, jobDescription }: EvidenceSources,
+  material: InterviewKitMaterial,
+  durationMinutes: number,
+  outputLanguage?: LanguageCode
+): AzureOpenAIChatMessage[] {
+  const trimmedResume = resumeText.trim();
+  const trimmedJob = jobDescription.trim();
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are an experienced hiring manager designing structured, fair interviews. Respond ONLY with valid JSON that matches the provided schema. Ask only about job-relevant skills and experience; never about age, family, health, religion, nationality, or other protected characteristics.'
+    },
+    {
+      role: 'user',
+      content: `Design a structured interview kit for this candidate and job. Return a JSON object that follows this schema:\n${OUTPUT_SCHEMA}\n\nGuidance:\n- Create one section per focus: every gap (G…) needs a section that probes whether the gap is real, and the most important skills matrix categories (C…) need sections that verify the claimed experience. Use each ID at most once.\n- Prefer behavioral and situational questions that ask for specific past examples; build on the questions already suggested where they fit.\n- The rubric describes observable answer qualities for each score from 1 (no evidence of the skill) to 5 (clear, senior-level evidence), so different interviewers score consistently.\n- Assign each question to the interviewer best placed to judge the answer, and allocate minutes so the whole kit takes about ${durationMinutes} minutes, spending more time on must-have skills and the largest gaps.\n- Bracketed placeholders such as [CANDIDATE_NAME] stand in for redacted personal details; copy them unchanged and never guess what they hide.${buildMaterialSection(
+        material
+      )}\n\nJob Description:\n"""\n${trimmedJob}\n"""${buildJobContextSection(trimmedJob)}\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""${buildLanguageSection(
+        trimmedResume,
+        trimmedJob,
+        outputLanguage
+      )}`
+    }
+  ];
+}
+
+function normalizeString(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeInterviewer(value: unknown, path: string, issues: ValidationIssue[]): InterviewerRole {
+  const role = typeof value === 'string' ? INTERVIEWER_ALIASES[value.toLowerCase().replace(/[^a-z]/g, '')] : undefined;
+  if (!role) {
+    issues.push({ path, message: `unknown interviewer ${JSON.stringify(value)}; defaulted to "hiring_manager"`, fatal: false });
+    return 'hiring-manager';
+  }
+  return role;
+}
+
+function normalizeMinutes(value: unknown, path: string, issues: ValidationIssue[]): number {
+  const minutes = typeof value === 'string' ? Number(value) : value;
+  if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0) {
+    issues.push({ path, message: `expected a positive number of minutes; defaulted to ${DEFAULT_QUESTION_MINUTES}`, fatal: false });
+    return DEFAULT_QUESTION_MINUTES;
+  }
+  return Math.min(MAX_QUESTION_MINUTES, Math.max(1, Math.round(minutes)));
+}
+
+function readQuestion(raw: unknown, path: string, issues: ValidationIssue[]): Omit<InterviewQuestion, 'id'> | null {
+  const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const question = normalizeString(entry.question);
+  if (!question) {
+    issues.push({ path: `${path}.question`, message: 'missing or empty; dropped', fatal: false });
+    return null;
+  }
+  const rubric = Array.isArray(entry.rubric) ? entry.rubric.map(normalizeString) : [];
+  if (rubric.length !== RUBRIC_LEVELS || rubric.some((level) => level === null)) {
+    issues.push({
+      path: `${path}.rubric`,
+      message: `expected ${RUBRIC_LEVELS} non-empty score descriptions; question dropped`,
+      fatal: false
+    });
+    return null;
+  }
+
+  const readAnswer = (key: string) => {
+    const answer = normalizeString(entry[key]);
+    if (!answer) {
+      issues.push({ path: `${path}.${key}`, message: 'missing; defaulted to an empty string', fatal: false });
+    }
+    return answer ?? '';
+  };
+
+  return {
+    question,
+    strongAnswer: readAnswer('strong_answer'),
+    weakAnswer: readAnswer('weak_answer'),
+    rubric: rubric as string[],
+    interviewer: normalizeInterviewer(entry.interviewer, `${path}.interviewer`, issues),
+    minutes: normalizeMinutes(entry.minutes, `${path}.minutes`, issues)
+  };
+}
+
+/**
+ * Validates an interview kit completion. Sections must reference a category or gap by ID (titles come from the
+ * material, not the model); questions need a full five-level rubric. Uncovered gaps and a total time far from the
+ * requested duration are reported so a repair turn can fix them.
+ */
+export function parseInterviewKitResponse(
+  content: string,
+  material: InterviewKitMaterial,
+  durationMinutes: number
+): ParseResult<InterviewKit> {
+  const issues: ValidationIssue[] = [];
+  const data = parseJsonObject(content, issues);
+  if (!data) {
+    return { value: null, issues };
+  }
+  if (!Array.isArray(data.sections)) {
+    issues.push({ path: 'sections', message: 'expected an array of sections', fatal: true });
+    return { value: null, issues };
+  }
+
+  const focusTitles: Record<string, { kind: InterviewSection['kind']; title: string }> = {};
+  material.categories.forEach(({ name }, index) => {
+    focusTitles[`C${index + 1}`] = { kind: 'skill', title: name };
+  });
+  material.gaps.forEach((gap, index) => {
+    focusTitles[`G${index + 1}`] = { kind: 'gap', title: gap };
+  });
+
+  const sections: InterviewSection[] = [];
+  const seenFocus: string[] = [];
+  let questionCount = 0;
+  data.sections.forEach((raw, sectionIndex) => {
+    const path = `sections[${sectionIndex}]`;
+    const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const focusId = typeof entry.focus === 'string' ? entry.focus.trim().toUpperCase() : '';
+    const focus = focusTitles[focusId];
+    if (!focus) {
+      issues.push({ path: `${path}.focus`, message: `unknown focus ${JSON.stringify(entry.focus)}; section dropped`, fatal: false });
+      return;
+    }
+    if (seenFocus.includes(focusId)) {
+      issues.push({ path: `${path}.focus`, message: `${focusId} is already covered; section dropped`, fatal: false });
+      return;
+    }
+    if (!Array.isArray(entry.questions)) {
+      issues.push({ path: `${path}.questions`, message: 'expected an array of questions; section dropped', fatal: false });
+      return;
+    }
+
+    const questions = entry.questions
+      .map((question, questionIndex) => readQuestion(question, `${path}.questions[${questionIndex}]`, issues))
+      .filter((question): question is Omit<InterviewQuestion, 'id'> => question !== null)
+      .map((question) => ({ id: `Q${++questionCount}`, ...question }));
+    if (!questions.length) {
+      issues.push({ path: `${path}.questions`, message: 'no usable questions; section dropped', fatal: false });
+      return;
+    }
+    seenFocus.push(focusId);
+    sections.push({ id: `S${sections.length + 1}`, ...focus, questions });
+  });
+
+  if (!sections.length) {
+    issues.push({ path: 'sections', message: 'no usable sections', fatal: true });
+    return { value: null, issues };
+  }
+
+  material.gaps.forEach((_, index) => {
+    if (!seenFocus.includes(`G${index + 1}`)) {
+      issues.push({ path: 'sections', message: `gap G${index + 1} has no questions`, fatal: false });
+    }
+  });
+
+  const totalMinutes = sections.reduce(
+    (sum, section) => sum + section.questions.reduce((sectionSum, question) => sectionSum + question.minutes, 0),
+    0
+  );
+  if (Math.abs(totalMinutes - durationMinutes) > durationMinutes * DURATION_TOLERANCE) {
+    issues.push({
+      path: 'sections',
+      message: `questions take ${totalMinutes} minutes in total; allocate about ${durationMinutes}`,
+      fatal: false
+    });
+  }
+
+  const value: InterviewKit = { sections, durationMinutes, totalMinutes };
+  if (issues.length) {
+    value.warnings = issues.map(formatIssue);
+  }
+  return { value, issues };
+}
@@ -0,0 +1,336 @@
+import { cleanExtractedText, foldDiacritics } from './textCleanup';
+import type {
+  JobRequirement,
+  JobSeniority,
+  ParsedJobDescription,
+  RemotePolicy,
+  RequirementKind,
+  RequirementPriority
+} from './types';
+
+type SectionKind = 'must-have' | 'nice-to-have' | 'responsibilities' | 'other';
+
+/** Whole-line headings, matched after lowercasing, folding accents and stripping punctuation. */
+const HEADINGS: Array<{ kind: SectionKind; pattern: RegExp }> = [
+  {
+    kind: 'nice-to-have',
+    pattern:
+      /^(?:(?:preferred|desired|desirable|bonus|additional|optional)(?: qualifications| skills| experience| requirements)?|nice to haves?|pluses|bonus points|good to have|extra credit|its a plus if you have)$/
+  },
+  {
+    kind: 'responsibilities',
+    pattern:
+      /^(?:(?:key |main |core |your )?responsibilities|what youll do|what you will do|the role|the job|duties|your impact|day to day|in this role youll|what you will be doing)$/
+  },
+  {
+    kind: 'must-have',
+    pattern:
+      /^(?:(?:minimum|basic|key|required|essential|technical|core)?\s*(?:qualifications|requirements|skills|skills and experience)|required|must haves?|what you need|what youll need|what we are looking for|what were looking for|what you bring|you have|who you are|about you|experience|experience requirements|education|education requirements)$/
+  },
+  {
+    kind: 'other',
+    pattern:
+      /^(?:description|job description|about us|about the company|about the team|who we are|benefits|perks|perks and benefits|what we offer|compensation|salary|how to apply|why join us|equal opportunity)$/
+  },
+  // French, German, Spanish, Portuguese, Italian and Dutch headings, accents folded like `normalizeHeading` does.
+  {
+    kind: 'nice-to-have',
+    pattern:
+      /^(?:(?:competences|qualifications|connaissances) (?:appreciees|souhaitees|souhaitables|supplementaires)|atouts?|(?:ce )?serait un plus|les plus|wunschenswert|von vorteil|pluspunkte|(?:wunschenswerte|zusatzliche) (?:kenntnisse|qualifikationen|fahigkeiten)|(?:requisitos|conocimientos|competencias|habilidades) (?:deseables|valorables|opcionales)|se valorara|valorable|deseable|(?:requisitos|conhecimentos|competencias) (?:desejaveis|diferenciais)|diferenciais|desejavel|(?:requisiti|competenze|conoscenze) (?:preferenziali|graditi|gradite|opzionali)|titolo preferenziale|costituisce titolo preferenziale|pre|pluspunten|(?:gewenste|extra) (?:kwalificaties|vaardigheden|ervaring)|mooi meegenomen)$/
+  },
+  {
+    kind: 'responsibilities',
+    pattern:
+      /^(?:(?:vos |principales )?missions|(?:vos |principales )?responsabilites|le poste|ce que vous ferez|votre role|au quotidien|(?:ihre |deine )?aufgaben|ihr aufgabengebiet|dein aufgabengebiet|was dich erwartet|was sie erwartet|deine rolle|ihre rolle|(?:principales |tus |sus )?responsabilidades|(?:tus |sus )?funciones|que haras|el puesto|tu rol|(?:principais |suas )?atividades|atribuicoes|o que voce vai fazer|a vaga|(?:principali )?responsabilita|mansioni|cosa farai|il ruolo|(?:le tue )?attivita|verantwoordelijkheden|taken|jouw taken|wat ga je doen|jouw rol|de functie)$/
+  },
+  {
+    kind: 'must-have',
+    pattern:
+      /^(?:(?:votre )?profil(?: recherche)?|competences(?: requises| techniques| cles| clefs)?|qualifications(?: requises)?|prerequis|exigences|formation|experience(?: requise)?|ce que nous recherchons|ce que vous apportez|anforderungen|anforderungsprofil|(?:ihr |dein )?profil|qualifikationen|voraussetzungen|kenntnisse|was du mitbringst|was sie mitbringen|das bringst du mit|das bringen sie mit|ausbildung|requisitos(?: minimos| obligatorios| obrigatorios)?|requerimientos|(?:tu )?perfil(?: buscado)?|(?:lo )?que buscamos|o que procuramos|o que esperamos de voce|qualificacoes|competencias|habilidades|experiencia|formacion|formacao|requisiti(?: richiesti| minimi)?|(?:il tuo )?profilo(?: ricercato)?|competenze(?: richieste)?|cosa cerchiamo|esperienza|formazione|functie eisen|eisen|wat wij vragen|wat vragen wij|(?:jouw )?profiel|vereisten|kwalificaties|wat breng je mee|opleiding)$/
+  },
+  {
+    kind: 'other',
+    pattern:
+      /^(?:a propos(?: de nous)?|qui sommes nous|lentreprise|lequipe|avantages|ce que nous offrons|ce que nous proposons|remuneration|salaire|pourquoi nous rejoindre|postuler|description du poste|descriptif du poste|uber uns|wer wir sind|das unternehmen|(?:was )?wir bieten|vorteile|gehalt|vergutung|bewerbung|stellenbeschreibung|sobre nosotros|quienes somos|beneficios|(?:que )?ofrecemos|salario|como aplicar|descripcion del puesto|sobre nos|quem somos|(?:o que )?oferecemos|como se candidatar|descricao da vaga|chi siamo|lazienda|benefit|(?:cosa )?offriamo|retribuzione|come candidarsi|descrizione del ruolo|over ons|wie zijn wij|wat bieden wij|wij bieden|arbeidsvoorwaarden|salaris|solliciteren|functieomschrijving)$/
+  }
+];
+
+const SENIORITY_PATTERNS: Array<{ seniority: JobSeniority; pattern: RegExp }> = [
+  { seniority: 'executive', pattern: /\b(chief|cto|ceo|cfo|vp|vice president|head of|director)\b/i },
+  { seniority: 'principal', pattern: /\b(principal|distinguished)\b/i },
+  { seniority: 'lead', pattern: /\b(lead|staff|team lead|tech lead)\b/i },
+  { seniority: 'senior', pattern: /\b(senior|sr\.?)\b/i },
+  { seniority: 'mid', pattern: /\b(mid[- ]?level|intermediate)\b/i },
+  { seniority: 'junior', pattern: /\b(junior|jr\.?|entry[- ]level|graduate)\b/i },
+  { seniority: 'intern', pattern: /\b(intern|internship|working student)\b/i }
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15
+};
+
+const YEARS_PATTERN = new RegExp(
+  `\\b(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})\\s*\\+?\\s*(?:(?:-|to)\\s*\\d{1,2}\\s*\\+?\\s*)?(?:years?|yrs?)\\b`,
+  'i'
+);
+const EDUCATION_PATTERN =
+  /\b(bachelor'?s?|master'?s?|ph\.?d|doctorate|mba|b\.?sc?|m\.?sc?|b\.?a\.?|degree|diploma|graduate of|university|college)\b/i;
+const NICE_TO_HAVE_CUES = /\b(nice to have|preferred|a plus|is a bonus|bonus|ideally|desirable|good to have|advantageous)\b/i;
+const MUST_HAVE_CUES = /\b(must|required|requires|minimum|at least|essential|mandatory)\b/i;
+const REQUIREMENT_CUES = /\b(experience|years|proficien|knowledge of|familiar|degree|required|must|ability to|skilled|expertise)\b/i;
+const LABEL_PATTERN = /^(job title|title|position|role|location|work location|office|remote policy|workplace type)\s*:\s*(.+)$/i;
+
+const BULLET_PATTERN = /^[-•*▪◦●‣]\s*/;
+
+interface Section {
+  kind: SectionKind;
+  lines: string[];
+}
+
+function normalizeHeading(line: string) {
+  return foldDiacritics(line.toLowerCase())
+    .replace(/['’]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function detectHeading(line: string): SectionKind | null {
+  if (BULLET_PATTERN.test(line) || line.length > 60 || /[.!?]$/.test(line)) {
+    return null;
+  }
+  const normalized = normalizeHeading(line);
+  return HEADINGS.find(({ pattern }) => pattern.test(normalized))?.kind ?? null;
+}
+
+/** Whether a line of a job description is a section heading such as "Requirements" or "Benefits". */
+export function isSectionHeading(line: string): boolean {
+  return detectHeading(line.trim()) !== null;
+}
+
+function splitSections(lines: string[]): { preamble: string[]; sections: Section[] } {
+  const preamble: string[] = [];
+  const sections: Section[] = [];
+  for (const line of lines) {
+    const kind = detectHeading(line);
+    if (kind) {
+      sections.push({ kind, lines: [] });
+    } else if (sections.length) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  return { preamble, sections };
+}
+
+function stripBullet(line: string) {
+  return line.replace(BULLET_PATTERN, '').trim();
+}
+
+function parseYears(text: string): number | null {
+  const match = text.match(YEARS_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const value = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+  return Number.isFinite(value) && value > 0 && value <= 40 ? value : null;
+}
+
+function classifyRequirement(text: string): RequirementKind {
+  if (EDUCATION_PATTERN.test(text)) {
+    return 'education';
+  }
+  return parseYears(text) !== null ? 'experience' : 'skill';
+}
+
+function classifyPriority(text: string, sectionDefault: RequirementPriority): RequirementPriority {
+  if (NICE_TO_HAVE_CUES.test(text)) {
+    return 'nice-to-have';
+  }
+  if (MUST_HAVE_CUES.test(text)) {
+    return 'must-have';
+  }
+  return sectionDefault;
+}
+
+/**
+ * Seniority from the title line, falling back to the years-of-experience threshold. The body is not scanned: words
+ * such as "director", "staff" or "lead" there usually describe the team or the reporting line, not the role.
+ */
+function detectSeniority(title: string | null, minYears: number | null): JobSeniority | null {
+  const match = title ? SENIORITY_PATTERNS.find(({ pattern }) => pattern.test(title)) : undefined;
+  if (match) {
+    return match.seniority;
+  }
+  if (minYears === null) {
+    return null;
+  }
+  if (minYears >= 8) {
+    return 'lead';
+  }
+  if (minYears >= 5) {
+    return 'senior';
+  }
+  return minYears >= 2 ? 'mid' : 'junior';
+}
+
+function detectRemotePolicy(text: string): RemotePolicy | null {
+  if (/\bhybrid\b/i.test(text)) {
+    return 'hybrid';
+  }
+  if (/\b(fully remote|100% remote|remote[- ]first|remote[- ]friendly|work from home|wfh|telecommute|remotely|remote)\b/i.test(text)) {
+    return 'remote';
+  }
+  if (/\b(on[- ]?site|in[- ]office|in the office|office[- ]based)\b/i.test(text)) {
+    return 'onsite';
+  }
+  return null;
+}
+
+/**
+ * Extracts the title, seniority, location and remote policy, and the requirements of a job description, numbering
+ * requirements `R1`, `R2`, … in document order so prompts and model output can reference them. Requirements come from
+ * qualification-style sections (priority defaulting from the heading, overridden by cues such as "preferred" or
+ * "must"); when a posting has no such sections, requirement-like lines outside the responsibilities are used instead.
+ */
+export function parseJobDescription(jobDescription: string): ParsedJobDescription {
+  const lines = cleanExtractedText(jobDescription)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const { preamble, sections } = splitSections(lines);
+
+  let title: string | null = null;
+  let location: string | null = null;
+  let remotePolicy: RemotePolicy | null = null;
+  for (const line of lines) {
+    const label = line.match(LABEL_PATTERN);
+    if (!label) {
+      continue;
+    }
+    const field = label[1].toLowerCase();
+    if (/title|position|role/.test(field)) {
+      title = title ?? label[2].trim();
+    } else if (/remote|workplace/.test(field)) {
+      remotePolicy = remotePolicy ?? detectRemotePolicy(label[2]);
+    } else {
+      location = location ?? label[2].trim();
+    }
+  }
+  if (!title) {
+    const candidate = preamble[0] ?? lines[0];
+    if (candidate && candidate.length <= 80 && candidate.split(/\s+/).length <= 10 && !/[.!?]$/.test(candidate)) {
+      title = stripBullet(candidate);
+    }
+  }
+
+  const requirementSections = sections.filter(
+    (section) => section.kind === 'must-have' || section.kind === 'nice-to-have'
+  );
+  const drafts: Array<{ text: string; priority: RequirementPriority }> = [];
+  if (requirementSections.length) {
+    for (const section of requirementSections) {
+      for (const line of section.lines) {
+        const text = stripBullet(line);
+        if (text && !LABEL_PATTERN.test(text)) {
+          drafts.push({ text, priority: classifyPriority(text, section.kind as RequirementPriority) });
+        }
+      }
+    }
+  } else {
+    const candidates = preamble.concat(
+      ...sections.filter((section) => section.kind !== 'responsibilities').map((section) => section.lines)
+    );
+    for (const line of candidates) {
+      const text = stripBullet(line);
+      if (text.length <= 300 && !LABEL_PATTERN.test(text) && REQUIREMENT_CUES.test(text)) {
+        drafts.push({ text, priority: classifyPriority(text, 'must-have') });
+      }
+    }
+  }
+
+  const requirements: JobRequirement[] = drafts.map(({ text, priority }, index) => ({
+    id: `R${index + 1}`,
+    text,
+    priority,
+    kind: classifyRequirement(text),
+    minYears: parseYears(text)
+  }));
+
+  const yearThresholds = requirements
+    .filter((requirement) => requirement.priority === 'must-have' && requirement.minYears !== null)
+    .map((requirement) => requirement.minYears as number);
+  const minYearsExperience = yearThresholds.length ? Math.max(...yearThresholds) : null;
+
+  return {
+    title,
+    seniority: detectSeniority(title, minYearsExperience),
+    location,
+    remotePolicy: remotePolicy ?? detectRemotePolicy(lines.join('\n')),
+    requirements,
+    responsibilities: sections
+      .filter((section) => section.kind === 'responsibilities')
+      .flatMap((section) => section.lines.map(stripBullet)),
+    minYearsExperience,
+    educationRequirements: requirements
+      .filter((requirement) => requirement.kind === 'education')
+      .map((requirement) => requirement.text)
+  };
+}
+
+/**
+ * Renders a parsed job description as prompt context with each requirement prefixed by its ID. Returns null when no
+ * requirements were found, so prompts fall back to the raw text alone.
+ */
+export function formatJobContext(parsed: ParsedJobDescription): string | null {
+  if (!parsed.requirements.length) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  if (parsed.title) {
+    lines.push(`Title: ${parsed.title}`);
+  }
+  if (parsed.seniority) {
+    lines.push(`Seniority: ${parsed.seniority}`);
+  }
+  const where = [parsed.location, parsed.remotePolicy].filter(Boolean).join(' / ');
+  if (where) {
+    lines.push(`Location: ${where}`);
+  }
+  if (parsed.minYearsExperience !== null) {
+    lines.push(`Minimum experience: ${parsed.minYearsExperience}+ years`);
+  }
+
+  for (const priority of ['must-have', 'nice-to-have'] as const) {
+    const matching = parsed.requirements.filter((requirement) => requirement.priority === priority);
+    if (matching.length) {
+      lines.push(`${priority === 'must-have' ? 'Must-have' : 'Nice-to-have'} requirements:`);
+      matching.forEach((requirement) => lines.push(`- [${requirement.id}] ${requirement.text}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/** Prompt section appended after the raw job description; empty when no requirements were recognized. */
+export function buildJobContextSection(jobDescription: string): string {
+  const context = formatJobContext(parseJobDescription(jobDescription));
+  if (!context) {
+    return '';
+  }
+  return `\n\nStructured Job Requirements (parsed automatically from the job description above; reference requirements by their bracketed IDs):\n"""\n${context}\n"""`;
+}
@@ -0,0 +1,225 @@
+import { cleanExtractedText } from './textCleanup';
+
+type JsonLdNode = Record<string, unknown>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  bull: '•',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“'
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCharCode(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/**
+ * Converts an HTML fragment or saved page to plain text, keeping list items as `- ` bullets and block elements on their
+ * own lines. Regex-based so it runs identically in the browser and in API routes.
+ */
+export const htmlToText = (html: string) => {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|template|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<head\b[\s\S]*?<\/head>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|main|header|h[1-6]|ul|ol|tr|table|dl|dt|dd|blockquote)\b[^>]*>/gi, '\n')
+    .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return cleanExtractedText(decodeEntities(text));
+};
+
+const isNode = (value: unknown): value is JsonLdNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasType = (node: JsonLdNode, type: string) => {
+  const declared = node['@type'];
+  return Array.isArray(declared) ? declared.includes(type) : declared === type;
+};
+
+/** Finds the first schema.org `JobPosting` in parsed JSON-LD, searching arrays and `@graph` containers. */
+export const findJobPosting = (data: unknown): JsonLdNode | null => {
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const match = findJobPosting(item);
+      if (match) {
+        return match;
+      }
+    }
+    return null;
+  }
+
+  if (!isNode(data)) {
+    return null;
+  }
+  if (hasType(data, 'JobPosting')) {
+    return data;
+  }
+  return findJobPosting(data['@graph']);
+};
+
+const toList = (value: unknown): unknown[] => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+};
+
+const textOf = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return /<[a-z][\s\S]*>/i.test(value) ? htmlToText(value) : cleanExtractedText(decodeEntities(value));
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (isNode(value)) {
+    return textOf(value.name ?? value.description ?? value.credentialCategory ?? '');
+  }
+  return '';
+};
+
+const formatPlace = (value: unknown): string => {
+  if (!isNode(value)) {
+    return textOf(value);
+  }
+  const address = value.address;
+  if (!isNode(address)) {
+    return textOf(address ?? value.name);
+  }
+  return [address.addressLocality, address.addressRegion, address.addressCountry]
+    .map(textOf)
+    .filter(Boolean)
+    .join(', ');
+};
+
+const formatLocation = (posting: JsonLdNode) => {
+  const places = toList(posting.jobLocation).map(formatPlace).filter(Boolean);
+  if (posting.jobLocationType === 'TELECOMMUTE') {
+    const regions = toList(posting.applicantLocationRequirements).map(formatPlace).filter(Boolean);
+    places.push(regions.length ? `Remote (${regions.join('; ')})` : 'Remote');
+  }
+  return places.join(' | ');
+};
+
+const formatSalary = (value: unknown) => {
+  if (!isNode(value)) {
+    return textOf(value);
+  }
+  const amount = isNode(value.value) ? value.value : { value: value.value };
+  const range =
+    amount.minValue !== undefined && amount.maxValue !== undefined
+      ? `${amount.minValue}–${amount.maxValue}`
+      : textOf(amount.value ?? amount.minValue ?? amount.maxValue);
+  if (!range) {
+    return '';
+  }
+  const unit = typeof amount.unitText === 'string' ? ` per ${amount.unitText.toLowerCase()}` : '';
+  return [textOf(value.currency), range].filter(Boolean).join(' ') + unit;
+};
+
+const formatEmploymentType = (value: unknown) => {
+  const text = textOf(value).replace(/_/g, ' ').toLowerCase();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const formatExperience = (value: unknown) => {
+  if (isNode(value) && typeof value.monthsOfExperience === 'number') {
+    const years = value.monthsOfExperience / 12;
+    return `${Number.isInteger(years) ? years : years.toFixed(1)}+ years of experience`;
+  }
+  return textOf(value);
+};
+
+const formatSection = (heading: string, values: string[]) => {
+  const items = values.filter(Boolean);
+  if (!items.length) {
+    return '';
+  }
+  const body = items.length > 1 ? items.map((item) => (item.includes('\n') ? item : `- ${item}`)).join('\n') : items[0];
+  return `${heading}\n${body}`;
+};
+
+/**
+ * Renders a schema.org `JobPosting` as job description text: a header with title, company, location, and terms, then
+ * the description and any structured responsibilities, qualifications, and skills as separate sections.
+ */
+export const formatJobPosting = (posting: JsonLdNode) => {
+  const header = [
+    ['Job Title', textOf(posting.title)],
+    ['Company', textOf(posting.hiringOrganization)],
+    ['Location', formatLocation(posting)],
+    ['Employment Type', toList(posting.employmentType).map(formatEmploymentType).join(', ')],
+    ['Salary', formatSalary(posting.baseSalary)]
+  ]
+    .filter(([, value]) => value)
+    .map(([label, value]) => `${label}: ${value}`)
+    .join('\n');
+
+  const sections = [
+    header,
+    formatSection('Description', [textOf(posting.description)]),
+    formatSection('Responsibilities', toList(posting.responsibilities).map(textOf)),
+    formatSection('Qualifications', toList(posting.qualifications).map(textOf)),
+    formatSection('Experience Requirements', toList(posting.experienceRequirements).map(formatExperience)),
+    formatSection('Education Requirements', toList(posting.educationRequirements).map(textOf)),
+    formatSection('Skills', toList(posting.skills).map(textOf))
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+};
+
+const JSON_LD_PATTERN = /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+const findJobPostingInHtml = (html: string) => {
+  for (const match of Array.from(html.matchAll(JSON_LD_PATTERN))) {
+    try {
+      const posting = findJobPosting(JSON.parse(match[1]));
+      if (posting) {
+        return posting;
+      }
+    } catch {
+      // Pages often carry unrelated or malformed JSON-LD blocks; keep looking.
+    }
+  }
+  return null;
+};
+
+/**
+ * Maps a JD export to clean job description text. JSON files must contain a schema.org `JobPosting`; HTML pages use
+ * their embedded JSON-LD posting when present and otherwise fall back to the visible page text.
+ */
+export const importJobDescription = (raw: string, format: 'json' | 'html') => {
+  if (format === 'html') {
+    const posting = findJobPostingInHtml(raw);
+    return posting ? formatJobPosting(posting) : htmlToText(raw);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('The JSON file is not valid JSON.');
+  }
+  const posting = findJobPosting(data);
+  if (!posting) {
+    throw new Error('The JSON file does not contain a schema.org JobPosting.');
+  }
+  return formatJobPosting(posting);
+};
@@ -0,0 +1,376 @@
+import { isSectionHeading, parseJobDescription } from './jobDescriptionParser';
+import { LANGUAGE_STOPWORDS } from './languageDetection';
+import { foldDiacritics } from './textCleanup';
+import type { KeywordCoverage } from './types';
+
+/**
+ * Canonical skill names and the variants that should count as the same skill. Multi-word entries are matched as
+ * phrases before tokenizing, so "amazon web services" and "AWS" both become the `aws` term. Variants in other
+ * languages are written without accents, as text is folded before matching.
+ */
+const SKILL_SYNONYMS: Record<string, string[]> = {
+  javascript: ['js', 'ecmascript', 'es6'],
+  typescript: ['ts'],
+  'node.js': ['node', 'nodejs', 'node js'],
+  react: ['react.js', 'reactjs', 'react js'],
+  'vue.js': ['vue', 'vuejs'],
+  angular: ['angularjs', 'angular.js'],
+  'next.js': ['nextjs', 'next js'],
+  python: ['python3'],
+  golang: ['go lang'],
+  'c#': ['csharp', 'c sharp'],
+  'c++': ['cpp'],
+  '.net': ['dotnet', 'dot net', 'asp.net'],
+  postgresql: ['postgres', 'psql'],
+  mysql: ['my sql'],
+  mongodb: ['mongo'],
+  sql: ['structured query language'],
+  nosql: ['no sql', 'non-relational databases'],
+  aws: ['amazon web services'],
+  gcp: ['google cloud', 'google cloud platform'],
+  azure: ['microsoft azure'],
+  kubernetes: ['k8s'],
+  docker: ['containerization', 'containers'],
+  terraform: ['infrastructure as code', 'iac'],
+  'ci/cd': [
+    'cicd',
+    'ci cd',
+    'continuous integration',
+    'continuous delivery',
+    'continuous deployment',
+    'integration continue',
+    'integracion continua',
+    'integracao continua',
+    'integrazione continua',
+    'kontinuierliche integration'
+  ],
+  'machine learning': [
+    'ml',
+    'apprentissage automatique',
+    'maschinelles lernen',
+    'aprendizaje automatico',
+    'aprendizado de maquina',
+    'apprendimento automatico'
+  ],
+  'deep learning': ['apprentissage profond', 'aprendizaje profundo', 'aprendizado profundo', 'apprendimento profondo'],
+  'artificial intelligence': [
+    // Not the French "IA" or German "KI": without the document language those match "Des Moines, IA" and the like.
+    'ai',
+    'intelligence artificielle',
+    'kunstliche intelligenz',
+    'inteligencia artificial',
+    'intelligenza artificiale',
+    'kunstmatige intelligentie'
+  ],
+  'natural language processing': [
+    'nlp',
+    'traitement du langage naturel',
+    'traitement automatique du langage',
+    'procesamiento del lenguaje natural'
+  ],
+  'computer vision': ['vision par ordinateur', 'vision artificial', 'visao computacional', 'visione artificiale'],
+  'large language models': ['llm', 'llms', 'large language model'],
+  'rest api': ['restful', 'rest apis', 'restful apis', 'restful services'],
+  graphql: ['graph ql'],
+  microservices: ['micro services', 'microservice', 'service oriented architecture', 'soa'],
+  'data engineering': ['etl', 'elt', 'data pipelines', 'data pipeline', 'ingenierie des donnees', 'ingenieria de datos'],
+  spark: ['apache spark', 'pyspark'],
+  kafka: ['apache kafka'],
+  airflow: ['apache airflow'],
+  tableau: [],
+  'power bi': ['powerbi'],
+  excel: ['microsoft excel', 'ms excel'],
+  agile: ['scrum', 'kanban'],
+  'project management': [
+    'pmp',
+    'gestion de projet',
+    'gestion de projets',
+    'projektmanagement',
+    'projektleitung',
+    'gestion de proyectos',
+    'gestao de projetos',
+    'gestione progetti',
+    'gestione dei progetti',
+    'projectmanagement'
+  ],
+  'user experience': ['ux', 'ux design', 'experience utilisateur', 'experiencia de usuario', 'experiencia do usuario'],
+  'user interface': ['ui', 'ui design'],
+  'test automation': [
+    'automated testing',
+    'test-driven development',
+    'tdd',
+    'tests automatises',
+    'automatisation des tests',
+    'testautomatisierung',
+    'pruebas automatizadas',
+    'testes automatizados',
+    'test automatizzati'
+  ],
+  linux: ['unix'],
+  git: ['github', 'gitlab', 'version control'],
+  'customer relationship management': [
+    'crm',
+    'salesforce',
+    'gestion de la relation client',
+    'gestion de relaciones con clientes'
+  ],
+  'search engine optimization': ['seo']
+};
+
+/** Words too common in postings and resumes to signal a requirement. */
+const STOPWORDS = new Set(
+  (
+    'a about above across after again against all also am an and any are as at be been being below between both but by ' +
+    'can could did do does doing down during each either etc few for from further had has have having he her here hers ' +
+    'him his how i if in into is it its itself just least less like made make many may me more most must my no nor not ' +
+    'of off on once only or other our ours out over own per plus same she should so some such than that the their them ' +
+    'then there these they this those through to too under until up upon us very via was we were what when where which ' +
+    'while who whom why will with within without would you your yours ' +
+    'ability able across candidate candidates company closely experience experienced excellent familiarity familiar ' +
+    'good great help ideal ideally including job join knowledge looking new nice opportunity preferred proficiency ' +
+    'proficient required requirement requirements responsibilities responsible role skills skill strong team teams ' +
+    'understanding using work working world year years well eg ie key level ' +
+    // Posting filler in the other supported languages; their function words come from the language detector.
+    'ans annees jahre jahren anos anni jaar jaren experiencia esperienza erfahrung ervaring connaissances kenntnisse ' +
+    'conocimientos conhecimentos conoscenze kennis competences kompetenzen competencias competenze vaardigheden ' +
+    'equipe equipo equipa squadra poste stelle puesto vaga ruolo functie entreprise unternehmen empresa azienda ' +
+    'bedrijf souhaite wunschenswert deseable desejavel gewenst requis erforderlich requerido richiesto vereist'
+  )
+    .split(/\s+/)
+    .concat(...Object.values(LANGUAGE_STOPWORDS))
+);
+
+/**
+ * Common job and resume vocabulary in the other supported languages (accents folded), mapped to the English term so a
+ * French resume still covers an English posting's "development" or "data". Skill phrases are in `SKILL_SYNONYMS`.
+ */
+const TERM_TRANSLATIONS: Record<string, string[]> = {
+  development: ['developpement', 'entwicklung', 'desarrollo', 'desenvolvimento', 'sviluppo', 'ontwikkeling'],
+  developer: [
+    'developpeur',
+    'developpeuse',
+    'entwickler',
+    'entwicklerin',
+    'desarrollador',
+    'desarrolladora',
+    'desenvolvedor',
+    'desenvolvedora',
+    'sviluppatore',
+    'sviluppatrice',
+    'ontwikkelaar'
+  ],
+  engineer: [
+    'ingenieur',
+    'ingenieure',
+    'ingenieurin',
+    'ingeniero',
+    'ingeniera',
+    'engenheiro',
+    'engenheira',
+    'ingegnere'
+  ],
+  software: ['logiciel', 'logiciels'],
+  data: ['donnees', 'daten', 'datos', 'dados', 'dati', 'gegevens'],
+  database: ['datenbank', 'datenbanken', 'databank'],
+  management: ['gestion', 'verwaltung', 'gestao', 'gestione', 'beheer'],
+  project: [
+    'projet',
+    'projets',
+    'projekt',
+    'projekte',
+    'proyecto',
+    'proyectos',
+    'projeto',
+    'projetos',
+    'progetto',
+    'progetti'
+  ],
+  analysis: ['analyse', 'analysen', 'analisis', 'analise', 'analisi'],
+  security: ['securite', 'sicherheit', 'seguridad', 'seguranca', 'sicurezza', 'beveiliging'],
+  network: ['reseau', 'reseaux', 'netzwerk', 'netzwerke', 'redes', 'rete', 'netwerk'],
+  architecture: ['architektur', 'arquitectura', 'arquitetura', 'architettura', 'architectuur'],
+  infrastructure: ['infrastruktur', 'infraestructura', 'infraestrutura', 'infrastruttura', 'infrastructuur'],
+  automation: ['automatisation', 'automatisierung', 'automatizacion', 'automacao', 'automazione', 'automatisering'],
+  communication: ['kommunikation', 'comunicacion', 'comunicacao', 'comunicazione', 'communicatie'],
+  customer: ['client', 'clients', 'kunde', 'kunden', 'cliente', 'clientes', 'clienti', 'klant', 'klanten'],
+  sales: ['vente', 'ventes', 'vertrieb', 'ventas', 'vendas', 'vendite', 'verkoop'],
+  finance: ['finanzen', 'finanzas', 'financas', 'finanza', 'financien'],
+  maintenance: ['wartung', 'mantenimiento', 'manutencao', 'manutenzione', 'onderhoud'],
+  leadership: ['fuhrung', 'liderazgo', 'lideranca', 'leiderschap'],
+  testing: ['tests', 'pruebas', 'testes']
+};
+
+const TRANSLATED_TERMS: Record<string, string> = Object.keys(TERM_TRANSLATIONS).reduce<Record<string, string>>(
+  (terms, english) => TERM_TRANSLATIONS[english].reduce((mapped, word) => ({ ...mapped, [word]: english }), terms),
+  {}
+);
+
+const PHRASE_TOKEN = /[^a-z0-9+#./_ -]/g;
+const K1 = 1.2;
+const MAX_TERMS = 40;
+
+/** Variant → canonical token, longest variants first so "google cloud platform" wins over "google cloud". */
+const SYNONYM_PATTERNS: Array<{ pattern: RegExp; token: string }> = Object.keys(SKILL_SYNONYMS)
+  .flatMap((canonical) =>
+    [canonical].concat(SKILL_SYNONYMS[canonical]).map((variant) => ({ variant, token: canonicalToken(canonical) }))
+  )
+  .sort((a, b) => b.variant.length - a.variant.length)
+  .map(({ variant, token }) => ({
+    pattern: new RegExp(`(^|[^a-z0-9+#])${escapeRegExp(variant)}(?=$|[^a-z0-9+#])`, 'g'),
+    token
+  }));
+
+const CANONICAL_LABELS: Record<string, string> = Object.keys(SKILL_SYNONYMS).reduce<Record<string, string>>(
+  (labels, canonical) => ({ ...labels, [canonicalToken(canonical)]: canonical }),
+  {}
+);
+
+function canonicalToken(canonical: string) {
+  return `skill:${canonical}`;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function stem(token: string) {
+  if (token.length <= 4 || /[^a-z]/.test(token)) {
+    return token;
+  }
+  if (token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.endsWith('ing') && token.length > 6) {
+    return token.slice(0, -3);
+  }
+  if (token.endsWith('ed') && token.length > 5) {
+    return token.slice(0, -2);
+  }
+  if (token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+interface Token {
+  term: string;
+  surface: string;
+}
+
+/**
+ * Lowercases and folds accents, maps skill synonyms to canonical terms, and splits the rest into stemmed words (other
+ * languages' common terms translated to English) without stopwords or bare numbers. Deterministic, so the same text
+ * always yields the same terms.
+ */
+export function tokenize(text: string): Token[] {
+  let normalized = ` ${foldDiacritics(text.toLowerCase()).replace(PHRASE_TOKEN, ' ')} `;
+  const skills: Token[] = [];
+  for (const { pattern, token } of SYNONYM_PATTERNS) {
+    normalized = normalized.replace(pattern, (_, prefix: string) => {
+      skills.push({ term: token, surface: CANONICAL_LABELS[token] });
+      return `${prefix} `;
+    });
+  }
+
+  const words = normalized
+    .split(/[\s/,_]+/)
+    .map((word) => word.replace(/^[.\-]+|[.\-]+$/g, ''))
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word) && !/^\d+(\.\d+)?[+%]?$/.test(word))
+    .map((word) => ({ term: stem(TRANSLATED_TERMS[word] ?? word), surface: word }));
+
+  return skills.concat(words);
+}
+
+function countTerms(tokens: Token[]) {
+  const counts = new Map<string, number>();
+  tokens.forEach(({ term }) => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+}
+
+/** BM25 term-frequency saturation: repeated mentions add weight with diminishing returns. */
+function saturate(frequency: number) {
+  return (frequency * (K1 + 1)) / (frequency + K1);
+}
+
+function splitPassages(text: string) {
+  return text
+    .split(/\n+|[.!?]\s+/)
+    .map((passage) => passage.trim())
+    .filter((passage) => passage.length > 0);
+}
+
+/**
+ * Deterministic, offline keyword coverage of the job requirements by the resume (the whole job description, minus
+ * section headings, when no requirements can be parsed). JD terms are weighted BM25-style —
+ * saturated frequency in the JD times an IDF computed over the passages of both documents, so words that appear
+ * everywhere count for little — with extra weight for dictionary skills and must-have requirements. The score is the
+ * weighted share of the top JD terms that also occur in the resume, after synonym mapping and stemming.
+ */
+export function scoreKeywordCoverage(resumeText: string, jobDescription: string): KeywordCoverage {
+  const { requirements } = parseJobDescription(jobDescription);
+  // Benefits, company blurbs and headings are not requirements; the whole posting is only used when none were parsed.
+  const scoredText = requirements.length
+    ? requirements.map((requirement) => requirement.text).join('\n')
+    : jobDescription
+        .split('\n')
+        .filter((line) => !isSectionHeading(line))
+        .join('\n');
+  const jobTokens = tokenize(scoredText);
+  const resumeCounts = countTerms(tokenize(resumeText));
+  const jobCounts = countTerms(jobTokens);
+
+  const passages = splitPassages(scoredText).concat(splitPassages(resumeText));
+  const documentFrequency = new Map<string, number>();
+  passages.forEach((passage) => {
+    Array.from(new Set(tokenize(passage).map(({ term }) => term))).forEach((term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    );
+  });
+
+  const priorityBoost = new Map<string, number>();
+  requirements.forEach((requirement) => {
+    const boost = requirement.priority === 'must-have' ? 1.5 : 0.75;
+    tokenize(requirement.text).forEach(({ term }) =>
+      priorityBoost.set(term, Math.max(priorityBoost.get(term) ?? 0, boost))
+    );
+  });
+
+  const surfaces = new Map<string, string>();
+  jobTokens.forEach(({ term, surface }) => {
+    if (!surfaces.has(term)) {
+      surfaces.set(term, surface);
+    }
+  });
+
+  const weighted = Array.from(jobCounts.entries())
+    .map(([term, frequency]) => {
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+      const skillBoost = term.startsWith('skill:') ? 2 : 1;
+      return { term, weight: saturate(frequency) * Math.max(idf, 0.1) * skillBoost * (priorityBoost.get(term) ?? 1) };
+    })
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, MAX_TERMS);
+
+  const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+  const matched = weighted.filter(({ term }) => resumeCounts.has(term));
+  const matchedWeight = matched.reduce((sum, { weight }) => sum + weight, 0);
+  const label = (term: string) => surfaces.get(term) ?? term;
+
+  return {
+    score: totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) : 0,
+    matchedTerms: matched.map(({ term }) => label(term)),
+    missingTerms: weighted.filter(({ term }) => !resumeCounts.has(term)).map(({ term }) => label(term)),
+    termCount: weighted.length
+  };
+}
+
+/** Prompt section grounding the model in the offline keyword baseline; empty when the JD yielded no terms. */
+export function buildKeywordBaselineSection(resumeText: string, jobDescription: string): string {
+  const coverage = scoreKeywordCoverage(resumeText, jobDescription);
+  if (!coverage.termCount) {
+    return '';
+  }
+  const list = (terms: string[]) => (terms.length ? terms.slice(0, 20).join(', ') : 'none');
+  return `\n\nKeyword Coverage Baseline (deterministic lexical match, not a judgment of depth): ${coverage.score}/100\nMatched terms: ${list(coverage.matchedTerms)}\nMissing terms: ${list(coverage.missingTerms)}`;
+}
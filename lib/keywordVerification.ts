@@ -0,0 +1,86 @@
+import { tokenize } from './keywordScoring';
+import { foldDiacritics } from './textCleanup';
+import type { EvidenceSources } from './evidence';
+import type { SkillsMatrixEntry, SkillsMatrixResponse } from './types';
+
+/** Share of `candidateAlignment` removed when every resume keyword of a category is unsupported. */
+const UNVERIFIED_ALIGNMENT_WEIGHT = 0.5;
+/** Keywords of three or more terms count as supported when this share of their terms occurs in the text. */
+const LONG_KEYWORD_TERM_COVERAGE = 2 / 3;
+
+interface TextIndex {
+  /** Accent-folded, lowercased alphanumerics (plus `+#.`) separated by single spaces and padded, for phrase lookups. */
+  phrases: string;
+  /** Stemmed terms and canonical skill tokens, as produced by the keyword baseline tokenizer. */
+  terms: Set<string>;
+}
+
+function normalizePhrase(value: string) {
+  return foldDiacritics(value.toLowerCase())
+    .replace(/[^a-z0-9+#.]+/g, ' ')
+    .replace(/\.(?=\s|$)/g, '')
+    .trim();
+}
+
+function buildIndex(text: string): TextIndex {
+  return {
+    phrases: ` ${normalizePhrase(text)} `,
+    terms: new Set(tokenize(text).map(({ term }) => term))
+  };
+}
+
+/**
+ * A keyword is supported by a text when it occurs there verbatim (ignoring case and punctuation), or when its stemmed
+ * terms do — with skill synonyms mapped to one canonical term, so "k8s" supports "Kubernetes".
+ */
+function isSupported(keyword: string, index: TextIndex): boolean {
+  const phrase = normalizePhrase(keyword);
+  if (!phrase || index.phrases.includes(` ${phrase} `)) {
+    return true;
+  }
+
+  const terms = Array.from(new Set(tokenize(keyword).map(({ term }) => term)));
+  if (!terms.length) {
+    return false;
+  }
+  const matched = terms.filter((term) => index.terms.has(term)).length;
+  return terms.length >= 3 ? matched / terms.length >= LONG_KEYWORD_TERM_COVERAGE : matched === terms.length;
+}
+
+function verifyEntry(entry: SkillsMatrixEntry, resume: TextIndex, job: TextIndex): SkillsMatrixEntry {
+  const unverifiedResumeKeywords = entry.resumeKeywords.filter((keyword) => !isSupported(keyword, resume));
+  const unverifiedRequiredKeywords = entry.requiredKeywords.filter((keyword) => !isSupported(keyword, job));
+  const unverifiedShare = entry.resumeKeywords.length ? unverifiedResumeKeywords.length / entry.resumeKeywords.length : 0;
+  const alignmentPenalty = Math.round(entry.candidateAlignment * unverifiedShare * UNVERIFIED_ALIGNMENT_WEIGHT);
+
+  return {
+    ...entry,
+    candidateAlignment: entry.candidateAlignment - alignmentPenalty,
+    unverifiedResumeKeywords,
+    unverifiedRequiredKeywords,
+    alignmentPenalty
+  };
+}
+
+/**
+ * Checks every resume keyword against the resume and every required keyword against the job description. Unsupported
+ * keywords stay in their lists but are flagged, and each category's `candidateAlignment` is reduced in proportion to
+ * its unsupported resume keywords.
+ */
+export function verifySkillsMatrixKeywords(
+  matrix: SkillsMatrixResponse,
+  { resumeText, jobDescription }: EvidenceSources
+): SkillsMatrixResponse {
+  const resume = buildIndex(resumeText);
+  const job = buildIndex(jobDescription);
+  const categories = matrix.categories.map((entry) => verifyEntry(entry, resume, job));
+
+  const flagged = categories.reduce((count, entry) => count + (entry.unverifiedResumeKeywords?.length ?? 0), 0);
+  const warnings = flagged
+    ? (matrix.warnings ?? []).concat(
+        `${flagged} resume keyword(s) could not be found in the resume and are marked unverified.`
+      )
+    : matrix.warnings;
+
+  return { ...matrix, categories, warnings };
+}
@@ -0,0 +1,94 @@
+import { foldDiacritics } from './textCleanup';
+import type { DetectedLanguage, DocumentLanguages, LanguageCode } from './types';
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  fr: 'French',
+  de: 'German',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  it: 'Italian',
+  nl: 'Dutch'
+};
+
+const words = (list: string) => list.split(' ');
+
+/**
+ * Frequent function words of each language, accents folded. Resumes are terse, but even bullet points keep enough
+ * articles and prepositions to tell the languages apart; words shared between languages count for each of them.
+ */
+export const LANGUAGE_STOPWORDS: Record<LanguageCode, string[]> = {
+  en: words('the and of to in for with on at by from is are was were an be this that our you your will have has we or not its which who'),
+  fr: words('le la les des du de et en pour avec dans sur par un une est sont nous vous votre vos notre au aux ce cette qui que ou pas plus chez aupres'),
+  de: words('der die das und mit fur von zu im den dem des ein eine einer eines ist sind wir sie ihre ihr unser unsere auf bei als oder nicht auch zur zum uber'),
+  es: words('el la los las de del y en para con por un una es son nuestro nuestra su sus que como al se muy desde sobre entre tambien'),
+  pt: words('o a os as de do da dos das e em para com por um uma no na nos nas que ao sao seu sua nosso nossa voce como mais tambem'),
+  it: words('il lo la gli le di del della dei delle e in per con da un una uno che sono nostro nostra al alla nel nella anche come piu'),
+  nl: words('de het een en van in op met voor te is zijn wij je jouw onze ons bij als of niet ook naar door aan dat die')
+};
+
+const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES) as LanguageCode[];
+const STOPWORD_SETS = LANGUAGE_CODES.map((code) => ({ code, stopwords: new Set(LANGUAGE_STOPWORDS[code]) }));
+
+/** Below this many stopword hits the text is too short (or a keyword list) to call. */
+const MIN_HITS = 3;
+/** A lead smaller than this over the runner-up means the text is mixed or ambiguous. */
+const MIN_CONFIDENCE = 0.15;
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGE_NAMES, value);
+}
+
+/**
+ * Detects the main language of a text by counting each language's stopwords. Deterministic and offline; returns a null
+ * code when there is too little running text or no language clearly leads.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const tokens = foldDiacritics(text.toLowerCase()).match(/[a-z]+/g) ?? [];
+  const ranked = STOPWORD_SETS.map(({ code, stopwords }) => ({
+    code,
+    hits: tokens.filter((token) => stopwords.has(token)).length
+  })).sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = ranked;
+  if (best.hits < MIN_HITS) {
+    return { code: null, confidence: 0 };
+  }
+  const confidence = Math.round(((best.hits - runnerUp.hits) / best.hits) * 100) / 100;
+  return { code: confidence >= MIN_CONFIDENCE ? best.code : null, confidence };
+}
+
+export function detectDocumentLanguages(resumeText: string, jobDescription: string): DocumentLanguages {
+  return { resume: detectLanguage(resumeText), jobDescription: detectLanguage(jobDescription) };
+}
+
+/** Serializes the output language for cache keys; the document languages follow from the text already in the key. */
+export function describeLanguage(outputLanguage?: LanguageCode): string {
+  return `lang=${outputLanguage ?? 'en'}`;
+}
+
+const describeDetected = ({ code }: DetectedLanguage) => (code ? LANGUAGE_NAMES[code] : 'undetermined');
+
+/**
+ * Prompt section telling the model which language to write in and how to match across languages. Empty when both
+ * documents are English (or undetermined) and English output is wanted, so English prompts are unchanged.
+ */
+export function buildLanguageSection(resumeText: string, jobDescription: string, outputLanguage?: LanguageCode): string {
+  const { resume, jobDescription: job } = detectDocumentLanguages(resumeText, jobDescription);
+  const output = outputLanguage ?? 'en';
+  if ((resume.code ?? 'en') === 'en' && (job.code ?? 'en') === 'en' && output === 'en') {
+    return '';
+  }
+
+  const lines = [
+    `- Detected languages: resume ${describeDetected(resume)}, job description ${describeDetected(job)}.`,
+    `- Write all free text you generate in ${LANGUAGE_NAMES[output]}, whatever language the documents are in.`,
+    '- Copy quotes, evidence and keywords taken from the documents exactly as written, in their original language; never translate them, or they cannot be verified.'
+  ];
+  if (resume.code && job.code && resume.code !== job.code) {
+    lines.push(
+      `- The documents are in different languages. Match requirements to equivalent experience across languages (e.g. "gestion de projet" meets "project management"), and do not count the language difference itself as a gap unless the job explicitly requires proficiency in a language.`
+    );
+  }
+  return `\n\nLanguage:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,197 @@
+import { getChatCompletion } from './openai';
+import type { AzureOpenAIChatMessage, GenerationSettings } from './types';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  /** Fatal issues make the payload unusable; the rest are repaired by substituting defaults. */
+  fatal: boolean;
+}
+
+export interface ParseResult<T> {
+  value: T | null;
+  issues: ValidationIssue[];
+}
+
+export class ModelOutputError extends Error {
+  readonly issues: ValidationIssue[];
+  readonly attempts: number;
+
+  constructor(message: string, issues: ValidationIssue[], attempts: number) {
+    super(message);
+    this.name = 'ModelOutputError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+export function parseJsonObject(raw: string, issues: ValidationIssue[]): Record<string, unknown> | null {
+  const unfenced = raw.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const jsonMatch = unfenced.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    issues.push({ path: '$', message: 'response did not contain a JSON object', fatal: true });
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(jsonMatch[0]) as unknown;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      issues.push({ path: '$', message: 'expected a JSON object at the top level', fatal: true });
+      return null;
+    }
+    return data as Record<string, unknown>;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    issues.push({ path: '$', message: `response was not valid JSON (${reason})`, fatal: true });
+    return null;
+  }
+}
+
+export function checkScore(value: unknown, path: string, issues: ValidationIssue[], required: boolean): void {
+  if (value === undefined || value === null) {
+    issues.push({ path, message: required ? 'is required' : 'missing; defaulted to 0', fatal: required });
+    return;
+  }
+  const numericValue = typeof value === 'number' ? value : Number(value);
+  if (typeof value === 'boolean' || !Number.isFinite(numericValue)) {
+    issues.push({ path, message: `expected a number (0-100), got ${JSON.stringify(value)}`, fatal: required });
+    return;
+  }
+  if (typeof value !== 'number') {
+    issues.push({ path, message: 'expected a number but received a string; coerced', fatal: false });
+  }
+  if (numericValue < 0 || numericValue > 100) {
+    issues.push({ path, message: `value ${numericValue} is outside 0-100; clamped`, fatal: false });
+  }
+}
+
+export function checkNullableString(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value === undefined) {
+    issues.push({ path, message: 'missing; treated as null', fatal: false });
+  } else if (value !== null && typeof value !== 'string') {
+    issues.push({ path, message: `expected a string or null, got ${typeof value}; ignored`, fatal: false });
+  }
+}
+
+export function checkStringArray(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  { minItems = 0, maxItems }: { minItems?: number; maxItems?: number } = {}
+): void {
+  if (value === undefined || value === null) {
+    issues.push({ path, message: 'missing; defaulted to an empty list', fatal: false });
+    return;
+  }
+  if (typeof value === 'string') {
+    issues.push({ path, message: 'expected an array of strings but received a string; split into items', fatal: false });
+    return;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array of strings, got ${typeof value}; defaulted to an empty list`, fatal: false });
+    return;
+  }
+
+  const validItems = value.filter((item) => typeof item === 'string' && item.trim().length > 0);
+  if (validItems.length !== value.length) {
+    issues.push({
+      path,
+      message: `${value.length - validItems.length} empty or non-string item(s) dropped`,
+      fatal: false
+    });
+  }
+  if (validItems.length < minItems) {
+    issues.push({ path, message: `expected at least ${minItems} items, got ${validItems.length}`, fatal: false });
+  }
+  if (maxItems !== undefined && validItems.length > maxItems) {
+    issues.push({ path, message: `expected at most ${maxItems} items, got ${validItems.length}`, fatal: false });
+  }
+}
+
+interface CompleteWithRepairOptions {
+  maxAttempts?: number;
+  /** A completion already obtained (e.g. from a stream) that counts as the first attempt. */
+  firstCompletion?: string;
+  generation?: GenerationSettings;
+}
+
+function resolveMaxAttempts(): number {
+  const configured = Number(process.env.LLM_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+function buildRepairMessages(previous: string, issues: ValidationIssue[]): AzureOpenAIChatMessage[] {
+  return [
+    { role: 'assistant', content: previous },
+    {
+      role: 'user',
+      content: `Your previous response did not match the required schema:\n${issues
+        .map((issue) => `- ${formatIssue(issue)}`)
+        .join('\n')}\n\nReturn ONLY the corrected JSON object, following the same schema, with every issue fixed.`
+    }
+  ];
+}
+
+/**
+ * Requests a completion and validates it with `parse`. Any validation issue triggers a repair turn that shows the
+ * model its own output plus the issues found. The usable payload with the fewest issues seen so far is kept, so a
+ * repair turn that comes back worse never discards an earlier result; when no attempt produced a usable payload, the
+ * fatal issues raise a `ModelOutputError`.
+ */
+export async function completeWithRepair<T>(
+  messages: AzureOpenAIChatMessage[],
+  parse: (content: string) => ParseResult<T>,
+  { maxAttempts = resolveMaxAttempts(), firstCompletion, generation }: CompleteWithRepairOptions = {}
+): Promise<{ value: T; issues: ValidationIssue[] }> {
+  let conversation = messages;
+  let lastIssues: ValidationIssue[] = [];
+  let best: { value: T; issues: ValidationIssue[] } | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    let completion: string;
+    try {
+      completion =
+        attempt === 1 && firstCompletion !== undefined
+          ? firstCompletion
+          : await getChatCompletion(conversation, { generation });
+    } catch (error) {
+      // A failed repair request should not cost us a payload we could already use.
+      if (best) {
+        return best;
+      }
+      throw error;
+    }
+    const { value, issues } = parse(completion);
+
+    if (value) {
+      if (issues.length === 0) {
+        return { value, issues };
+      }
+      if (!best || issues.length < best.issues.length) {
+        best = { value, issues };
+      }
+    }
+
+    lastIssues = issues;
+    conversation = [...messages, ...buildRepairMessages(completion, issues)];
+  }
+
+  if (best) {
+    return best;
+  }
+
+  throw new ModelOutputError(
+    `Model output failed schema validation after ${maxAttempts} attempt(s): ${lastIssues
+      .filter((issue) => issue.fatal)
+      .map(formatIssue)
+      .join('; ')}`,
+    lastIssues,
+    maxAttempts
+  );
+}
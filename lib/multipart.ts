@@ -0,0 +1,106 @@
+import Busboy from 'busboy';
+import type { IncomingMessage } from 'http';
+
+import { PayloadError } from './requestErrors';
+
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 4;
+const DEFAULT_MAX_JSON_BYTES = 2 * 1024 * 1024;
+
+export interface UploadedFile {
+  fieldName: string;
+  fileName: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export interface MultipartForm {
+  fields: Record<string, string>;
+  files: UploadedFile[];
+}
+
+export function isMultipartRequest(req: IncomingMessage): boolean {
+  return (req.headers['content-type'] ?? '').toLowerCase().startsWith('multipart/form-data');
+}
+
+/**
+ * Buffers a `multipart/form-data` request in memory. Routes using it must disable Next's body parser.
+ */
+export function parseMultipartForm(
+  req: IncomingMessage,
+  { maxFileBytes = DEFAULT_MAX_FILE_BYTES, maxFiles = DEFAULT_MAX_FILES } = {}
+): Promise<MultipartForm> {
+  return new Promise((resolve, reject) => {
+    let busboy: Busboy.Busboy;
+    try {
+      busboy = Busboy({ headers: req.headers, limits: { fileSize: maxFileBytes, files: maxFiles } });
+    } catch (error) {
+      reject(new PayloadError('Malformed multipart request.', 400));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    const pendingFiles: Array<Promise<UploadedFile>> = [];
+    let failure: Error | null = null;
+
+    busboy.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    busboy.on('file', (fieldName, stream, { filename, mimeType }) => {
+      pendingFiles.push(
+        new Promise((resolveFile) => {
+          const chunks: Buffer[] = [];
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+          stream.on('limit', () => {
+            failure = new PayloadError(
+              `${filename} exceeds the ${Math.round(maxFileBytes / (1024 * 1024))} MB upload limit.`,
+              413
+            );
+          });
+          stream.on('end', () =>
+            resolveFile({ fieldName, fileName: filename, mimeType, buffer: Buffer.concat(chunks) })
+          );
+        })
+      );
+    });
+
+    busboy.on('filesLimit', () => {
+      failure = new PayloadError(`Upload at most ${maxFiles} files per request.`, 413);
+    });
+    busboy.on('error', (error) => reject(error));
+    busboy.on('close', () => {
+      Promise.all(pendingFiles).then((files) => {
+        if (failure) {
+          reject(failure);
+          return;
+        }
+        resolve({ fields, files });
+      }, reject);
+    });
+
+    req.pipe(busboy);
+  });
+}
+
+export async function readJsonBody<T>(req: IncomingMessage, maxBytes = DEFAULT_MAX_JSON_BYTES): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new PayloadError('Request body is too large.', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw.trim()) {
+    return {} as T;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new PayloadError('Request body must be valid JSON.', 400);
+  }
+}
@@ -1,52 +1,47 @@
-import type { AzureOpenAIChatMessage } from './types';
-
-interface AzureChatCompletionsResponse {
-  choices?: Array<{
-    message?: {
-      content?: string;
-    };
-  }>;
+import { resolveChatProvider } from './providers';
+import { createLocalEmbeddingProvider, resolveEmbeddingProvider } from './providers/embeddings';
+import type { AzureOpenAIChatMessage, ChatCompletionOptions, EmbeddingProvider } from './types';
+
+export async function getChatCompletion(
+  messages: AzureOpenAIChatMessage[],
+  options?: ChatCompletionOptions
+): Promise<string> {
+  const provider = resolveChatProvider();
+  return provider.complete(messages, options);
 }
 
-export async function getChatCompletion(messages: AzureOpenAIChatMessage[]): Promise<string> {
-  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-  const apiKey = process.env.AZURE_OPENAI_KEY;
-  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT;
-  const apiVersion = process.env.AZURE_OPENAI_API_VERSION ?? '2024-02-15-preview';
-
-  if (!endpoint || !apiKey || !deployment) {
-    throw new Error('Azure OpenAI credentials are not fully configured.');
-  }
-
-  const url = new URL(`/openai/deployments/${deployment}/chat/completions`, endpoint);
-  url.searchParams.set('api-version', apiVersion);
-
-  const response = await fetch(url.toString(), {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'api-key': apiKey
-    },
-    body: JSON.stringify({
-      messages,
-      temperature: 1,
-      max_completion_tokens: 5000,
-      n: 1
-    })
-  });
+export function streamChatCompletion(
+  messages: AzureOpenAIChatMessage[],
+  options?: ChatCompletionOptions
+): AsyncIterable<string> {
+  const provider = resolveChatProvider();
+  return provider.stream(messages, options);
+}
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`Azure OpenAI request failed: ${response.status} ${response.statusText} - ${errorBody}`);
-  }
+/** Identifies the configured model so cached responses are never shared across deployments. */
+export function getActiveModel(): string {
+  return resolveChatProvider().model;
+}
 
-  const data = (await response.json()) as AzureChatCompletionsResponse;
-  const [choice] = data.choices ?? [];
-  const content = choice?.message?.content;
+export interface EmbeddingResult {
+  provider: EmbeddingProvider;
+  vectors: number[][];
+}
 
-  if (!content) {
-    throw new Error('Azure OpenAI returned an empty response.');
+/**
+ * Embeds texts with the configured provider. If a remote provider fails, the whole batch is re-embedded with the local
+ * model so vectors from different models are never compared.
+ */
+export async function getEmbeddings(texts: string[]): Promise<EmbeddingResult> {
+  const provider = resolveEmbeddingProvider();
+  try {
+    return { provider, vectors: await provider.embed(texts) };
+  } catch (error) {
+    if (provider.name === 'local') {
+      throw error;
+    }
+    console.error(`Embedding provider "${provider.name}" failed; falling back to the local model`, error);
+    const fallback = createLocalEmbeddingProvider();
+    return { provider: fallback, vectors: await fallback.embed(texts) };
   }
-
-  return content;
 }
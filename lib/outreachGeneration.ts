@@ -0,0 +1,117 @@
+import { generateSkillsMatrix } from './analysisService';
+import { hashContent } from './contentHash';
+import { describeGeneration, resolveGenerationSettings } from './generation';
+import { completeWithRepair } from './modelOutput';
+import { describeLanguage } from './languageDetection';
+import { getActiveModel } from './openai';
+import { OUTREACH_PROMPT_VERSION, buildOutreachPrompt, parseOutreachResponse, type OutreachMaterial } from './outreachPrompt';
+import { describeRedaction, prepareRedaction, redactText } from './redaction';
+import { buildCacheKey, withResponseCache } from './responseCache';
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  OutreachRequest,
+  OutreachResponse,
+  RedactionEntity,
+  SkillsMatrixResponse
+} from './types';
+
+/** Only the best-supported skills matrix categories are offered, to keep the prompt focused. */
+const MAX_SKILL_CATEGORIES = 6;
+
+/** Picks the resume-backed strengths and skills evidence a draft may draw on. */
+export function collectOutreachMaterial(
+  analysis: AnalysisResponse,
+  skillsMatrix: SkillsMatrixResponse | undefined
+): OutreachMaterial {
+  const strengths = analysis.strengths.map((claim, index) => ({
+    claim,
+    quotes: (analysis.citations?.strengths[index] ?? [])
+      .filter((citation) => citation.source === 'resume')
+      .map((citation) => citation.quote)
+  }));
+  const skills = (skillsMatrix?.categories ?? [])
+    .filter((entry) => entry.experienceEvidence || entry.evidenceCitations?.length)
+    .sort((a, b) => b.matchScore * b.jobEmphasis - a.matchScore * a.jobEmphasis)
+    .slice(0, MAX_SKILL_CATEGORIES)
+    .map((entry) => ({
+      category: entry.category,
+      matchScore: entry.matchScore,
+      evidence: entry.experienceEvidence,
+      quotes: (entry.evidenceCitations ?? []).map((citation) => citation.quote)
+    }));
+  return { strengths, skills };
+}
+
+function redactMaterial({ strengths, skills }: OutreachMaterial, entities: RedactionEntity[]): OutreachMaterial {
+  const redact = (text: string) => redactText(text, entities);
+  return {
+    strengths: strengths.map(({ claim, quotes }) => ({ claim: redact(claim), quotes: quotes.map(redact) })),
+    skills: skills.map((skill) => ({
+      ...skill,
+      category: redact(skill.category),
+      evidence: skill.evidence && redact(skill.evidence),
+      quotes: skill.quotes.map(redact)
+    }))
+  };
+}
+
+/** The skills matrix for the same inputs, usually served from the cache; drafts are still written without one. */
+async function loadSkillsMatrix(request: AnalysisRequest): Promise<SkillsMatrixResponse | undefined> {
+  try {
+    const { value } = await generateSkillsMatrix(request, { saveHistory: false });
+    return value;
+  } catch (error) {
+    console.error('Skills matrix unavailable for outreach draft', error);
+    return undefined;
+  }
+}
+
+/**
+ * Drafts a cover letter (candidate mode) or recruiter outreach message from an analysis's cited strengths and the
+ * skills matrix evidence. Every claim in the draft is verified against the resume or job description; see
+ * `parseOutreachResponse`.
+ */
+export async function generateOutreach(
+  { analysis, skillsMatrix, mode, tone = 'professional', length = 'medium', ...request }: OutreachRequest,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<OutreachResponse> {
+  const style = { mode, tone, length };
+  const material = collectOutreachMaterial(analysis, skillsMatrix ?? (await loadSkillsMatrix(request)));
+  const generation = resolveGenerationSettings(request.generationProfile);
+  const cacheKey = buildCacheKey({
+    namespace: 'outreach',
+    promptVersion: OUTREACH_PROMPT_VERSION,
+    model: getActiveModel(),
+    resumeText: request.resumeText,
+    jobDescription: request.jobDescription,
+    variant: [
+      describeGeneration(generation, 1),
+      describeRedaction(request),
+      describeLanguage(request.outputLanguage),
+      `style=${mode};${tone};${length}`,
+      `material=${hashContent(JSON.stringify(material))}`
+    ].join('|')
+  });
+
+  const { value } = await withResponseCache(cacheKey, refresh, async () => {
+    const redaction = prepareRedaction(request);
+    const { redacted, sources } = redaction;
+    // Outside blind review the analysis has personal details restored; the model must not see them.
+    const messages = buildOutreachPrompt(
+      redacted,
+      redactMaterial(material, redacted.entities),
+      style,
+      request.outputLanguage
+    );
+    const { value: draft } = await completeWithRepair(
+      messages,
+      (content) => parseOutreachResponse(redaction.revealCompletion(content), sources, style),
+      { generation }
+    );
+    return redaction.blind
+      ? { ...draft, redactedDocuments: { resumeText: redacted.resumeText, jobDescription: request.jobDescription } }
+      : draft;
+  });
+  return value;
+}
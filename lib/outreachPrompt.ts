@@ -0,0 +1,248 @@
+import { checkNullableString, formatIssue, parseJsonObject, type ParseResult, type ValidationIssue } from './modelOutput';
+import { createEvidenceLocator, readCitations, type EvidenceSources } from './evidence';
+import { buildJobContextSection } from './jobDescriptionParser';
+import { buildLanguageSection } from './languageDetection';
+import type {
+  AzureOpenAIChatMessage,
+  LanguageCode,
+  OutreachClaim,
+  OutreachLength,
+  OutreachMode,
+  OutreachResponse,
+  OutreachSentence,
+  OutreachTone
+} from './types';
+
+/** Bump whenever the prompt or schema changes so cached responses are not reused across versions. */
+export const OUTREACH_PROMPT_VERSION = 'outreach-v2';
+
+export const OUTREACH_MODES: OutreachMode[] = ['cover-letter', 'recruiter-outreach'];
+export const OUTREACH_TONES: OutreachTone[] = ['professional', 'friendly', 'enthusiastic'];
+export const OUTREACH_LENGTHS: OutreachLength[] = ['short', 'medium', 'long'];
+
+/** Target word counts; outreach messages are read on a phone, so they run much shorter than cover letters. */
+const WORD_TARGETS: Record<OutreachMode, Record<OutreachLength, number>> = {
+  'cover-letter': { short: 150, medium: 250, long: 400 },
+  'recruiter-outreach': { short: 60, medium: 110, long: 180 }
+};
+/** Drafts longer than the target by this factor are sent back for shortening. */
+const MAX_LENGTH_FACTOR = 1.5;
+
+const MODE_INSTRUCTIONS: Record<OutreachMode, string> = {
+  'cover-letter':
+    "Write a cover letter in the candidate's own first-person voice, addressed to the hiring team. Open with the role, connect the candidate's strongest verified experience to the job's main requirements, and close with a call to action. Set \"subject\" to null.",
+  'recruiter-outreach':
+    "Write a personalized recruiter outreach message (for example a LinkedIn InMail) in the recruiter's voice, addressed to the candidate. Mention specific experience from their resume and why it fits the role, and end with a low-pressure invitation to talk. Set \"subject\" to a subject line of at most 8 words."
+};
+
+const TONE_INSTRUCTIONS: Record<OutreachTone, string> = {
+  professional: 'polished and professional',
+  friendly: 'warm and conversational',
+  enthusiastic: 'energetic and enthusiastic, without hyperbole'
+};
+
+const OUTPUT_SCHEMA = `{
+  "subject": string | null,
+  "paragraphs": [
+    [
+      {
+        "text": string (one sentence),
+        "claim": "candidate" | "role" | null,
+        "evidence": string[] (1-2 verbatim quotes: from the resume for candidate claims, from the job description for role claims; [] when claim is null)
+      }
+    ]
+  ]
+}`;
+
+const CLAIM_ALIASES: Record<string, Exclude<OutreachClaim, null>> = {
+  candidate: 'candidate',
+  resume: 'candidate',
+  experience: 'candidate',
+  role: 'role',
+  job: 'role',
+  jobdescription: 'role',
+  company: 'role'
+};
+
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+/** Evidence from the analysis and skills matrix, already verified against the resume. */
+export interface OutreachMaterial {
+  strengths: Array<{ claim: string; quotes: string[] }>;
+  skills: Array<{ category: string; matchScore: number; evidence?: string; quotes: string[] }>;
+}
+
+export interface OutreachStyle {
+  mode: OutreachMode;
+  tone: OutreachTone;
+  length: OutreachLength;
+}
+
+function formatQuotes(quotes: string[]) {
+  return quotes.length ? ` (resume: ${quotes.map((quote) => `"${quote}"`).join('; ')})` : '';
+}
+
+function buildMaterialSection({ strengths, skills }: OutreachMaterial): string {
+  const strengthLines = strengths.map(({ claim, quotes }) => `- ${claim}${formatQuotes(quotes)}`);
+  const skillLines = skills.map(
+    ({ category, matchScore, evidence, quotes }) =>
+      `- ${category} (match ${matchScore}/100)${evidence ? `: ${evidence}` : ''}${formatQuotes(quotes)}`
+  );
+  return `\n\nStrengths from the fit analysis:\n${strengthLines.join('\n') || '- (none)'}\n\nSkills matrix evidence:\n${
+    skillLines.join('\n') || '- (none)'
+  }`;
+}
+
+export function buildOutreachPrompt(
+  { resumeText, jobDescription }: EvidenceSources,
+  material: OutreachMaterial,
+  { mode, tone, length }: OutreachStyle,
+  outputLanguage?: LanguageCode
+): AzureOpenAIChatMessage[] {
+  const trimmedResume = resumeText.trim();
+  const trimmedJob = jobDescription.trim();
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are an expert recruiting copywriter. Respond ONLY with valid JSON that matches the provided schema. Every statement about the candidate must be supported by their resume; never invent experience, employers, metrics, or credentials.'
+    },
+    {
+      role: 'user',
+      content: `${MODE_INSTRUCTIONS[mode]} Return a JSON object that follows this schema:\n${OUTPUT_SCHEMA}\n\nGuidance:\n- Tone: ${TONE_INSTRUCTIONS[tone]}. Length: about ${WORD_TARGETS[mode][length]} words in total.\n- Build the message from the strengths and skills evidence below, which were already verified against the resume; prefer the strongest matches for the job's must-have requirements.\n- Split the message into paragraphs of sentences. Mark each sentence's "claim": "candidate" when it states anything about the candidate's experience, skills, or achievements; "role" when it states something about the job or company; null only for greetings, transitions, and sign-offs.\n- Back every candidate claim with quotes copied exactly from the resume, and every role claim with quotes copied exactly from the job description. Quotes are checked against the documents, and sentences whose quotes cannot be found are removed from the message.\n- Bracketed placeholders such as [CANDIDATE_NAME] stand in for redacted personal details; copy them unchanged (e.g. to address or sign the message) and never guess what they hide.${buildMaterialSection(
+        material
+      )}\n\nJob Description:\n"""\n${trimmedJob}\n"""${buildJobContextSection(trimmedJob)}\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""${buildLanguageSection(
+        trimmedResume,
+        trimmedJob,
+        outputLanguage
+      )}`
+    }
+  ];
+}
+
+function normalizeString(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/** Unknown claim labels count as candidate claims, the strictest reading. */
+function normalizeClaim(value: unknown, path: string, issues: ValidationIssue[]): OutreachClaim {
+  if (value === null || value === undefined || value === false || value === 'none') {
+    return null;
+  }
+  const claim = typeof value === 'string' ? CLAIM_ALIASES[value.toLowerCase().replace(/[^a-z]/g, '')] : undefined;
+  if (!claim) {
+    issues.push({
+      path,
+      message: `expected "candidate", "role" or null, got ${JSON.stringify(value)}; treated as "candidate"`,
+      fatal: false
+    });
+    return 'candidate';
+  }
+  return claim;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Validates an outreach completion. Candidate claims must cite the resume and role claims the job description;
+ * claims without a verified quote are removed from the draft (and reported, so a repair turn can fix them), as are
+ * unmarked sentences that mention numbers found in neither document.
+ */
+export function parseOutreachResponse(
+  content: string,
+  sources: EvidenceSources,
+  { mode, tone, length }: OutreachStyle
+): ParseResult<OutreachResponse> {
+  const issues: ValidationIssue[] = [];
+  const data = parseJsonObject(content, issues);
+  if (!data) {
+    return { value: null, issues };
+  }
+  if (!Array.isArray(data.paragraphs)) {
+    issues.push({ path: 'paragraphs', message: 'expected an array of paragraphs', fatal: true });
+    return { value: null, issues };
+  }
+
+  const locator = createEvidenceLocator(sources);
+  const droppedClaims: string[] = [];
+  const paragraphs = data.paragraphs
+    .map((paragraph, paragraphIndex) => {
+      const paragraphPath = `paragraphs[${paragraphIndex}]`;
+      if (!Array.isArray(paragraph)) {
+        issues.push({ path: paragraphPath, message: 'expected an array of sentence objects; dropped', fatal: false });
+        return [];
+      }
+      return paragraph
+        .map((raw, sentenceIndex): OutreachSentence | null => {
+          const path = `${paragraphPath}[${sentenceIndex}]`;
+          const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+          const text = normalizeString(entry.text);
+          if (!text) {
+            issues.push({ path: `${path}.text`, message: 'missing or empty; dropped', fatal: false });
+            return null;
+          }
+
+          const claim = normalizeClaim(entry.claim, `${path}.claim`, issues);
+          if (!claim) {
+            const unsupported = (text.match(NUMBER_PATTERN) ?? []).filter(
+              (number) => !sources.resumeText.includes(number) && !sources.jobDescription.includes(number)
+            );
+            if (unsupported.length) {
+              issues.push({
+                path: `${path}.claim`,
+                message: `mentions ${unsupported.join(', ')}, found in neither document, without marking a claim; dropped`,
+                fatal: false
+              });
+              droppedClaims.push(text);
+              return null;
+            }
+            return { text, claim, citations: [] };
+          }
+
+          const source = claim === 'candidate' ? 'resume' : 'jobDescription';
+          const citations = readCitations(entry.evidence, `${path}.evidence`, issues, locator, source).filter(
+            (citation) => citation.source === source
+          );
+          if (!citations.length) {
+            issues.push({
+              path: `${path}.evidence`,
+              message: `no verified ${claim === 'candidate' ? 'resume' : 'job description'} quote backs this ${claim} claim; sentence dropped`,
+              fatal: false
+            });
+            droppedClaims.push(text);
+            return null;
+          }
+          return { text, claim, citations };
+        })
+        .filter((sentence): sentence is OutreachSentence => sentence !== null);
+    })
+    .filter((paragraph) => paragraph.length > 0);
+
+  if (!paragraphs.length) {
+    issues.push({ path: 'paragraphs', message: 'no sentences remained after verification', fatal: true });
+    return { value: null, issues };
+  }
+
+  checkNullableString(data.subject, 'subject', issues);
+  const subject = mode === 'recruiter-outreach' ? normalizeString(data.subject) ?? undefined : undefined;
+  if (mode === 'recruiter-outreach' && !subject) {
+    issues.push({ path: 'subject', message: 'missing; outreach messages need a subject line', fatal: false });
+  }
+
+  const text = paragraphs.map((sentences) => sentences.map((sentence) => sentence.text).join(' ')).join('\n\n');
+  const target = WORD_TARGETS[mode][length];
+  if (countWords(text) > target * MAX_LENGTH_FACTOR) {
+    issues.push({ path: 'paragraphs', message: `${countWords(text)} words; shorten to about ${target}`, fatal: false });
+  }
+
+  const value: OutreachResponse = { mode, tone, length, subject, paragraphs, text, droppedClaims };
+  if (issues.length) {
+    value.warnings = issues.map(formatIssue);
+  }
+  return { value, issues };
+}
@@ -1,16 +1,49 @@
-import type { AnalysisRequest, AnalysisResponse, AzureOpenAIChatMessage } from './types';
+import {
+  checkNullableString,
+  checkScore,
+  checkStringArray,
+  formatIssue,
+  parseJsonObject,
+  type ParseResult,
+  type ValidationIssue
+} from './modelOutput';
+import { createEvidenceLocator, readCitedClaims, type EvidenceSources } from './evidence';
+import { buildJobContextSection } from './jobDescriptionParser';
+import { buildKeywordBaselineSection } from './keywordScoring';
+import { buildLanguageSection } from './languageDetection';
+import { buildResumeContextSection } from './resumeParser';
+import { buildScoringInstructionsSection, getScoringTemplate } from './scoringTemplates';
+import { buildSemanticSimilaritySection } from './semanticSimilarity';
+import type { AnalysisRequest, AnalysisResponse, AzureOpenAIChatMessage, SemanticSimilarity } from './types';
+
+/** Bump whenever the prompt or schema changes so cached responses are not reused across versions. */
+export const ANALYSIS_PROMPT_VERSION = 'analysis-v10';
 
 const OUTPUT_SCHEMA = `{
   "fit_score": number (0-100),
   "fit_summary": string | null,
-  "strengths": string[] (minimum 3 items),
-  "weaknesses": string[] (minimum 3 items),
+  "strengths": [{ "claim": string, "evidence": [{ "source": "resume" | "job_description", "quote": string }] }] (minimum 3 items),
+  "weaknesses": [{ "claim": string, "evidence": [{ "source": "resume" | "job_description", "quote": string }] }] (minimum 3 items),
   "recommendations": string[] (minimum 3 items),
   "recruiter_questions": string[] (minimum 3 items),
   "candidate_questions": string[] (minimum 3 items)
 }`;
 
-export function buildAnalysisPrompt({ resumeText, jobDescription }: AnalysisRequest): AzureOpenAIChatMessage[] {
+const LIST_FIELDS = [
+  'recommendations',
+  'recruiter_questions',
+  'candidate_questions'
+] as const;
+
+export interface AnalysisGrounding {
+  /** Precomputed because embedding is asynchronous; omitted from the prompt when absent. */
+  semanticSimilarity?: SemanticSimilarity | null;
+}
+
+export function buildAnalysisPrompt(
+  { resumeText, jobDescription, scoringTemplate, outputLanguage }: AnalysisRequest,
+  { semanticSimilarity }: AnalysisGrounding = {}
+): AzureOpenAIChatMessage[] {
   const trimmedResume = resumeText.trim();
   const trimmedJob = jobDescription.trim();
 
@@ -22,38 +55,87 @@ export function buildAnalysisPrompt({ resumeText, jobDescription }: AnalysisRequ
     },
     {
       role: 'user',
-      content: `Analyze the following candidate information and job description. Return a JSON object that follows this schema:\n${OUTPUT_SCHEMA}\n\nGuidance:\n- Strengths should be concise bullet statements showing clear alignment or superior experience.\n- Weaknesses should call out missing skills, limited experience, or unclear evidence compared to the job requirements.\n- Recommendations must be framed as specific next steps the candidate can take to improve fit.\n- Fit summary should be a single sentence synthesizing the overall alignment; if you cannot provide one, return null.\n\nJob Description:\n"""\n${trimmedJob}\n"""\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""`
+      content: `Analyze the following candidate information and job description. Return a JSON object that follows this schema:\n${OUTPUT_SCHEMA}\n\nGuidance:\n- Strengths should be concise bullet statements showing clear alignment or superior experience.\n- Weaknesses should call out missing skills, limited experience, or unclear evidence compared to the job requirements.\n- Back every strength and weakness with 1-3 "evidence" quotes copied verbatim (under 200 characters each) from the resume or job description: strengths cite the resume passage that demonstrates them, weaknesses cite the job description requirement that is not met. Quotes are checked against the documents and dropped if they do not appear exactly.\n- Recommendations must be framed as specific next steps the candidate can take to improve fit.\n- Fit summary should be a single sentence synthesizing the overall alignment; if you cannot provide one, return null.\n- When structured job requirements are provided, weigh must-have requirements most heavily in fit_score and cite requirement IDs in brackets (e.g. [R2]) in strengths and weaknesses.\n- A keyword coverage baseline may be provided; use its missing terms to check for gaps, but judge depth and equivalent experience yourself rather than copying the baseline into fit_score.\n- Semantic similarity scores may be provided; treat low scores on must-have requirements as likely gaps to verify against the resume text.\n- Bracketed placeholders such as [CANDIDATE_NAME] or [EMAIL_1] stand in for redacted personal details. Copy them unchanged, never guess what they hide, and do not let them affect the assessment.\n\nJob Description:\n"""\n${trimmedJob}\n"""${buildJobContextSection(trimmedJob)}\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""${buildResumeContextSection(trimmedResume)}${buildKeywordBaselineSection(trimmedResume, trimmedJob)}${buildSemanticSimilaritySection(semanticSimilarity)}${buildScoringInstructionsSection(getScoringTemplate(scoringTemplate))}${buildLanguageSection(trimmedResume, trimmedJob, outputLanguage)}`
     }
   ];
 }
 
-export function parseModelResponse(content: string): AnalysisResponse {
-  const jsonPayload = extractJson(content);
-  const data = JSON.parse(jsonPayload);
+/**
+ * Validates an analysis completion. Evidence quotes are located in `sources` (the texts the prompt was built from) and
+ * returned as offsets; quotes that do not appear there are dropped with a warning.
+ */
+export function parseModelResponse(content: string, sources: EvidenceSources): ParseResult<AnalysisResponse> {
+  const issues: ValidationIssue[] = [];
+  const data = parseJsonObject(content, issues);
+  if (!data) {
+    return { value: null, issues };
+  }
+
+  checkScore(data.fit_score, 'fit_score', issues, true);
+  checkNullableString(data.fit_summary, 'fit_summary', issues);
+  for (const field of LIST_FIELDS) {
+    checkStringArray(data[field], field, issues, { minItems: 3 });
+  }
+  const locator = createEvidenceLocator(sources);
+  const strengths = readCitedClaims(data.strengths, 'strengths', issues, locator, { minItems: 3 });
+  const weaknesses = readCitedClaims(data.weaknesses, 'weaknesses', issues, locator, { minItems: 3 });
 
-  return {
+  if (issues.some((issue) => issue.fatal)) {
+    return { value: null, issues };
+  }
+
+  const value: AnalysisResponse = {
     fitScore: clampNumber(data.fit_score, 0, 100),
     fitSummary: normalizeString(data.fit_summary),
-    strengths: normalizeStringArray(data.strengths),
-    weaknesses: normalizeStringArray(data.weaknesses),
+    strengths: strengths.claims,
+    weaknesses: weaknesses.claims,
     recommendations: normalizeStringArray(data.recommendations),
     recruiterQuestions: normalizeStringArray(data.recruiter_questions),
-    candidateQuestions: normalizeStringArray(data.candidate_questions)
+    candidateQuestions: normalizeStringArray(data.candidate_questions),
+    citations: { strengths: strengths.citations, weaknesses: weaknesses.citations }
   };
+
+  if (issues.length) {
+    value.warnings = issues.map(formatIssue);
+  }
+
+  return { value, issues };
 }
 
-function extractJson(raw: string): string {
-  const jsonMatch = raw.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Model response did not contain valid JSON.');
+/**
+ * Normalizes a single top-level field received mid-stream. Full validation still runs on the complete response.
+ */
+export function parseAnalysisSection(key: string, value: unknown): Partial<AnalysisResponse> | null {
+  switch (key) {
+    case 'fit_score': {
+      const numericValue = typeof value === 'number' ? value : Number(value);
+      return value === null || Number.isNaN(numericValue) ? null : { fitScore: clampNumber(value, 0, 100) };
+    }
+    case 'fit_summary':
+      return { fitSummary: normalizeString(value) };
+    case 'strengths':
+      return { strengths: normalizeStringArray(value) };
+    case 'weaknesses':
+      return { weaknesses: normalizeStringArray(value) };
+    case 'recommendations':
+      return { recommendations: normalizeStringArray(value) };
+    case 'recruiter_questions':
+      return { recruiterQuestions: normalizeStringArray(value) };
+    case 'candidate_questions':
+      return { candidateQuestions: normalizeStringArray(value) };
+    default:
+      return null;
   }
-  return jsonMatch[0];
 }
 
+/** Also accepts `{ claim }` objects, so streamed strengths and weaknesses render before their evidence is verified. */
 function normalizeStringArray(value: unknown): string[] {
   if (Array.isArray(value)) {
     return value
-      .map((item) => (typeof item === 'string' ? item.trim() : ''))
+      .map((item) => {
+        const text = item && typeof item === 'object' ? (item as { claim?: unknown }).claim : item;
+        return typeof text === 'string' ? text.trim() : '';
+      })
       .filter((item) => item.length > 0);
   }
   if (typeof value === 'string') {
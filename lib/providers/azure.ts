@@ -0,0 +1,49 @@
+import { resolveGenerationSettings } from '../generation';
+import type { AzureOpenAIChatMessage, ChatCompletionOptions, ChatProvider } from '../types';
+import { postChatCompletion, streamChatCompletion } from './http';
+
+export function createAzureProvider(): ChatProvider {
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  const apiKey = process.env.AZURE_OPENAI_KEY;
+  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT;
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION ?? '2024-02-15-preview';
+
+  if (!endpoint || !apiKey || !deployment) {
+    throw new Error('Azure OpenAI credentials are not fully configured.');
+  }
+
+  const url = new URL(`/openai/deployments/${deployment}/chat/completions`, endpoint);
+  url.searchParams.set('api-version', apiVersion);
+
+  const buildBody = (messages: AzureOpenAIChatMessage[], { generation }: ChatCompletionOptions = {}) => {
+    const { temperature, topP, seed } = generation ?? resolveGenerationSettings();
+    return {
+      messages,
+      temperature,
+      top_p: topP,
+      seed,
+      max_completion_tokens: 5000,
+      n: 1
+    };
+  };
+
+  return {
+    name: 'azure',
+    model: deployment,
+    complete: (messages, options) =>
+      postChatCompletion({
+        url: url.toString(),
+        headers: { 'api-key': apiKey },
+        body: buildBody(messages, options),
+        label: 'Azure OpenAI'
+      }),
+    stream: (messages, options) =>
+      streamChatCompletion({
+        url: url.toString(),
+        headers: { 'api-key': apiKey },
+        body: buildBody(messages, options),
+        label: 'Azure OpenAI',
+        signal: options?.signal
+      })
+  };
+}
@@ -0,0 +1,86 @@
+import type { EmbeddingProvider } from '../types';
+import { postEmbeddings } from './http';
+import { createLocalEmbeddingProvider } from './localEmbedding';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+/** Typical cosine range of OpenAI `text-embedding-3` models for unrelated vs. closely matching passages. */
+const REMOTE_SIMILARITY_RANGE = { low: 0.15, high: 0.7 };
+
+export type EmbeddingProviderName = 'azure' | 'openai' | 'local';
+
+function createAzureEmbeddingProvider(): EmbeddingProvider {
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  const apiKey = process.env.AZURE_OPENAI_KEY;
+  const deployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION ?? '2024-02-15-preview';
+
+  if (!endpoint || !apiKey || !deployment) {
+    throw new Error('Azure OpenAI embedding deployment is not fully configured.');
+  }
+
+  const url = new URL(`/openai/deployments/${deployment}/embeddings`, endpoint);
+  url.searchParams.set('api-version', apiVersion);
+
+  return {
+    name: 'azure',
+    model: deployment,
+    similarityRange: REMOTE_SIMILARITY_RANGE,
+    embed: (texts) =>
+      postEmbeddings({
+        url: url.toString(),
+        headers: { 'api-key': apiKey },
+        body: { input: texts },
+        label: 'Azure OpenAI embeddings'
+      })
+  };
+}
+
+function createOpenAICompatibleEmbeddingProvider(): EmbeddingProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.OPENAI_API_KEY;
+  const model = process.env.OPENAI_EMBEDDING_MODEL;
+
+  if (!model) {
+    throw new Error('OPENAI_EMBEDDING_MODEL must be set when using the OpenAI-compatible embedding provider.');
+  }
+
+  return {
+    name: 'openai',
+    model,
+    similarityRange: REMOTE_SIMILARITY_RANGE,
+    embed: (texts) =>
+      postEmbeddings({
+        url: `${baseUrl}/embeddings`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: { model, input: texts },
+        label: 'OpenAI-compatible embeddings'
+      })
+  };
+}
+
+const PROVIDERS: Record<EmbeddingProviderName, () => EmbeddingProvider> = {
+  azure: createAzureEmbeddingProvider,
+  openai: createOpenAICompatibleEmbeddingProvider,
+  local: createLocalEmbeddingProvider
+};
+
+function defaultEmbeddingProviderName(): EmbeddingProviderName {
+  if (process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT) {
+    return 'azure';
+  }
+  return process.env.OPENAI_EMBEDDING_MODEL ? 'openai' : 'local';
+}
+
+/**
+ * Resolves `EMBEDDING_PROVIDER`, defaulting to whichever remote embedding model is configured and otherwise to the
+ * offline `local` model.
+ */
+export function resolveEmbeddingProvider(name = process.env.EMBEDDING_PROVIDER ?? defaultEmbeddingProviderName()) {
+  const factory = PROVIDERS[name.trim().toLowerCase() as EmbeddingProviderName];
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${name}". Expected one of: azure, openai, local.`);
+  }
+  return factory();
+}
+
+export { createLocalEmbeddingProvider };
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { AzureOpenAIChatMessage, ChatProvider } from '../types';
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/llm';
+const REPLAY_CHUNK_SIZE = 48;
+
+export function fixtureKey(messages: AzureOpenAIChatMessage[]): string {
+  const canonical = JSON.stringify(messages.map(({ role, content }) => ({ role, content })));
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 32);
+}
+
+async function readFixture(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf8');
+}
+
+/**
+ * Replays completions stored as `<fixtureKey>.txt` files. When a recorder is supplied, cache misses are forwarded to it
+ * and the live completion is written to disk so subsequent runs are fully offline and deterministic.
+ */
+export function createFixtureProvider(recorder?: ChatProvider): ChatProvider {
+  const fixtureDir = path.resolve(process.cwd(), process.env.LLM_FIXTURE_DIR ?? DEFAULT_FIXTURE_DIR);
+
+  const fixturePath = (messages: AzureOpenAIChatMessage[]) => path.join(fixtureDir, `${fixtureKey(messages)}.txt`);
+
+  const requireRecorder = (filePath: string): ChatProvider => {
+    if (!recorder) {
+      throw new Error(`No LLM fixture found at ${filePath}. Set LLM_FIXTURE_RECORD to capture one.`);
+    }
+    return recorder;
+  };
+
+  return {
+    name: 'fixture',
+    model: recorder ? `fixture:${recorder.model}` : 'fixture',
+    complete: async (messages, options) => {
+      const filePath = fixturePath(messages);
+      const fixture = await readFixture(filePath);
+      if (fixture !== null) {
+        return fixture;
+      }
+
+      const content = await requireRecorder(filePath).complete(messages, options);
+      await writeFixture(filePath, content);
+      return content;
+    },
+    stream: async function* (messages, options) {
+      const filePath = fixturePath(messages);
+      const fixture = await readFixture(filePath);
+      if (fixture !== null) {
+        for (let offset = 0; offset < fixture.length; offset += REPLAY_CHUNK_SIZE) {
+          yield fixture.slice(offset, offset + REPLAY_CHUNK_SIZE);
+        }
+        return;
+      }
+
+      let content = '';
+      for await (const delta of requireRecorder(filePath).stream(messages, options)) {
+        content += delta;
+        yield delta;
+      }
+      await writeFixture(filePath, content);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import type { AzureOpenAIChatMessage } from '../types';
+
+interface ChatCompletionsResponse {
+  choices?: Array<{
+    message?: {
+      content?: string;
+    };
+  }>;
+}
+
+interface PostChatCompletionOptions {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown> & { messages: AzureOpenAIChatMessage[] };
+  label: string;
+}
+
+export async function postChatCompletion({
+  url,
+  headers,
+  body,
+  label
+}: PostChatCompletionOptions): Promise<string> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`${label} request failed: ${response.status} ${response.statusText} - ${errorBody}`);
+  }
+
+  const data = (await response.json()) as ChatCompletionsResponse;
+  const [choice] = data.choices ?? [];
+  const content = choice?.message?.content;
+
+  if (!content) {
+    throw new Error(`${label} returned an empty response.`);
+  }
+
+  return content;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+/**
+ * Posts a `stream: true` chat completion request and yields content deltas parsed from the server-sent event stream.
+ */
+export async function* streamChatCompletion({
+  url,
+  headers,
+  body,
+  label,
+  signal
+}: PostChatCompletionOptions & { signal?: AbortSignal }): AsyncGenerator<string> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    const errorBody = await response.text();
+    throw new Error(`${label} request failed: ${response.status} ${response.statusText} - ${errorBody}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex >= 0) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const payload = line.slice('data:'.length).trim();
+        if (payload === '[DONE]') {
+          return;
+        }
+
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface EmbeddingsResponse {
+  data?: Array<{
+    index?: number;
+    embedding?: number[];
+  }>;
+}
+
+interface PostEmbeddingsOptions {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown> & { input: string[] };
+  label: string;
+}
+
+/** Posts an `/embeddings` request and returns one vector per input, in input order. */
+export async function postEmbeddings({ url, headers, body, label }: PostEmbeddingsOptions): Promise<number[][]> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`${label} request failed: ${response.status} ${response.statusText} - ${errorBody}`);
+  }
+
+  const data = (await response.json()) as EmbeddingsResponse;
+  const vectors = (data.data ?? [])
+    .slice()
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((item) => item.embedding ?? []);
+
+  if (vectors.length !== body.input.length || vectors.some((vector) => !vector.length)) {
+    throw new Error(`${label} returned ${vectors.length} embeddings for ${body.input.length} inputs.`);
+  }
+
+  return vectors;
+}
@@ -0,0 +1,30 @@
+import type { ChatProvider } from '../types';
+import { createAzureProvider } from './azure';
+import { createFixtureProvider } from './fixture';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export type ProviderName = 'azure' | 'openai' | 'fixture';
+
+const LIVE_PROVIDERS: Record<Exclude<ProviderName, 'fixture'>, () => ChatProvider> = {
+  azure: createAzureProvider,
+  openai: createOpenAICompatibleProvider
+};
+
+export function resolveChatProvider(name = process.env.LLM_PROVIDER ?? 'azure'): ChatProvider {
+  const key = name.trim().toLowerCase();
+
+  if (key === 'fixture') {
+    const recordWith = process.env.LLM_FIXTURE_RECORD?.trim().toLowerCase();
+    return createFixtureProvider(recordWith ? resolveLiveProvider(recordWith) : undefined);
+  }
+
+  return resolveLiveProvider(key);
+}
+
+function resolveLiveProvider(key: string): ChatProvider {
+  const factory = LIVE_PROVIDERS[key as keyof typeof LIVE_PROVIDERS];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${key}". Expected one of: azure, openai, fixture.`);
+  }
+  return factory();
+}
@@ -0,0 +1,58 @@
+import { tokenize } from '../keywordScoring';
+import type { EmbeddingProvider } from '../types';
+
+const DIMENSIONS = 512;
+const TERM_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/** 32-bit FNV-1a; stable across runtimes so the same text always maps to the same vector. */
+function hash(value: string) {
+  let result = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    result ^= value.charCodeAt(index);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const hashed = hash(feature);
+  // The top bit picks the sign so colliding features tend to cancel out rather than accumulate.
+  vector[hashed % DIMENSIONS] += hashed & 0x80000000 ? -weight : weight;
+}
+
+function embedText(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  const terms = tokenize(text).map(({ term }) => term);
+
+  terms.forEach((term, index) => {
+    addFeature(vector, `t:${term}`, TERM_WEIGHT);
+    if (index > 0) {
+      addFeature(vector, `b:${terms[index - 1]} ${term}`, BIGRAM_WEIGHT);
+    }
+    // Character trigrams let related word forms ("analytics", "analyst") share some similarity.
+    if (!term.startsWith('skill:') && term.length > 3) {
+      const padded = `#${term}#`;
+      for (let start = 0; start + 3 <= padded.length; start += 1) {
+        addFeature(vector, `c:${padded.slice(start, start + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Offline embedding model: feature-hashed, synonym-aware terms, term bigrams, and character trigrams. Far weaker than
+ * a neural model but deterministic, instant, and dependency-free, so similarity scoring works in air-gapped setups.
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: `hashing-${DIMENSIONS}-v1`,
+    similarityRange: { low: 0.05, high: 0.55 },
+    embed: async (texts) => texts.map(embedText)
+  };
+}
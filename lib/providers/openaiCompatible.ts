@@ -0,0 +1,52 @@
+import { resolveGenerationSettings } from '../generation';
+import type { AzureOpenAIChatMessage, ChatCompletionOptions, ChatProvider } from '../types';
+import { postChatCompletion, streamChatCompletion } from './http';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Targets any server exposing the OpenAI `/chat/completions` contract: OpenAI itself, vLLM, Ollama, LM Studio, etc.
+ * Self-hosted servers usually ignore the bearer token, so `OPENAI_API_KEY` is optional.
+ */
+export function createOpenAICompatibleProvider(): ChatProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.OPENAI_API_KEY;
+  const model = process.env.OPENAI_MODEL;
+
+  if (!model) {
+    throw new Error('OPENAI_MODEL must be set when using the OpenAI-compatible provider.');
+  }
+
+  const buildBody = (messages: AzureOpenAIChatMessage[], { generation }: ChatCompletionOptions = {}) => {
+    const { temperature, topP, seed } = generation ?? resolveGenerationSettings();
+    return {
+      model,
+      messages,
+      temperature,
+      top_p: topP,
+      seed,
+      max_tokens: 5000,
+      n: 1
+    };
+  };
+
+  return {
+    name: 'openai',
+    model,
+    complete: (messages, options) =>
+      postChatCompletion({
+        url: `${baseUrl}/chat/completions`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: buildBody(messages, options),
+        label: 'OpenAI-compatible endpoint'
+      }),
+    stream: (messages, options) =>
+      streamChatCompletion({
+        url: `${baseUrl}/chat/completions`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: buildBody(messages, options),
+        label: 'OpenAI-compatible endpoint',
+        signal: options?.signal
+      })
+  };
+}
@@ -0,0 +1,118 @@
+import type { RadarChartData, SkillsMatrixResponse } from './types';
+
+const GRID_LEVELS = 5;
+const LABEL_FONT_SIZE = 11;
+
+/** Print-friendly counterparts of the on-screen radar colors. */
+const JOB_EMPHASIS_COLOR = '0d9488';
+const CANDIDATE_ALIGNMENT_COLOR = '4f46e5';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RadarLabel extends Point {
+  text: string;
+  /** Horizontal alignment relative to the point, so labels never overlap the chart. */
+  anchor: 'start' | 'middle' | 'end';
+}
+
+export interface RadarGeometry {
+  center: Point;
+  radius: number;
+  /** Concentric grid polygons, innermost first. */
+  grid: Point[][];
+  spokes: Point[];
+  series: Array<{ label: string; color: string; points: Point[] }>;
+  labels: RadarLabel[];
+}
+
+/** Same category order as the on-screen radar: job emphasis first, then candidate alignment, then match score. */
+export function buildRadarChartData({ categories }: SkillsMatrixResponse): RadarChartData {
+  const sorted = [...categories].sort(
+    (a, b) => b.jobEmphasis - a.jobEmphasis || b.candidateAlignment - a.candidateAlignment || b.matchScore - a.matchScore
+  );
+  return {
+    labels: sorted.map((entry) => entry.category),
+    series: [
+      { label: 'Job Emphasis', color: JOB_EMPHASIS_COLOR, values: sorted.map((entry) => entry.jobEmphasis) },
+      {
+        label: 'Candidate Alignment',
+        color: CANDIDATE_ALIGNMENT_COLOR,
+        values: sorted.map((entry) => entry.candidateAlignment)
+      }
+    ],
+    max: 100
+  };
+}
+
+/**
+ * Lays out a radar chart in a `size`×`size` box with y pointing down (SVG convention); the first axis points up and
+ * the rest follow clockwise. Renderers with y pointing up flip the coordinates themselves.
+ */
+export function layoutRadarChart(chart: RadarChartData, size: number): RadarGeometry {
+  const center = { x: size / 2, y: size / 2 };
+  const radius = size * 0.32;
+  const count = chart.labels.length;
+
+  const pointAt = (index: number, distance: number): Point => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * index) / count;
+    return { x: center.x + Math.cos(angle) * distance, y: center.y + Math.sin(angle) * distance };
+  };
+  const ring = (distance: number) => chart.labels.map((_, index) => pointAt(index, distance));
+  const clamp = (value: number) => Math.max(0, Math.min(chart.max, value));
+
+  return {
+    center,
+    radius,
+    grid: Array.from({ length: GRID_LEVELS }, (_, level) => ring((radius * (level + 1)) / GRID_LEVELS)),
+    spokes: ring(radius),
+    series: chart.series.map(({ label, color, values }) => ({
+      label,
+      color,
+      points: values.map((value, index) => pointAt(index, (radius * clamp(value)) / chart.max))
+    })),
+    labels: chart.labels.map((text, index) => {
+      const point = pointAt(index, radius + LABEL_FONT_SIZE);
+      const offset = point.x - center.x;
+      const anchor = Math.abs(offset) < 1 ? 'middle' : offset > 0 ? 'start' : 'end';
+      return { ...point, text, anchor };
+    })
+  };
+}
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const toPath = (points: Point[]) => points.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+/** Standalone SVG rendering of the chart, with a legend underneath. */
+export function renderRadarSvg(chart: RadarChartData, size = 480): string {
+  const geometry = layoutRadarChart(chart, size);
+  const legendY = size - 16;
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="Helvetica, Arial, sans-serif" font-size="${LABEL_FONT_SIZE}">`,
+    `<rect width="${size}" height="${size}" fill="#ffffff"/>`,
+    ...geometry.grid.map((ring) => `<polygon points="${toPath(ring)}" fill="none" stroke="#cbd5e1" stroke-width="1"/>`),
+    ...geometry.spokes.map(
+      ({ x, y }) =>
+        `<line x1="${geometry.center.x}" y1="${geometry.center.y}" x2="${x.toFixed(1)}" y2="${y.toFixed(1)}" stroke="#cbd5e1" stroke-width="1"/>`
+    ),
+    ...geometry.series.map(
+      ({ color, points }) =>
+        `<polygon points="${toPath(points)}" fill="#${color}" fill-opacity="0.2" stroke="#${color}" stroke-width="2"/>`
+    ),
+    ...geometry.labels.map(
+      ({ x, y, text, anchor }) =>
+        `<text x="${x.toFixed(1)}" y="${(y + LABEL_FONT_SIZE / 3).toFixed(1)}" text-anchor="${anchor}" fill="#334155">${escapeXml(text)}</text>`
+    ),
+    ...geometry.series.map(
+      ({ label, color }, index) =>
+        `<rect x="${16 + index * 170}" y="${legendY - 9}" width="10" height="10" fill="#${color}"/><text x="${32 + index * 170}" y="${legendY}" fill="#334155">${escapeXml(label)}</text>`
+    ),
+    '</svg>'
+  ];
+  return parts.join('');
+}
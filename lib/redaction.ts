@@ -0,0 +1,194 @@
+import type { EvidenceSources } from './evidence';
+import { parseResume } from './resumeParser';
+import type { AnalysisRequest, PiiKind, RedactedDocuments, RedactionEntity } from './types';
+
+/** Kinds restored in non-blind responses; protected attributes (age, gender, ...) never reappear in assessments. */
+const REHYDRATED_KINDS: PiiKind[] = ['name', 'email', 'phone', 'url', 'address', 'location'];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s)\]]+|\b(?:linkedin\.com|github\.com|gitlab\.com)\/[^\s)\]]+/gi;
+const PHONE_PATTERN = /(?<![\d.,])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b(?![.,]\d)/g;
+/** A leading `+`, an area code in parentheses, or digit groups split by separators; a bare digit run is a metric. */
+const PHONE_STRUCTURE = /^\+|\(|\d[\s.-]\d/;
+/** Thousands grouping such as "100 000 000" or "250.000.000", which `PHONE_PATTERN` would otherwise accept. */
+const GROUPED_NUMBER = /^\d{1,3}(?:([\s.])\d{3})(?:\1\d{3})+$/;
+const ADDRESS_PATTERN =
+  /\b\d{1,5}\s+(?:[A-Z][A-Za-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Terrace|Parkway)\b\.?(?:,?\s*(?:Apt|Suite|Unit)\.?\s*#?\w+)?/g;
+/** `Label: value` lines for attributes that must not influence screening. */
+const PERSONAL_FIELD_PATTERN =
+  /^([ \t]*(?:date of birth|birth ?date|d\.?o\.?b\.?|age|gender|sex|pronouns|marital status|nationality|religion|ethnicity|race|photo|picture)[ \t]*[:\-–][ \t]*)(\S.*)$/gim;
+const AGE_PATTERN = /\b\d{2}\s+years?\s+old\b|\bborn\s+(?:on\s+|in\s+)?(?:\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|(?:19|20)\d{2})\b/gi;
+const HONORIFIC_PATTERN = /\b(?:Mr|Mrs|Ms|Miss|Mx)\.?(?=\s+[A-Z])/g;
+/** Alt text or OCR captions of headshots, e.g. "[Photo of the candidate]". */
+const PHOTO_CAPTION_PATTERN = /^[ \t]*\[?(?:profile\s+)?(?:photo|image|picture|headshot)\b[^\n]*$/gim;
+const NAME_WORD = /^[A-Z][A-Za-z'.-]*$/;
+const FULL_NAME_LABEL = 'CANDIDATE_NAME';
+
+export interface Redaction extends RedactedDocuments {
+  entities: RedactionEntity[];
+}
+
+export interface RedactionContext {
+  /** Documents as sent to the model and embedding providers. */
+  redacted: Redaction;
+  /** Texts the response refers to: the redacted documents in blind review, the originals otherwise. */
+  sources: EvidenceSources;
+  blind: boolean;
+  /** Restores contact placeholders in a response value, unless in blind review. */
+  reveal<T>(value: T): T;
+  /** Same as `reveal`, for a raw JSON completion before it is parsed. */
+  revealCompletion(content: string): string;
+}
+
+export function isRedactionEnabled(): boolean {
+  return (process.env.PII_REDACTION ?? 'on').trim().toLowerCase() !== 'off';
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function createPlaceholderTable() {
+  const entities: RedactionEntity[] = [];
+  const counts: Record<string, number> = {};
+
+  const placeholderFor = (kind: PiiKind, value: string, label = kind.toUpperCase()) => {
+    const key = value.trim().toLowerCase();
+    const existing = entities.find((entity) => entity.kind === kind && entity.value.trim().toLowerCase() === key);
+    if (existing) {
+      return existing.placeholder;
+    }
+    counts[label] = (counts[label] ?? 0) + 1;
+    const placeholder = label === FULL_NAME_LABEL ? `[${FULL_NAME_LABEL}]` : `[${label}_${counts[label]}]`;
+    entities.push({ placeholder, kind, value: value.trim() });
+    return placeholder;
+  };
+
+  return { entities, placeholderFor };
+}
+
+/** The parsed contact name, when it looks like a personal name rather than a job title or heading. */
+function personalName(name: string | null): string | null {
+  return name && name.split(/\s+/).every((word) => NAME_WORD.test(word)) ? name : null;
+}
+
+export function detectCandidateName(resumeText: string): string | null {
+  return personalName(parseResume(resumeText).contact.name);
+}
+
+/**
+ * Replaces PII in the resume with stable placeholders: the candidate's name (in full and each part), email
+ * addresses, phone numbers, profile links, street addresses, the contact location, honorifics, photo captions, and
+ * labelled personal attributes such as date of birth, gender, or nationality. The job description is left as is.
+ */
+export function redactDocuments({ resumeText, jobDescription }: EvidenceSources): Redaction {
+  if (!isRedactionEnabled()) {
+    return { resumeText, jobDescription, entities: [] };
+  }
+
+  const { entities, placeholderFor } = createPlaceholderTable();
+  const { contact } = parseResume(resumeText);
+  const name = personalName(contact.name);
+  const location = contact.location;
+
+  let text = resumeText
+    .replace(PERSONAL_FIELD_PATTERN, (_, label: string, value: string) => `${label}${placeholderFor('personal', value, 'REDACTED')}`)
+    .replace(PHOTO_CAPTION_PATTERN, (match) => placeholderFor('personal', match, 'PHOTO'))
+    .replace(AGE_PATTERN, (match) => placeholderFor('personal', match, 'AGE'))
+    .replace(EMAIL_PATTERN, (match) => placeholderFor('email', match))
+    .replace(LINK_PATTERN, (match) => placeholderFor('url', match))
+    .replace(PHONE_PATTERN, (match) =>
+      match.replace(/\D/g, '').length >= 9 && PHONE_STRUCTURE.test(match) && !GROUPED_NUMBER.test(match)
+        ? placeholderFor('phone', match)
+        : match
+    )
+    .replace(ADDRESS_PATTERN, (match) => placeholderFor('address', match))
+    .replace(HONORIFIC_PATTERN, (match) => placeholderFor('personal', match, 'HONORIFIC'));
+
+  if (location) {
+    text = text.split(location).join(placeholderFor('location', location));
+  }
+  if (name) {
+    text = text.replace(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi'), placeholderFor('name', name, FULL_NAME_LABEL));
+    // Name parts get their own placeholders so re-hydrated quotes still match the original text, and are matched
+    // case-sensitively so first names like "Will" or "Grant" do not redact ordinary words.
+    name
+      .split(/\s+/)
+      .filter((part) => part.replace(/\W/g, '').length > 1)
+      .forEach((part) => {
+        text = text.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, 'g'), placeholderFor('name', part));
+      });
+  }
+
+  return { resumeText: text, jobDescription, entities };
+}
+
+export function rehydrateText(text: string, entities: RedactionEntity[]): string {
+  return entities
+    .filter((entity) => REHYDRATED_KINDS.includes(entity.kind))
+    .reduce((result, entity) => result.split(entity.placeholder).join(entity.value), text);
+}
+
+/** Restores placeholders in every string of a JSON-like value. */
+export function rehydrateValue<T>(value: T, entities: RedactionEntity[]): T {
+  if (!entities.length) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return rehydrateText(value, entities) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => rehydrateValue(item, entities)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).reduce(
+      (result, key) => ({ ...result, [key]: rehydrateValue((value as Record<string, unknown>)[key], entities) }),
+      {} as T
+    );
+  }
+  return value;
+}
+
+/**
+ * Replaces known personal details with their placeholders in other text, such as a re-hydrated analysis fed back into
+ * a prompt. Longer values go first so a full name is not split by one of its parts; names only match whole words.
+ */
+export function redactText(text: string, entities: RedactionEntity[]): string {
+  return entities
+    .slice()
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce(
+      (result, entity) =>
+        entity.kind === 'name'
+          ? result.replace(new RegExp(`\\b${escapeRegExp(entity.value)}\\b`, 'g'), entity.placeholder)
+          : result.split(entity.value).join(entity.placeholder),
+      text
+    );
+}
+
+/** Restores placeholders inside a raw JSON completion, escaping values so the JSON stays valid. */
+function rehydrateCompletion(content: string, entities: RedactionEntity[]): string {
+  const escaped = entities.map((entity) => ({ ...entity, value: JSON.stringify(entity.value).slice(1, -1) }));
+  return rehydrateText(content, escaped);
+}
+
+/**
+ * Redacts a request's documents and decides what the response refers to. Outside blind review, model output is
+ * re-hydrated before validation so evidence quotes are located in (and index into) the original text.
+ */
+export function prepareRedaction(request: AnalysisRequest): RedactionContext {
+  const redacted = redactDocuments(request);
+  const blind = Boolean(request.blindReview);
+  return {
+    redacted,
+    sources: blind ? redacted : { resumeText: request.resumeText, jobDescription: request.jobDescription },
+    blind,
+    reveal: (value) => (blind ? value : rehydrateValue(value, redacted.entities)),
+    revealCompletion: (content) => (blind ? content : rehydrateCompletion(content, redacted.entities))
+  };
+}
+
+/** Cache key variant: redaction changes the prompt, and blind review changes the response. */
+export function describeRedaction(request: AnalysisRequest): string {
+  return `redaction=${isRedactionEnabled() ? 'on' : 'off'};blind=${request.blindReview ? 1 : 0}`;
+}
@@ -0,0 +1,207 @@
+import { createZipArchive } from './zipArchive';
+import type { RadarChartData, ReportBlock } from './types';
+
+/** A4 with 2 cm margins, in twentieths of a point. */
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const NUMERIC_COLUMN_WIDTH = 1100;
+
+/** Chart frame size in EMUs (15 × 11 cm). */
+const CHART_WIDTH = 5400000;
+const CHART_HEIGHT = 3960000;
+const CHART_RELATIONSHIP_ID = 'rIdChart1';
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  c: 'http://schemas.openxmlformats.org/drawingml/2006/chart'
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/** Escapes markup and drops control characters that XML 1.0 does not allow. */
+function escapeXml(value: string) {
+  return value
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function run(text: string, bold = false) {
+  const lines = text.split('\n').map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}${lines.join('<w:br/>')}</w:r>`;
+}
+
+function paragraph(content: string, properties = '') {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function table(columns: string[], rows: string[][], numeric: boolean[] = []) {
+  const weights = columns.map((column, index) =>
+    numeric[index] ? 0 : Math.min(40, Math.max(8, column.length, ...rows.map((row) => (row[index] ?? '').length)))
+  );
+  const textWidth = CONTENT_WIDTH - NUMERIC_COLUMN_WIDTH * numeric.filter(Boolean).length;
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const widths = columns.map((_, index) =>
+    numeric[index] ? NUMERIC_COLUMN_WIDTH : Math.round((textWidth * weights[index]) / totalWeight)
+  );
+
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`;
+  const cell = (text: string, index: number, isHeader: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${widths[index]}" w:type="dxa"/>${
+      isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : ''
+    }</w:tcPr>${paragraph(run(text, isHeader), `<w:spacing w:after="0"/>${numeric[index] ? '<w:jc w:val="right"/>' : ''}`)}</w:tc>`;
+
+  return [
+    '<w:tbl>',
+    `<w:tblPr><w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${[
+      'top',
+      'left',
+      'bottom',
+      'right',
+      'insideH',
+      'insideV'
+    ]
+      .map(border)
+      .join('')}</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>`,
+    `<w:tblGrid>${widths.map((width) => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>`,
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${columns.map((column, index) => cell(column, index, true)).join('')}</w:tr>`,
+    ...rows.map(
+      (row) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${columns.map((_, index) => cell(row[index] ?? '', index, false)).join('')}</w:tr>`
+    ),
+    '</w:tbl>',
+    // Keeps consecutive tables apart and gives Word a paragraph to anchor the following content.
+    paragraph('', '<w:spacing w:after="0"/>')
+  ].join('');
+}
+
+function chartDrawing() {
+  return paragraph(
+    `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${CHART_WIDTH}" cy="${CHART_HEIGHT}"/><wp:docPr id="1" name="Skills radar chart"/><a:graphic><a:graphicData uri="${NS.c}"><c:chart r:id="${CHART_RELATIONSHIP_ID}"/></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`,
+    '<w:jc w:val="center"/>'
+  );
+}
+
+/** A native Word radar chart whose data lives inline (literal caches), so it renders without an embedded workbook. */
+function renderChartXml(chart: RadarChartData) {
+  const count = chart.labels.length;
+  const categories = `<c:cat><c:strLit><c:ptCount val="${count}"/>${chart.labels
+    .map((label, index) => `<c:pt idx="${index}"><c:v>${escapeXml(label)}</c:v></c:pt>`)
+    .join('')}</c:strLit></c:cat>`;
+  const series = chart.series
+    .map(
+      ({ label, color, values }, index) =>
+        `<c:ser><c:idx val="${index}"/><c:order val="${index}"/><c:tx><c:v>${escapeXml(
+          label
+        )}</c:v></c:tx><c:spPr><a:ln w="25400"><a:solidFill><a:srgbClr val="${color.toUpperCase()}"/></a:solidFill></a:ln></c:spPr><c:marker><c:symbol val="none"/></c:marker>${categories}<c:val><c:numLit><c:formatCode>General</c:formatCode><c:ptCount val="${count}"/>${values
+          .map((value, pointIndex) => `<c:pt idx="${pointIndex}"><c:v>${value}</c:v></c:pt>`)
+          .join('')}</c:numLit></c:val></c:ser>`
+    )
+    .join('');
+
+  return [
+    XML_DECLARATION,
+    `<c:chartSpace xmlns:c="${NS.c}" xmlns:a="${NS.a}" xmlns:r="${NS.r}">`,
+    '<c:roundedCorners val="0"/>',
+    '<c:chart><c:autoTitleDeleted val="1"/><c:plotArea><c:layout/>',
+    `<c:radarChart><c:radarStyle val="marker"/><c:varyColors val="0"/>${series}<c:axId val="1001"/><c:axId val="1002"/></c:radarChart>`,
+    '<c:catAx><c:axId val="1001"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/><c:majorGridlines/><c:numFmt formatCode="General" sourceLinked="0"/><c:tickLblPos val="nextTo"/><c:crossAx val="1002"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/></c:catAx>',
+    `<c:valAx><c:axId val="1002"/><c:scaling><c:orientation val="minMax"/><c:max val="${chart.max}"/><c:min val="0"/></c:scaling><c:delete val="0"/><c:axPos val="l"/><c:majorGridlines/><c:numFmt formatCode="General" sourceLinked="0"/><c:majorTickMark val="cross"/><c:tickLblPos val="nextTo"/><c:crossAx val="1001"/><c:crosses val="autoZero"/><c:crossBetween val="between"/><c:majorUnit val="${chart.max / 5}"/></c:valAx>`,
+    '</c:plotArea><c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend><c:plotVisOnly val="1"/></c:chart>',
+    '</c:chartSpace>'
+  ].join('');
+}
+
+const STYLES_XML = [
+  XML_DECLARATION,
+  `<w:styles xmlns:w="${NS.w}">`,
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:color w:val="1E293B"/><w:sz w:val="21"/><w:szCs w:val="21"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="100" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>',
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="4" w:color="CBD5E1"/></w:pBdr><w:spacing w:after="200"/></w:pPr><w:rPr><w:b/><w:color w:val="0F172A"/><w:sz w:val="40"/><w:szCs w:val="40"/></w:rPr></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="280" w:after="80"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:color w:val="0F172A"/><w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:style>',
+  '</w:styles>'
+].join('');
+
+function contentTypesXml(hasChart: boolean) {
+  return [
+    XML_DECLARATION,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    hasChart
+      ? '<Override PartName="/word/charts/chart1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>'
+      : '',
+    '</Types>'
+  ].join('');
+}
+
+const PACKAGE_RELS_XML = [
+  XML_DECLARATION,
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+  '</Relationships>'
+].join('');
+
+function documentRelsXml(hasChart: boolean) {
+  return [
+    XML_DECLARATION,
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    hasChart
+      ? `<Relationship Id="${CHART_RELATIONSHIP_ID}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart" Target="charts/chart1.xml"/>`
+      : '',
+    '</Relationships>'
+  ].join('');
+}
+
+/** Renders report blocks as a Word document; the radar chart becomes an editable Word chart. Only one radar is supported. */
+export function renderDocx(blocks: ReportBlock[]): Buffer {
+  const radar = blocks.find((block): block is Extract<ReportBlock, { type: 'radar' }> => block.type === 'radar');
+
+  const body = blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'title':
+          return paragraph(run(block.text), '<w:pStyle w:val="Title"/>');
+        case 'heading':
+          return paragraph(run(block.text), '<w:pStyle w:val="Heading1"/>');
+        case 'paragraph':
+          return paragraph(run(block.text, block.emphasis));
+        case 'list':
+          return block.items
+            .map((item) =>
+              paragraph(`<w:r><w:t>•</w:t></w:r><w:r><w:tab/></w:r>${run(item)}`, '<w:ind w:left="360" w:hanging="360"/>')
+            )
+            .join('');
+        case 'table':
+          return table(block.columns, block.rows, block.numeric);
+        case 'radar':
+          return block === radar ? chartDrawing() : '';
+      }
+    })
+    .join('');
+
+  const documentXml = [
+    XML_DECLARATION,
+    `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:c="${NS.c}">`,
+    `<w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>`,
+    '</w:document>'
+  ].join('');
+
+  return createZipArchive([
+    { path: '[Content_Types].xml', content: contentTypesXml(Boolean(radar)) },
+    { path: '_rels/.rels', content: PACKAGE_RELS_XML },
+    { path: 'word/document.xml', content: documentXml },
+    { path: 'word/styles.xml', content: STYLES_XML },
+    { path: 'word/_rels/document.xml.rels', content: documentRelsXml(Boolean(radar)) },
+    ...(radar ? [{ path: 'word/charts/chart1.xml', content: renderChartXml(radar.chart) }] : [])
+  ]);
+}
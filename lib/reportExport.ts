@@ -0,0 +1,214 @@
+import { findMatchingSkillsMatrix, getHistoryRecord } from './historyStore';
+import { buildRadarChartData, renderRadarSvg } from './radarChart';
+import { renderDocx } from './reportDocx';
+import { renderPdf } from './reportPdf';
+import type { FitReport, ReportBlock, ReportFormat, SkillImportance, SkillsMatrixResponse } from './types';
+
+const REPORT_TITLE = 'Resume fit report';
+/** Identifies the JSON export layout; bump the version when its shape changes. */
+const JSON_SCHEMA = 'smartrecruit.fit-report/v1';
+/** A radar with fewer axes is a line or a point, so the chart is left out. */
+const MIN_RADAR_CATEGORIES = 3;
+
+const IMPORTANCE_LABELS: Record<SkillImportance, string> = {
+  core: 'Core',
+  complementary: 'Complementary',
+  bonus: 'Bonus'
+};
+
+export interface RenderedReport {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const FORMATS: Record<ReportFormat, { contentType: string; extension: string; render: (report: FitReport) => Buffer }> = {
+  pdf: {
+    contentType: 'application/pdf',
+    extension: 'pdf',
+    render: (report) => renderPdf(buildReportBlocks(report), REPORT_TITLE)
+  },
+  docx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+    render: (report) => renderDocx(buildReportBlocks(report))
+  },
+  markdown: {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    render: (report) => Buffer.from(renderMarkdown(buildReportBlocks(report)), 'utf8')
+  },
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+    render: (report) => Buffer.from(renderCanonicalJson(report), 'utf8')
+  }
+};
+
+export const REPORT_FORMATS = Object.keys(FORMATS) as ReportFormat[];
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && REPORT_FORMATS.indexOf(value as ReportFormat) !== -1;
+}
+
+const listSection = (heading: string, items: string[]): ReportBlock[] => [
+  { type: 'heading', text: heading },
+  items.length ? { type: 'list', items } : { type: 'paragraph', text: 'None noted.' }
+];
+
+/** Lays out the report once so every format presents the same sections in the same order. */
+export function buildReportBlocks({ generatedAt, analysis, skillsMatrix }: FitReport): ReportBlock[] {
+  const scoreDetails = [
+    analysis.keywordCoverage && `keyword baseline ${analysis.keywordCoverage.score}`,
+    analysis.semanticSimilarity && `semantic match ${analysis.semanticSimilarity.score}`,
+    analysis.scoreStability &&
+      `median of ${analysis.scoreStability.runs} runs, 95% band ${analysis.scoreStability.low}–${analysis.scoreStability.high}`,
+    analysis.scoreBreakdown &&
+      `weighted by the ${analysis.scoreBreakdown.templateLabel} template, model score ${analysis.scoreBreakdown.modelFitScore}`
+  ].filter((detail): detail is string => Boolean(detail));
+
+  const blocks: ReportBlock[] = [
+    { type: 'title', text: REPORT_TITLE },
+    { type: 'paragraph', text: `Generated ${generatedAt.slice(0, 16).replace('T', ' ')} UTC` },
+    { type: 'paragraph', text: `Fit score: ${analysis.fitScore}/100`, emphasis: true }
+  ];
+  if (scoreDetails.length) {
+    blocks.push({ type: 'paragraph', text: `${scoreDetails.join(' · ')}.`.replace(/^./, (char) => char.toUpperCase()) });
+  }
+  blocks.push({ type: 'heading', text: 'Summary' }, { type: 'paragraph', text: analysis.fitSummary || 'No summary provided.' });
+
+  if (analysis.scoreBreakdown && analysis.scoreBreakdown.categories.length) {
+    blocks.push(
+      { type: 'heading', text: `Fit score breakdown (${analysis.scoreBreakdown.templateLabel} template)` },
+      {
+        type: 'table',
+        columns: ['Category', 'Weight', 'Match', 'Points'],
+        rows: analysis.scoreBreakdown.categories.map((row) => [
+          row.missing ? `${row.category} (required, not found)` : row.category,
+          String(row.weight),
+          String(row.matchScore),
+          String(row.contribution)
+        ]),
+        numeric: [false, true, true, true]
+      }
+    );
+  }
+
+  blocks.push(
+    ...listSection('Strengths', analysis.strengths),
+    ...listSection('Gaps', analysis.weaknesses),
+    ...listSection('Recommendations', analysis.recommendations),
+    ...listSection('Recruiter questions', analysis.recruiterQuestions),
+    ...listSection('Candidate questions', analysis.candidateQuestions)
+  );
+
+  if (skillsMatrix && skillsMatrix.categories.length) {
+    blocks.push(...skillsMatrixBlocks(skillsMatrix));
+  }
+  return blocks;
+}
+
+function skillsMatrixBlocks(matrix: SkillsMatrixResponse): ReportBlock[] {
+  const chart = buildRadarChartData(matrix);
+  const blocks: ReportBlock[] = [{ type: 'heading', text: 'Skills matrix' }];
+  if (matrix.summary) {
+    blocks.push({ type: 'paragraph', text: matrix.summary });
+  }
+  blocks.push({
+    type: 'table',
+    columns: ['Category', 'Importance', 'Job emphasis', 'Candidate alignment', 'Match', 'Gap'],
+    rows: chart.labels.map((label) => {
+      const entry = matrix.categories.find((category) => category.category === label)!;
+      return [
+        entry.category,
+        IMPORTANCE_LABELS[entry.importance] ?? entry.importance,
+        String(entry.jobEmphasis),
+        String(entry.candidateAlignment),
+        String(entry.matchScore),
+        entry.gapReason ?? ''
+      ];
+    }),
+    numeric: [false, false, true, true, true, false]
+  });
+  if (chart.labels.length >= MIN_RADAR_CATEGORIES) {
+    blocks.push({ type: 'heading', text: 'Skills radar' }, { type: 'radar', chart });
+  }
+  return blocks;
+}
+
+const escapeMarkdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export function renderMarkdown(blocks: ReportBlock[]): string {
+  const sections = blocks.map((block) => {
+    switch (block.type) {
+      case 'title':
+        return `# ${block.text}`;
+      case 'heading':
+        return `## ${block.text}`;
+      case 'paragraph':
+        return block.emphasis ? `**${block.text}**` : block.text;
+      case 'list':
+        return block.items.map((item) => `- ${item.replace(/\n/g, ' ')}`).join('\n');
+      case 'table': {
+        const row = (cells: string[]) => `| ${cells.map(escapeMarkdownCell).join(' | ')} |`;
+        const divider = `| ${block.columns.map((_, index) => (block.numeric?.[index] ? '---:' : '---')).join(' | ')} |`;
+        return [row(block.columns), divider, ...block.rows.map(row)].join('\n');
+      }
+      case 'radar': {
+        // Inlined so the Markdown file stays self-contained.
+        const svg = Buffer.from(renderRadarSvg(block.chart), 'utf8').toString('base64');
+        return `![Skills radar chart](data:image/svg+xml;base64,${svg})`;
+      }
+    }
+  });
+  return `${sections.join('\n\n')}\n`;
+}
+
+/** Recursively sorts object keys and drops undefined values, so equal reports serialize identically. */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value)
+      .sort()
+      .forEach((key) => {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry !== undefined) {
+          sorted[key] = canonicalize(entry);
+        }
+      });
+    return sorted;
+  }
+  return value;
+}
+
+export function renderCanonicalJson(report: FitReport): string {
+  return `${JSON.stringify(canonicalize({ schema: JSON_SCHEMA, ...report }), null, 2)}\n`;
+}
+
+export function renderReport(report: FitReport, format: ReportFormat): RenderedReport {
+  const { contentType, extension, render } = FORMATS[format];
+  return { body: render(report), contentType, extension };
+}
+
+/**
+ * Builds a report from a saved analysis, adding the skills matrix its fit score was aggregated from or else the newest
+ * one saved for the same resume and job description with the same settings (see `findMatchingSkillsMatrix`). Returns
+ * null when no analysis has that id.
+ */
+export async function loadReportFromHistory(id: string): Promise<FitReport | null> {
+  const record = await getHistoryRecord(id);
+  if (!record || record.kind !== 'analysis') {
+    return null;
+  }
+
+  const matrix = record.response.skillsMatrix ?? (await findMatchingSkillsMatrix(record))?.response;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    analysis: { ...record.response, historyId: record.id },
+    skillsMatrix: matrix
+  };
+}
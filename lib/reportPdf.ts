@@ -0,0 +1,403 @@
+import { deflateSync } from 'zlib';
+import { layoutRadarChart } from './radarChart';
+import type { Point } from './radarChart';
+import type { RadarChartData, ReportBlock } from './types';
+
+/** A4 portrait, in points. */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINE_SPACING = 1.35;
+const RADAR_SIZE = 300;
+const RADAR_LEGEND_HEIGHT = 24;
+/** Space a heading takes: the gap above it, one 13pt line and the gap below. */
+const HEADING_HEIGHT = 12 + 13 * LINE_SPACING + 2;
+
+const TEXT_COLOR = '0.12 0.16 0.23';
+const MUTED_COLOR = '0.39 0.45 0.55';
+const RULE_COLOR = '0.80 0.84 0.88';
+
+type FontName = 'F1' | 'F2';
+
+/** Advance widths (per 1000 em) of printable ASCII in the standard Helvetica and Helvetica-Bold fonts. */
+const FONT_WIDTHS: Record<FontName, number[]> = {
+  F1: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+    556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+    260, 334, 584
+  ],
+  F2: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+    556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+    280, 389, 584
+  ]
+};
+
+/** Characters outside Latin-1 that WinAnsiEncoding still covers. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '†': 0x86,
+  '‰': 0x89,
+  'Š': 0x8a,
+  '‹': 0x8b,
+  'Œ': 0x8c,
+  'Ž': 0x8e,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+  'š': 0x9a,
+  '›': 0x9b,
+  'œ': 0x9c,
+  'ž': 0x9e,
+  'Ÿ': 0x9f
+};
+
+const FALLBACKS: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '−': '-', '\t': ' ' };
+
+/** The WinAnsiEncoding byte (as a latin1 character) or ASCII look-alike for a character, or null when it has none. */
+function encodeWinAnsi(char: string): string | null {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff && char.length === 1)) {
+    return char;
+  }
+  if (WIN_ANSI_EXTRAS[char] !== undefined) {
+    return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+  }
+  return FALLBACKS[char] ?? null;
+}
+
+/**
+ * Re-encodes text for the standard fonts' WinAnsiEncoding, one byte per character (as a latin1 string). Characters the
+ * encoding lacks fall back to an ASCII look-alike or "?".
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((char) => encodeWinAnsi(char) ?? '?')
+    .join('');
+}
+
+/** Whether any text in the report (e.g. Cyrillic, Greek or CJK) cannot be shown by the standard fonts. */
+function hasUnencodableText(blocks: ReportBlock[], title: string): boolean {
+  return Array.from(JSON.stringify(blocks) + title).some((char) => encodeWinAnsi(char) === null);
+}
+
+/** Height a block needs on the page under a heading, so headings are never left alone at the foot of a page. */
+function leadingHeight(block: ReportBlock | undefined): number {
+  switch (block?.type) {
+    case 'radar':
+      return RADAR_SIZE + RADAR_LEGEND_HEIGHT;
+    case 'table':
+      // The header row and the first body row, each one 9pt line with padding.
+      return 4 + 2 * (9 * LINE_SPACING + 8);
+    case 'paragraph':
+    case 'list':
+      return 12 * LINE_SPACING;
+    default:
+      return 0;
+  }
+}
+
+function textWidth(text: string, font: FontName, size: number): number {
+  let width = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    width += code >= 0x20 && code < 0x7f ? FONT_WIDTHS[font][code - 0x20] : code === 0x97 ? 1000 : 556;
+  }
+  return (width * size) / 1000;
+}
+
+/** Greedy word wrap; words wider than the line are split across lines. */
+function wrapText(text: string, font: FontName, size: number, width: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (textWidth(candidate, font, size) <= width) {
+          line = candidate;
+          return;
+        }
+        if (line) {
+          lines.push(line);
+        }
+        line = word;
+        while (textWidth(line, font, size) > width && line.length > 1) {
+          let fit = line.length - 1;
+          while (fit > 1 && textWidth(line.slice(0, fit), font, size) > width) {
+            fit -= 1;
+          }
+          lines.push(line.slice(0, fit));
+          line = line.slice(fit);
+        }
+      });
+    lines.push(line);
+  });
+  return lines;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, '\\$&').replace(/[\x80-\xff]/g, (char) => `\\${char.charCodeAt(0).toString(8)}`);
+}
+
+function hexToRgb(hex: string): string {
+  return [0, 2, 4].map((offset) => (parseInt(hex.slice(offset, offset + 2), 16) / 255).toFixed(3)).join(' ');
+}
+
+const formatNumber = (value: number) => value.toFixed(2);
+
+/**
+ * Renders report blocks as a paginated PDF using the built-in Helvetica fonts, with the radar chart drawn as vectors.
+ * Those fonts only cover WinAnsiEncoding (Western European scripts); other characters are printed as "?" and a note
+ * at the end points to the Word and Markdown exports, which keep the full text.
+ */
+export function renderPdf(blocks: ReportBlock[], title: string): Buffer {
+  const pages: string[][] = [];
+  let y = 0;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      newPage();
+    }
+  };
+  const emit = (operation: string) => pages[pages.length - 1].push(operation);
+  const drawText = (text: string, x: number, baseline: number, font: FontName, size: number, color = TEXT_COLOR) =>
+    emit(
+      `BT /${font} ${size} Tf ${color} rg ${formatNumber(x)} ${formatNumber(baseline)} Td (${escapePdfString(text)}) Tj ET`
+    );
+  const drawRule = (x1: number, x2: number, atY: number) =>
+    emit(`${RULE_COLOR} RG 0.75 w ${formatNumber(x1)} ${formatNumber(atY)} m ${formatNumber(x2)} ${formatNumber(atY)} l S`);
+
+  const writeLines = (text: string, font: FontName, size: number, x: number, width: number, color = TEXT_COLOR) => {
+    const lineHeight = size * LINE_SPACING;
+    wrapText(toWinAnsi(text), font, size, width).forEach((line) => {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+      drawText(line, x, y + size * 0.25, font, size, color);
+    });
+  };
+
+  const writeTable = (columns: string[], rows: string[][], numeric: boolean[] = []) => {
+    const size = 9;
+    const lineHeight = size * LINE_SPACING;
+    const padding = 4;
+    const numericWidth = 56;
+    // Text columns get room for their longest word, then share what is left by (capped) content length.
+    const cellsOf = (index: number) => [columns[index], ...rows.map((row) => row[index] ?? '')];
+    const minWidths = columns.map((_, index) =>
+      numeric[index]
+        ? numericWidth
+        : Math.max(
+            ...cellsOf(index).map((cell) =>
+              Math.max(0, ...toWinAnsi(cell).split(/\s+/).map((word) => textWidth(word, 'F2', size)))
+            )
+          ) +
+          2 * padding
+    );
+    const weights = columns.map((_, index) =>
+      numeric[index] ? 0 : Math.min(40, Math.max(8, ...cellsOf(index).map((cell) => cell.length)))
+    );
+    const spare = Math.max(0, CONTENT_WIDTH - minWidths.reduce((sum, width) => sum + width, 0));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    const widths = minWidths.map((width, index) => width + (spare * weights[index]) / totalWeight);
+
+    const measureRow = (cells: string[], font: FontName) => {
+      const wrapped = cells.map((cell, index) => wrapText(toWinAnsi(cell), font, size, widths[index] - 2 * padding));
+      return { wrapped, height: Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + 2 * padding };
+    };
+    const header = measureRow(columns, 'F2');
+
+    const drawRow = ({ wrapped, height }: ReturnType<typeof measureRow>, font: FontName, color: string) => {
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          const baseline = y - padding - (lineIndex + 1) * lineHeight + size * 0.25;
+          const offset = numeric[index] ? widths[index] - padding - textWidth(line, font, size) : padding;
+          drawText(line, x + offset, baseline, font, size, color);
+        });
+        x += widths[index];
+      });
+      y -= height;
+      drawRule(MARGIN, MARGIN + CONTENT_WIDTH, y);
+    };
+
+    ensureSpace(header.height + lineHeight + 2 * padding);
+    drawRow(header, 'F2', MUTED_COLOR);
+    rows.forEach((row) => {
+      const measured = measureRow(row, 'F1');
+      if (y - measured.height < MARGIN) {
+        // Rows never split across pages; the header is repeated above the continuation.
+        newPage();
+        drawRow(header, 'F2', MUTED_COLOR);
+      }
+      drawRow(measured, 'F1', TEXT_COLOR);
+    });
+  };
+
+  const writeRadar = (chart: RadarChartData) => {
+    ensureSpace(RADAR_SIZE + RADAR_LEGEND_HEIGHT);
+    const geometry = layoutRadarChart(chart, RADAR_SIZE);
+    const left = MARGIN + (CONTENT_WIDTH - RADAR_SIZE) / 2;
+    const top = y;
+    const toPage = ({ x, y: pointY }: Point) => `${formatNumber(left + x)} ${formatNumber(top - pointY)}`;
+    const polygon = (points: Point[]) =>
+      points.map((point, index) => `${toPage(point)} ${index === 0 ? 'm' : 'l'}`).join(' ') + ' h';
+
+    geometry.grid.forEach((ring) => emit(`${RULE_COLOR} RG 0.75 w ${polygon(ring)} S`));
+    geometry.spokes.forEach((point) => emit(`${RULE_COLOR} RG 0.75 w ${toPage(geometry.center)} m ${toPage(point)} l S`));
+    geometry.series.forEach(({ color, points }) => {
+      const rgb = hexToRgb(color);
+      emit(`q /GS1 gs ${rgb} rg ${polygon(points)} f Q`);
+      emit(`${rgb} RG 1.5 w ${polygon(points)} S`);
+    });
+    geometry.labels.forEach(({ x, y: labelY, text, anchor }) => {
+      const size = 8;
+      const encoded = toWinAnsi(text);
+      const width = textWidth(encoded, 'F1', size);
+      const offset = anchor === 'start' ? 0 : anchor === 'middle' ? width / 2 : width;
+      drawText(encoded, left + x - offset, top - labelY - size / 3, 'F1', size, MUTED_COLOR);
+    });
+
+    y -= RADAR_SIZE;
+    let legendX = left;
+    geometry.series.forEach(({ label, color }) => {
+      emit(`${hexToRgb(color)} rg ${formatNumber(legendX)} ${formatNumber(y - 12)} 8 8 re f`);
+      drawText(toWinAnsi(label), legendX + 12, y - 11, 'F1', 9, MUTED_COLOR);
+      legendX += textWidth(label, 'F1', 9) + 36;
+    });
+    y -= RADAR_LEGEND_HEIGHT;
+  };
+
+  const notes: ReportBlock[] = hasUnencodableText(blocks, title)
+    ? [
+        {
+          type: 'paragraph',
+          text: 'Some characters are outside the fonts this PDF uses and are shown as "?". Export the report as Word or Markdown for the full text.'
+        }
+      ]
+    : [];
+
+  newPage();
+  const allBlocks = blocks.concat(notes);
+  allBlocks.forEach((block, index) => {
+    switch (block.type) {
+      case 'title':
+        writeLines(block.text, 'F2', 20, MARGIN, CONTENT_WIDTH);
+        y -= 6;
+        drawRule(MARGIN, MARGIN + CONTENT_WIDTH, y);
+        y -= 4;
+        break;
+      case 'heading':
+        // Kept with the start of the next block, e.g. the whole radar chart below "Skills radar".
+        ensureSpace(HEADING_HEIGHT + leadingHeight(allBlocks[index + 1]));
+        y -= 12;
+        writeLines(block.text, 'F2', 13, MARGIN, CONTENT_WIDTH);
+        y -= 2;
+        break;
+      case 'paragraph':
+        writeLines(block.text, block.emphasis ? 'F2' : 'F1', block.emphasis ? 12 : 10, MARGIN, CONTENT_WIDTH);
+        y -= 4;
+        break;
+      case 'list':
+        block.items.forEach((item) => {
+          ensureSpace(14);
+          drawText(String.fromCharCode(0x95), MARGIN + 2, y - 10, 'F1', 10);
+          writeLines(item, 'F1', 10, MARGIN + 14, CONTENT_WIDTH - 14);
+          y -= 3;
+        });
+        break;
+      case 'table':
+        y -= 4;
+        writeTable(block.columns, block.rows, block.numeric);
+        y -= 6;
+        break;
+      case 'radar':
+        writeRadar(block.chart);
+        break;
+    }
+  });
+
+  pages.forEach((operations, index) =>
+    operations.push(
+      `BT /F1 8 Tf ${MUTED_COLOR} rg ${formatNumber(MARGIN)} ${formatNumber(MARGIN / 2)} Td (${escapePdfString(
+        `Page ${index + 1} of ${pages.length}`
+      )}) Tj ET`
+    )
+  );
+
+  return assemblePdf(pages, title);
+}
+
+/** Serializes the page content streams into a PDF file with a cross-reference table. */
+function assemblePdf(pages: string[][], title: string): Buffer {
+  const firstPageObject = 7;
+  const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2);
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from(`<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+    Buffer.from('<< /Type /ExtGState /ca 0.2 >>'),
+    Buffer.from(`<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (SmartRecruit) >>`, 'latin1')
+  ];
+
+  pages.forEach((operations, index) => {
+    const stream = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /ExtGState << /GS1 5 0 R >> >> /Contents ${
+          pageObjectIds[index] + 1
+        } 0 R >>`
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream')
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets = objects.map((body, index) => {
+    const offset = length;
+    const object = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    chunks.push(object);
+    length += object.length;
+    return offset;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+    ''
+  ].join('\n');
+  chunks.push(Buffer.from(xref));
+  return Buffer.concat(chunks);
+}
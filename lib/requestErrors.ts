@@ -0,0 +1,10 @@
+/** An error caused by the client's payload; `status` is the HTTP status the route should answer with. */
+export class PayloadError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'PayloadError';
+    this.status = status;
+  }
+}
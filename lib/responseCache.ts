@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { hashContent } from './contentHash';
+
+const DEFAULT_CACHE_DIR = 'data/cache';
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24;
+
+interface CacheEntry<T> {
+  createdAt: string;
+  expiresAt: string;
+  value: T;
+}
+
+export interface CacheKeyParts {
+  /** Distinguishes response types, e.g. `analysis` vs `skills-matrix`. */
+  namespace: string;
+  promptVersion: string;
+  model: string;
+  resumeText: string;
+  jobDescription: string;
+  /** Any further option that changes the prompt (template, language, ...). */
+  variant?: string;
+}
+
+function cacheDir(): string {
+  return path.resolve(process.cwd(), process.env.RESPONSE_CACHE_DIR ?? DEFAULT_CACHE_DIR);
+}
+
+function ttlSeconds(): number {
+  const configured = Number(process.env.RESPONSE_CACHE_TTL_SECONDS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TTL_SECONDS;
+}
+
+export function buildCacheKey({ namespace, promptVersion, model, resumeText, jobDescription, variant = '' }: CacheKeyParts): string {
+  return hashContent(namespace, promptVersion, model, variant, resumeText, jobDescription);
+}
+
+export async function readCache<T>(key: string): Promise<T | null> {
+  if (ttlSeconds() === 0) {
+    return null;
+  }
+  try {
+    const entry = JSON.parse(await fs.readFile(path.join(cacheDir(), `${key}.json`), 'utf8')) as CacheEntry<T>;
+    return Date.parse(entry.expiresAt) > Date.now() ? entry.value : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read response cache entry', error);
+    }
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, value: T): Promise<void> {
+  const ttl = ttlSeconds();
+  if (ttl === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl * 1000).toISOString(),
+    value
+  };
+
+  try {
+    const filePath = path.join(cacheDir(), `${key}.json`);
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.mkdir(cacheDir(), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    console.error('Failed to write response cache entry', error);
+  }
+}
+
+/**
+ * Returns the cached value for `key` unless it is missing, expired or `refresh` is set, in which case `compute` runs
+ * and its result is cached (unless `shouldCache` rejects it). Cache failures never fail the request.
+ */
+export async function withResponseCache<T>(
+  key: string,
+  refresh: boolean,
+  compute: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<{ value: T; cached: boolean }> {
+  if (!refresh) {
+    const cached = await readCache<T>(key);
+    if (cached !== null) {
+      return { value: cached, cached: true };
+    }
+  }
+
+  const value = await compute();
+  if (shouldCache(value)) {
+    await writeCache(key, value);
+  }
+  return { value, cached: false };
+}
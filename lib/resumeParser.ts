@@ -0,0 +1,543 @@
+import { cleanExtractedText, foldDiacritics } from './textCleanup';
+import type {
+  ParsedResume,
+  ResumeContact,
+  ResumeEducationEntry,
+  ResumeExperienceEntry,
+  ResumeSection
+} from './types';
+
+type SectionKey = 'summary' | 'skills' | 'experience' | 'education' | 'certifications' | 'other';
+
+const SECTION_HEADINGS: Record<string, SectionKey> = {
+  summary: 'summary',
+  'professional summary': 'summary',
+  'career summary': 'summary',
+  profile: 'summary',
+  'professional profile': 'summary',
+  about: 'summary',
+  'about me': 'summary',
+  objective: 'summary',
+  'career objective': 'summary',
+  skills: 'skills',
+  'technical skills': 'skills',
+  'key skills': 'skills',
+  'core skills': 'skills',
+  'core competencies': 'skills',
+  competencies: 'skills',
+  technologies: 'skills',
+  'tech stack': 'skills',
+  expertise: 'skills',
+  'areas of expertise': 'skills',
+  experience: 'experience',
+  'work experience': 'experience',
+  'professional experience': 'experience',
+  'relevant experience': 'experience',
+  employment: 'experience',
+  'employment history': 'experience',
+  'work history': 'experience',
+  'career history': 'experience',
+  education: 'education',
+  'education and training': 'education',
+  'academic background': 'education',
+  certifications: 'certifications',
+  certificates: 'certifications',
+  licenses: 'certifications',
+  'licenses and certifications': 'certifications',
+  'certifications and licenses': 'certifications',
+  accreditations: 'certifications',
+  projects: 'other',
+  'personal projects': 'other',
+  publications: 'other',
+  awards: 'other',
+  'honors and awards': 'other',
+  volunteering: 'other',
+  'volunteer experience': 'other',
+  languages: 'other',
+  interests: 'other',
+  // French, German, Spanish, Portuguese, Italian and Dutch headings, accents folded like `normalizeHeading` does.
+  profil: 'summary',
+  'a propos': 'summary',
+  'a propos de moi': 'summary',
+  'uber mich': 'summary',
+  perfil: 'summary',
+  'perfil profesional': 'summary',
+  'perfil profissional': 'summary',
+  'sobre mi': 'summary',
+  'sobre mim': 'summary',
+  resumo: 'summary',
+  profilo: 'summary',
+  'chi sono': 'summary',
+  profiel: 'summary',
+  'over mij': 'summary',
+  competences: 'skills',
+  'competences techniques': 'skills',
+  kenntnisse: 'skills',
+  fahigkeiten: 'skills',
+  kompetenzen: 'skills',
+  habilidades: 'skills',
+  competencias: 'skills',
+  'conocimientos tecnicos': 'skills',
+  competenze: 'skills',
+  'competenze tecniche': 'skills',
+  vaardigheden: 'skills',
+  experiences: 'experience',
+  'experience professionnelle': 'experience',
+  'experiences professionnelles': 'experience',
+  'parcours professionnel': 'experience',
+  berufserfahrung: 'experience',
+  'beruflicher werdegang': 'experience',
+  werdegang: 'experience',
+  experiencia: 'experience',
+  'experiencia profesional': 'experience',
+  'experiencia laboral': 'experience',
+  'experiencia profissional': 'experience',
+  esperienza: 'experience',
+  'esperienza professionale': 'experience',
+  'esperienze professionali': 'experience',
+  'esperienze lavorative': 'experience',
+  werkervaring: 'experience',
+  ervaring: 'experience',
+  formation: 'education',
+  formations: 'education',
+  diplomes: 'education',
+  ausbildung: 'education',
+  studium: 'education',
+  educacion: 'education',
+  formacion: 'education',
+  'formacion academica': 'education',
+  educacao: 'education',
+  formacao: 'education',
+  'formacao academica': 'education',
+  istruzione: 'education',
+  formazione: 'education',
+  opleiding: 'education',
+  opleidingen: 'education',
+  zertifikate: 'certifications',
+  zertifizierungen: 'certifications',
+  certificaciones: 'certifications',
+  certificacoes: 'certifications',
+  certificazioni: 'certifications',
+  certificaten: 'certifications',
+  projets: 'other',
+  projekte: 'other',
+  proyectos: 'other',
+  projetos: 'other',
+  progetti: 'other',
+  projecten: 'other',
+  langues: 'other',
+  sprachen: 'other',
+  idiomas: 'other',
+  lingue: 'other',
+  talen: 'other',
+  'centres d interet': 'other',
+  interessen: 'other',
+  intereses: 'other',
+  interesses: 'other'
+};
+
+/** Month names and abbreviations per month, in English and the other supported resume languages. */
+const MONTH_PATTERNS = [
+  'jan(?:uary|vier|v|uar|uari)?|enero|ene|janeiro|gennaio|gen',
+  'feb(?:ruary|ruar|rero|braio|ruari)?|f[ée]vrier|f[ée]vr?|fevereiro',
+  'mar(?:ch|s|zo|ço|co)?|m[äa]rz|maart|mrt',
+  'apr(?:il|ile)?|avril|avr|abril|abr',
+  'may|mayo|mai|maio|maggio|mag|mei',
+  'june?|juin|juni|junio|junho|giugno|giu',
+  'july?|juillet|juil|juli|julio|julho|luglio|lug',
+  'aug(?:ust|ustus)?|ao[uû]t|agosto|ago',
+  'sept?(?:ember|embre|iembre|embro)?|settembre|set',
+  'oct(?:ober|obre|ubre)?|okt(?:ober)?|outubro|out|ottobre|ott',
+  'nov(?:ember|embre|iembre|embro)?',
+  'dec(?:ember)?|d[ée]cembre|dez(?:ember|embro)?|diciembre|dicembre|dic'
+];
+const MONTH_MATCHERS = MONTH_PATTERNS.map((pattern) => new RegExp(`^(?:${pattern})$`, 'i'));
+
+const MONTH_NAME = `(?:${MONTH_PATTERNS.join('|')})`;
+const DATE = `(?:${MONTH_NAME}\\.?\\s+\\d{4}|\\d{1,2}\\s?/\\s?\\d{4}|(?:19|20)\\d{2})`;
+/** "Present" in the supported languages: aujourd'hui, heute, actualidad, atual, oggi, heden... */
+const CURRENT =
+  "present|current|now|today|ongoing|pr[ée]sent|aujourd['’]hui|actuel(?:lement)?|heute|aktuell|actualidad|actual|atual|oggi|attuale|heden";
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to|until|[àa]|bis|hasta|at[ée]|al|tot)?\\s*(${DATE}|${CURRENT})`,
+  'i'
+);
+const CURRENT_PATTERN = new RegExp(`^(?:${CURRENT})$`, 'i');
+const YEAR_PATTERN = /\b(?:19|20)\d{2}\b/g;
+
+const BULLET_PATTERN = /^[-•*▪◦●‣]\s*/;
+const HEADER_SEPARATOR = /\s*(?:\||•|·|\s-\s|,|\s@\s|\sat\s)\s*/i;
+
+const TITLE_KEYWORDS =
+  /\b(engineer|developer|manager|analyst|designer|lead|director|intern|consultant|scientist|specialist|architect|head|officer|coordinator|administrator|associate|vp|president|founder|programmer|researcher|technician|recruiter|accountant|executive|owner|assistant|advisor|strategist)\b/i;
+const DEGREE_KEYWORDS =
+  /\b(bachelor|master|ph\.?d|doctor(?:ate)?|mba|associate|diploma|b\.?sc?|m\.?sc?|b\.?a|m\.?a|b\.?eng|m\.?eng|b\.?tech|m\.?tech|degree|certificate)\b/i;
+// Letter lookarounds rather than \b, which treats accented letters as word boundaries.
+const INSTITUTION_KEYWORDS =
+  /(?:^|[^a-zà-ÿ])(?:university|college|institute|school|academy|polytechnic|universit(?:[äa]t|[ée]|[àa]|eit)|universidade?|hochschule|escuela|escola|scuola|politecnico|hogeschool|[ée]cole)(?![a-zà-ÿ])/i;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b(?:linkedin\.com|github\.com|gitlab\.com)\/\S+/gi;
+const LOCATION_PATTERN = /^[A-Z][A-Za-z.' ]+,\s*[A-Z][A-Za-z.' ]+$/;
+
+interface ParsedDate {
+  year: number;
+  month: number | null;
+}
+
+interface Section {
+  key: SectionKey;
+  heading: string;
+  lines: string[];
+}
+
+function normalizeHeading(line: string) {
+  return foldDiacritics(line.toLowerCase())
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function detectHeading(line: string): SectionKey | null {
+  if (line.length > 40 || BULLET_PATTERN.test(line)) {
+    return null;
+  }
+  return SECTION_HEADINGS[normalizeHeading(line)] ?? null;
+}
+
+function splitSections(lines: string[]): { preamble: string[]; sections: Section[] } {
+  const preamble: string[] = [];
+  const sections: Section[] = [];
+
+  for (const line of lines) {
+    const key = detectHeading(line);
+    if (key) {
+      sections.push({ key, heading: line.replace(/:$/, '').trim(), lines: [] });
+    } else if (sections.length) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  return { preamble, sections };
+}
+
+function parseDate(value: string): ParsedDate | null {
+  const trimmed = value.trim().toLowerCase();
+  const monthYear = trimmed.match(/^([^\s\d.]+)\.?\s+(\d{4})$/);
+  if (monthYear) {
+    const month = MONTH_MATCHERS.findIndex((matcher) => matcher.test(monthYear[1])) + 1;
+    return { year: Number(monthYear[2]), month: month || null };
+  }
+  const numeric = trimmed.match(/^(\d{1,2})\s?\/\s?(\d{4})$/);
+  if (numeric) {
+    const month = Number(numeric[1]);
+    return { year: Number(numeric[2]), month: month >= 1 && month <= 12 ? month : null };
+  }
+  const year = trimmed.match(/^\d{4}$/);
+  return year ? { year: Number(trimmed), month: null } : null;
+}
+
+function formatDate({ year, month }: ParsedDate) {
+  return `${year}-${String(month ?? 1).padStart(2, '0')}`;
+}
+
+function monthsBetween(start: ParsedDate, end: ParsedDate) {
+  const difference = (end.year - start.year) * 12 + ((end.month ?? 1) - (start.month ?? 1));
+  // "Jan 2020 – Dec 2020" covers twelve months; year-only ranges stay as the plain difference.
+  const inclusive = start.month !== null && end.month !== null ? 1 : 0;
+  return Math.max(0, difference + inclusive);
+}
+
+function toMonthIndex({ year, month }: ParsedDate) {
+  return year * 12 + (month ?? 1) - 1;
+}
+
+function stripBullet(line: string) {
+  return line.replace(BULLET_PATTERN, '').trim();
+}
+
+function splitHeaderParts(text: string) {
+  return text
+    .split(HEADER_SEPARATOR)
+    .map((part) => part.replace(/^[\s,|()–—-]+|[\s,|()–—-]+$/g, '').trim())
+    .filter((part) => part.length > 1);
+}
+
+interface DraftExperience {
+  headerLines: string[];
+  highlights: string[];
+  start: ParsedDate | null;
+  end: ParsedDate | null;
+  isCurrent: boolean;
+}
+
+function finalizeExperience(draft: DraftExperience, now: ParsedDate): ResumeExperienceEntry {
+  const parts = splitHeaderParts(draft.headerLines.join(' | '));
+  let title = parts[0] ?? null;
+  let employer = parts[1] ?? null;
+  if (title && employer && !TITLE_KEYWORDS.test(title) && TITLE_KEYWORDS.test(employer)) {
+    [title, employer] = [employer, title];
+  }
+
+  const end = draft.isCurrent ? now : draft.end;
+  return {
+    title,
+    employer,
+    startDate: draft.start ? formatDate(draft.start) : null,
+    endDate: draft.isCurrent ? null : draft.end ? formatDate(draft.end) : null,
+    isCurrent: draft.isCurrent,
+    durationMonths: draft.start && end ? monthsBetween(draft.start, end) : null,
+    highlights: draft.highlights
+  };
+}
+
+function parseExperience(lines: string[], now: ParsedDate): ResumeExperienceEntry[] {
+  const drafts: DraftExperience[] = [];
+  let current: DraftExperience | null = null;
+
+  for (const line of lines) {
+    if (BULLET_PATTERN.test(line)) {
+      if (!current) {
+        current = { headerLines: [], highlights: [], start: null, end: null, isCurrent: false };
+        drafts.push(current);
+      }
+      current.highlights.push(stripBullet(line));
+      continue;
+    }
+
+    const range = line.match(DATE_RANGE_PATTERN);
+    // A plain line after bullets, or a second date range, starts the next role.
+    if (!current || current.highlights.length > 0 || (range && current.start)) {
+      current = { headerLines: [], highlights: [], start: null, end: null, isCurrent: false };
+      drafts.push(current);
+    }
+
+    if (range) {
+      current.start = parseDate(range[1]);
+      current.isCurrent = CURRENT_PATTERN.test(range[2]);
+      current.end = current.isCurrent ? null : parseDate(range[2]);
+      const remainder = line.replace(range[0], ' ').trim();
+      if (remainder) {
+        current.headerLines.push(remainder);
+      }
+    } else {
+      current.headerLines.push(line);
+    }
+  }
+
+  return drafts
+    .filter((draft) => draft.headerLines.length > 0 || draft.start)
+    .map((draft) => finalizeExperience(draft, now))
+    .sort((a, b) => {
+      if (a.isCurrent !== b.isCurrent) {
+        return a.isCurrent ? -1 : 1;
+      }
+      return (b.startDate ?? '').localeCompare(a.startDate ?? '');
+    });
+}
+
+function totalMonths(entries: ResumeExperienceEntry[], now: ParsedDate): number | null {
+  const intervals = entries
+    .filter((entry) => entry.startDate)
+    .map((entry) => {
+      const start = parseIsoMonth(entry.startDate as string);
+      const end = entry.endDate ? parseIsoMonth(entry.endDate) : now;
+      return [toMonthIndex(start), toMonthIndex(end)] as [number, number];
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  if (!intervals.length) {
+    return null;
+  }
+
+  let total = 0;
+  let [currentStart, currentEnd] = intervals[0];
+  for (const [start, end] of intervals.slice(1)) {
+    if (start <= currentEnd) {
+      currentEnd = Math.max(currentEnd, end);
+    } else {
+      total += currentEnd - currentStart;
+      [currentStart, currentEnd] = [start, end];
+    }
+  }
+  return total + (currentEnd - currentStart);
+}
+
+function parseIsoMonth(value: string): ParsedDate {
+  const [year, month] = value.split('-').map(Number);
+  return { year, month };
+}
+
+function parseEducation(lines: string[]): ResumeEducationEntry[] {
+  const entries: ResumeEducationEntry[] = [];
+  let current: ResumeEducationEntry | null = null;
+
+  const startEntry = () => {
+    current = { institution: null, degree: null, graduationYear: null, details: [] };
+    entries.push(current);
+    return current;
+  };
+
+  for (const line of lines) {
+    if (BULLET_PATTERN.test(line)) {
+      (current ?? startEntry()).details.push(stripBullet(line));
+      continue;
+    }
+
+    const years = line.match(YEAR_PATTERN);
+    const parts = splitHeaderParts(line.replace(DATE_RANGE_PATTERN, ' ').replace(YEAR_PATTERN, ' '));
+    const degree = parts.find((part) => DEGREE_KEYWORDS.test(part)) ?? null;
+    const institution = parts.find((part) => part !== degree && INSTITUTION_KEYWORDS.test(part)) ?? null;
+
+    let entry: ResumeEducationEntry = current ?? startEntry();
+    if ((degree && entry.degree) || (institution && entry.institution) || entry.details.length) {
+      entry = startEntry();
+    }
+
+    if (!degree && !institution) {
+      if (!years) {
+        entry.details.push(line);
+      }
+    } else {
+      entry.degree = entry.degree ?? degree;
+      entry.institution = entry.institution ?? institution;
+    }
+    if (years) {
+      entry.graduationYear = Number(years[years.length - 1]);
+    }
+  }
+
+  return entries.filter((entry) => entry.degree || entry.institution);
+}
+
+function parseSkills(lines: string[]): string[] {
+  const seen = new Set<string>();
+  const skills: string[] = [];
+  for (const line of lines) {
+    // Drop group labels such as "Languages:" but keep the skills after them.
+    const content = stripBullet(line).replace(/^[A-Za-z &/]{2,30}:\s*/, '');
+    for (const skill of content.split(/\s*(?:,|;|\||•|·)\s*/)) {
+      const trimmed = skill.trim();
+      const key = trimmed.toLowerCase();
+      if (trimmed && trimmed.length <= 60 && !seen.has(key)) {
+        seen.add(key);
+        skills.push(trimmed);
+      }
+    }
+  }
+  return skills;
+}
+
+function parseContact(preamble: string[], text: string): ResumeContact {
+  const email = text.match(EMAIL_PATTERN)?.[0] ?? null;
+  const links = Array.from(new Set(text.match(LINK_PATTERN) ?? []));
+  const phone = preamble.join(' | ').match(PHONE_PATTERN)?.[0].trim() ?? null;
+
+  const parts = preamble.flatMap((line) => line.split(/\s*(?:\||•|·)\s*/)).filter(Boolean);
+  const isContactDetail = (part: string) =>
+    EMAIL_PATTERN.test(part) || PHONE_PATTERN.test(part) || /https?:|www\.|\.com\//i.test(part);
+
+  // Header lines such as "Senior Software Engineer" or a stray heading are also 2-4 capitalised words; skip them.
+  const isPersonalName = (part: string) => {
+    const words = part.split(/\s+/);
+    return (
+      !isContactDetail(part) &&
+      !/\d/.test(part) &&
+      words.length >= 2 &&
+      words.length <= 4 &&
+      !TITLE_KEYWORDS.test(part) &&
+      !detectHeading(part)
+    );
+  };
+  const name = parts.find(isPersonalName) ?? null;
+  const location = parts.find((part) => part !== name && LOCATION_PATTERN.test(part)) ?? null;
+
+  return { name, email, phone, location, links };
+}
+
+/**
+ * Splits resume text into typed sections using common headings, then extracts contact details, skills, a dated
+ * experience timeline, education, and certifications. Heuristic by design: anything it cannot place stays available in
+ * `otherSections` or is left out, and callers should keep the raw text as the source of truth.
+ */
+export function parseResume(resumeText: string, now: Date = new Date()): ParsedResume {
+  const text = cleanExtractedText(resumeText);
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  const { preamble, sections } = splitSections(lines);
+  const today: ParsedDate = { year: now.getFullYear(), month: now.getMonth() + 1 };
+
+  const linesFor = (key: SectionKey) =>
+    sections.filter((section) => section.key === key).flatMap((section) => section.lines);
+
+  const experience = parseExperience(linesFor('experience'), today);
+  const summaryLines = linesFor('summary').map(stripBullet);
+  const otherSections: ResumeSection[] = sections
+    .filter((section) => section.key === 'other' && section.lines.length)
+    .map(({ heading, lines: sectionLines }) => ({ heading, lines: sectionLines.map(stripBullet) }));
+
+  return {
+    contact: parseContact(preamble, text),
+    summary: summaryLines.length ? summaryLines.join(' ') : null,
+    skills: parseSkills(linesFor('skills')),
+    experience,
+    education: parseEducation(linesFor('education')),
+    certifications: linesFor('certifications').map(stripBullet).filter(Boolean),
+    totalExperienceMonths: totalMonths(experience, today),
+    otherSections
+  };
+}
+
+function formatDuration(months: number) {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  const parts = [years ? `${years} yr` : '', remainder ? `${remainder} mo` : ''].filter(Boolean);
+  return parts.length ? parts.join(' ') : 'under 1 mo';
+}
+
+/**
+ * Renders a parsed resume as compact prompt context: the dated timeline with tenure per role, total experience, and
+ * the listed skills, education, and certifications. Returns null when nothing structured was found.
+ */
+export function formatResumeContext(parsed: ParsedResume): string | null {
+  const lines: string[] = [];
+
+  if (parsed.experience.length) {
+    lines.push('Experience timeline (most recent first):');
+    for (const entry of parsed.experience) {
+      const role = [entry.title, entry.employer].filter(Boolean).join(' at ') || 'Untitled role';
+      const period = entry.startDate
+        ? `${entry.startDate} to ${entry.isCurrent ? 'present' : entry.endDate ?? 'unknown'}`
+        : 'dates not stated';
+      const duration = entry.durationMonths !== null ? ` (${formatDuration(entry.durationMonths)})` : '';
+      lines.push(`- ${role}: ${period}${duration}`);
+    }
+  }
+  if (parsed.totalExperienceMonths !== null) {
+    lines.push(`Total dated experience, overlaps counted once: ${formatDuration(parsed.totalExperienceMonths)}`);
+  }
+  if (parsed.skills.length) {
+    lines.push(`Listed skills: ${parsed.skills.join(', ')}`);
+  }
+  for (const entry of parsed.education) {
+    const credential = [entry.degree, entry.institution].filter(Boolean).join(', ');
+    lines.push(`Education: ${credential}${entry.graduationYear ? ` (${entry.graduationYear})` : ''}`);
+  }
+  if (parsed.certifications.length) {
+    lines.push(`Certifications: ${parsed.certifications.join('; ')}`);
+  }
+
+  return lines.length ? lines.join('\n') : null;
+}
+
+/** Prompt section appended after the raw resume in every prompt; empty when the resume has no recognizable structure. */
+export function buildResumeContextSection(resumeText: string): string {
+  const context = formatResumeContext(parseResume(resumeText));
+  if (!context) {
+    return '';
+  }
+  return `\n\nStructured Resume Context (parsed automatically from the resume above; use it to reason about tenure and recency, and trust the resume text where they disagree):\n"""\n${context}\n"""`;
+}
@@ -0,0 +1,84 @@
+import { analyzeFit } from './analysisService';
+import { hashContent } from './contentHash';
+import { describeGeneration, resolveGenerationSettings } from './generation';
+import { completeWithRepair } from './modelOutput';
+import { getActiveModel } from './openai';
+import { describeRedaction, prepareRedaction, redactText } from './redaction';
+import { buildCacheKey, withResponseCache } from './responseCache';
+import { TAILOR_PROMPT_VERSION, buildTailorPrompt, parseTailorResponse } from './tailorPrompt';
+import type { ResumeRewrite, TailorRequest, TailorResponse } from './types';
+
+/** Replaces each rewrite's original passage, last first so earlier offsets stay valid. Rewrites must not overlap. */
+export function applyRewrites(resumeText: string, rewrites: ResumeRewrite[]): string {
+  return rewrites
+    .slice()
+    .sort((a, b) => b.original.start - a.original.start)
+    .reduce(
+      (text, { original, rewritten }) => text.slice(0, original.start) + rewritten + text.slice(original.end),
+      resumeText
+    );
+}
+
+/**
+ * Suggests grounded before/after rewrites of resume passages, steered by an existing analysis, and re-scores the
+ * resume with every grounded rewrite applied. Both the original and the tailored resume are re-scored with the deterministic
+ * profile and without saving history, so the projected change is not sampling noise.
+ */
+export async function tailorResume(
+  { analysis, ...request }: TailorRequest,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<TailorResponse> {
+  const generation = resolveGenerationSettings(request.generationProfile);
+  const cacheKey = buildCacheKey({
+    namespace: 'tailor',
+    promptVersion: TAILOR_PROMPT_VERSION,
+    model: getActiveModel(),
+    resumeText: request.resumeText,
+    jobDescription: request.jobDescription,
+    variant: [
+      describeGeneration(generation, 1),
+      describeRedaction(request),
+      `guidance=${hashContent(...analysis.weaknesses, '', ...analysis.recommendations)}`
+    ].join('|')
+  });
+
+  const { value: suggestions } = await withResponseCache(cacheKey, refresh, async () => {
+    const redaction = prepareRedaction(request);
+    const { redacted, sources } = redaction;
+    // Outside blind review the analysis has names and contact details restored; the model must not see them.
+    const redactAll = (items: string[]) => items.map((item) => redactText(item, redacted.entities));
+    const messages = buildTailorPrompt(redacted, {
+      weaknesses: redactAll(analysis.weaknesses),
+      recommendations: redactAll(analysis.recommendations)
+    });
+    const { value } = await completeWithRepair(
+      messages,
+      (content) => parseTailorResponse(redaction.revealCompletion(content), sources),
+      { generation }
+    );
+    return {
+      ...value,
+      // Rewrites that introduce facts the resume lacks stay listed for review, but are neither applied nor scored.
+      tailoredResumeText: applyRewrites(
+        sources.resumeText,
+        value.rewrites.filter((rewrite) => !rewrite.unsupportedTerms.length)
+      ),
+      redactedDocuments: redaction.blind ? { resumeText: redacted.resumeText, jobDescription: request.jobDescription } : undefined
+    };
+  });
+
+  const scoring = { ...request, generationProfile: 'deterministic' as const, ensembleRuns: 1 };
+  const [original, tailored] = await Promise.all([
+    analyzeFit(scoring, { refresh, saveHistory: false }),
+    analyzeFit({ ...scoring, resumeText: suggestions.tailoredResumeText }, { refresh, saveHistory: false })
+  ]);
+
+  return {
+    ...suggestions,
+    rescore: {
+      originalFitScore: original.value.fitScore,
+      tailoredFitScore: tailored.value.fitScore,
+      delta: tailored.value.fitScore - original.value.fitScore
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import type {
+  RoleComparison,
+  RoleDriver,
+  RoleMatchJobResult,
+  RoleRanking,
+  SkillsMatrixEntry,
+  SkillsMatrixResponse
+} from './types';
+
+const MAX_DRIVERS = 6;
+
+type SuccessfulJob = Extract<RoleMatchJobResult, { status: 'ok' }>;
+
+function categoryKey(category: string): string {
+  return category.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function totalEmphasis(categories: SkillsMatrixEntry[]): number {
+  return categories.reduce((sum, entry) => sum + entry.jobEmphasis, 0);
+}
+
+export function weightedMatch({ categories }: SkillsMatrixResponse): number {
+  const emphasis = totalEmphasis(categories);
+  if (!emphasis) {
+    return 0;
+  }
+  const weighted = categories.reduce((sum, entry) => sum + entry.jobEmphasis * entry.matchScore, 0);
+  return Math.round(weighted / emphasis);
+}
+
+/** Each category's share of `weightedMatch`, keyed by a normalized category name so roles can be lined up. */
+function categoryContributions({ categories }: SkillsMatrixResponse): Map<string, { entry: SkillsMatrixEntry; value: number }> {
+  const emphasis = totalEmphasis(categories) || 1;
+  const contributions = new Map<string, { entry: SkillsMatrixEntry; value: number }>();
+  for (const entry of categories) {
+    const key = categoryKey(entry.category);
+    const value = (entry.jobEmphasis * entry.matchScore) / emphasis;
+    const existing = contributions.get(key);
+    contributions.set(key, { entry: existing?.entry ?? entry, value: (existing?.value ?? 0) + value });
+  }
+  return contributions;
+}
+
+function explainDifference(best: SuccessfulJob, comparison: SuccessfulJob): RoleDriver[] {
+  const bestContributions = categoryContributions(best.skillsMatrix);
+  const comparisonContributions = categoryContributions(comparison.skillsMatrix);
+  const keys = new Set(Array.from(bestContributions.keys()).concat(Array.from(comparisonContributions.keys())));
+
+  const drivers: RoleDriver[] = [];
+  keys.forEach((key) => {
+    const bestCategory = bestContributions.get(key);
+    const comparisonCategory = comparisonContributions.get(key);
+    drivers.push({
+      category: (bestCategory ?? comparisonCategory)!.entry.category,
+      bestJobMatch: bestCategory?.entry.matchScore,
+      comparisonJobMatch: comparisonCategory?.entry.matchScore,
+      impact: Math.round(((bestCategory?.value ?? 0) - (comparisonCategory?.value ?? 0)) * 10) / 10
+    });
+  });
+
+  return drivers
+    .filter((driver) => driver.impact !== 0)
+    .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact))
+    .slice(0, MAX_DRIVERS);
+}
+
+/**
+ * Ranks roles by fit score (weighted skills match breaks ties) and explains the gap between the best role and the
+ * runner-up through per-category contributions to the emphasis-weighted match.
+ */
+export function compareRoles(jobs: RoleMatchJobResult[]): RoleComparison {
+  const successful = jobs
+    .filter((job): job is SuccessfulJob => job.status === 'ok')
+    .map((job) => ({ job, weightedMatch: weightedMatch(job.skillsMatrix) }))
+    .sort((a, b) => b.job.analysis.fitScore - a.job.analysis.fitScore || b.weightedMatch - a.weightedMatch);
+
+  const ranking: RoleRanking[] = successful.map(({ job, weightedMatch: match }) => ({
+    jobId: job.id,
+    title: job.title,
+    fitScore: job.analysis.fitScore,
+    weightedMatch: match
+  }));
+
+  const [best, comparison] = successful;
+
+  return {
+    ranking,
+    bestJobId: best?.job.id,
+    comparisonJobId: comparison?.job.id,
+    drivers: best && comparison ? explainDifference(best.job, comparison.job) : []
+  };
+}
@@ -0,0 +1,417 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+import { hashContent } from './contentHash';
+import type {
+  CategoryScoreContribution,
+  FitScoreBreakdown,
+  ScoringTemplate,
+  ScoringTemplateCategory,
+  ScoringTemplateSummary,
+  SkillImportance,
+  SkillsMatrixResponse
+} from './types';
+
+/** The `job_emphasis` bands the skills matrix prompt has always used. */
+export const DEFAULT_IMPORTANCE_BANDS: ScoringTemplate['importanceBands'] = {
+  core: { min: 85, max: 100 },
+  complementary: { min: 55, max: 80 },
+  bonus: { min: 25, max: 50 }
+};
+
+const DEFAULT_UNLISTED_WEIGHTS: ScoringTemplate['unlistedCategoryWeights'] = { core: 3, complementary: 2, bonus: 1 };
+
+const IMPORTANCE_LEVELS: SkillImportance[] = ['core', 'complementary', 'bonus'];
+
+const BUILT_IN_TEMPLATES: ScoringTemplate[] = [
+  {
+    id: 'general',
+    label: 'General',
+    description: 'Weights every skills matrix category by its importance to the role.',
+    categories: [],
+    importanceBands: DEFAULT_IMPORTANCE_BANDS,
+    unlistedCategoryWeights: DEFAULT_UNLISTED_WEIGHTS,
+    instructions: []
+  },
+  {
+    id: 'engineering',
+    label: 'Software engineering',
+    description: 'Emphasizes hands-on technical depth and system design over domain knowledge.',
+    categories: [
+      {
+        name: 'Core Technical Skills',
+        weight: 5,
+        required: true,
+        aliases: ['Technical Skills', 'Programming Languages', 'Core Technical Competencies'],
+        description: 'Languages, frameworks and platforms the role is built on.'
+      },
+      {
+        name: 'System Design & Architecture',
+        weight: 3,
+        required: true,
+        aliases: ['Architecture', 'System Design'],
+        description: 'Designing, scaling and operating production systems.'
+      },
+      {
+        name: 'Tooling & Delivery',
+        weight: 2,
+        required: false,
+        aliases: ['Tooling', 'DevOps', 'Inferred Tooling', 'Adjacent Tooling'],
+        description: 'CI/CD, testing, observability and cloud tooling.'
+      },
+      {
+        name: 'Collaboration & Leadership',
+        weight: 1.5,
+        required: false,
+        aliases: ['Soft Skills', 'Role Expectations & Soft Skills', 'Leadership'],
+        description: 'Mentoring, code review and cross-team communication.'
+      },
+      {
+        name: 'Domain Knowledge',
+        weight: 1,
+        required: false,
+        aliases: ['Business Domain', 'Industry Domain Knowledge', 'Domain Expertise']
+      }
+    ],
+    importanceBands: DEFAULT_IMPORTANCE_BANDS,
+    unlistedCategoryWeights: { core: 2, complementary: 1, bonus: 0.5 },
+    instructions: [
+      'Credit shipped, production-scale work above coursework or tutorials.',
+      'Treat an equivalent language or framework as partial evidence, not a full match.'
+    ]
+  },
+  {
+    id: 'sales',
+    label: 'Sales & account management',
+    description: 'Emphasizes quota attainment, pipeline ownership and customer relationships.',
+    categories: [
+      {
+        name: 'Quota & Revenue Track Record',
+        weight: 5,
+        required: true,
+        aliases: ['Sales Performance', 'Revenue Impact', 'Quota Attainment'],
+        description: 'Measured results against targets.'
+      },
+      {
+        name: 'Pipeline & Sales Process',
+        weight: 3,
+        required: true,
+        aliases: ['Sales Process', 'Pipeline Management', 'Prospecting'],
+        description: 'Prospecting, qualification, forecasting and closing.'
+      },
+      {
+        name: 'Customer Relationships',
+        weight: 2,
+        required: false,
+        aliases: ['Account Management', 'Relationship Management', 'Communication']
+      },
+      {
+        name: 'Industry & Product Knowledge',
+        weight: 2,
+        required: false,
+        aliases: ['Domain Knowledge', 'Industry Domain Knowledge', 'Product Knowledge']
+      },
+      {
+        name: 'Sales Tooling',
+        weight: 1,
+        required: false,
+        aliases: ['CRM', 'Tooling', 'Inferred Tooling']
+      }
+    ],
+    importanceBands: DEFAULT_IMPORTANCE_BANDS,
+    unlistedCategoryWeights: { core: 2, complementary: 1, bonus: 0.5 },
+    instructions: [
+      'Prefer quantified results (quota percentages, deal sizes, revenue) as evidence of alignment.',
+      'Score claims of success without numbers no higher than 70 for candidate_alignment.'
+    ]
+  },
+  {
+    id: 'healthcare',
+    label: 'Clinical & healthcare',
+    description: 'Treats licensure and compliance as hard requirements alongside clinical experience.',
+    categories: [
+      {
+        name: 'Licensure & Certifications',
+        weight: 4,
+        required: true,
+        aliases: ['Certifications', 'Licenses', 'Credentials'],
+        description: 'Active licenses and certifications the role legally requires.'
+      },
+      {
+        name: 'Clinical Experience',
+        weight: 4,
+        required: true,
+        aliases: ['Patient Care', 'Clinical Skills'],
+        description: 'Direct experience in the relevant care setting and population.'
+      },
+      {
+        name: 'Compliance & Safety',
+        weight: 2,
+        required: false,
+        aliases: ['Regulatory Compliance', 'HIPAA', 'Patient Safety']
+      },
+      {
+        name: 'Clinical Systems',
+        weight: 1,
+        required: false,
+        aliases: ['EHR', 'EMR', 'Tooling', 'Inferred Tooling']
+      },
+      {
+        name: 'Communication & Teamwork',
+        weight: 1,
+        required: false,
+        aliases: ['Soft Skills', 'Role Expectations & Soft Skills', 'Interdisciplinary Collaboration']
+      }
+    ],
+    importanceBands: { core: { min: 90, max: 100 }, complementary: { min: 55, max: 80 }, bonus: { min: 20, max: 45 } },
+    unlistedCategoryWeights: { core: 2, complementary: 1, bonus: 0.5 },
+    instructions: [
+      'A required license or certification that the resume does not mention must score 0 for candidate_alignment.',
+      'Do not infer licensure from job titles alone.'
+    ]
+  }
+];
+
+let customTemplates: { source: string; templates: ScoringTemplate[] } | null = null;
+
+function normalizeName(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map((item) => item.trim())
+    : [];
+}
+
+function readCategory(raw: unknown, index: number): ScoringTemplateCategory {
+  const entry = (raw ?? {}) as Record<string, unknown>;
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    throw new Error(`categories[${index}].name must be a non-empty string`);
+  }
+  if (!isPositiveNumber(entry.weight)) {
+    throw new Error(`categories[${index}].weight must be a positive number`);
+  }
+  return {
+    name: entry.name.trim(),
+    weight: entry.weight,
+    required: entry.required === true,
+    aliases: readStringList(entry.aliases),
+    description: typeof entry.description === 'string' ? entry.description.trim() || undefined : undefined
+  };
+}
+
+function readBands(raw: unknown): ScoringTemplate['importanceBands'] {
+  if (raw === undefined) {
+    return DEFAULT_IMPORTANCE_BANDS;
+  }
+  const bands = (raw ?? {}) as Record<string, { min?: unknown; max?: unknown }>;
+  return IMPORTANCE_LEVELS.reduce((result, level) => {
+    const band = bands[level] ?? DEFAULT_IMPORTANCE_BANDS[level];
+    const { min, max } = band;
+    if (typeof min !== 'number' || typeof max !== 'number' || min < 0 || max > 100 || min > max) {
+      throw new Error(`importanceBands.${level} must have 0 <= min <= max <= 100`);
+    }
+    return { ...result, [level]: { min, max } };
+  }, DEFAULT_IMPORTANCE_BANDS);
+}
+
+function readUnlistedWeights(raw: unknown): ScoringTemplate['unlistedCategoryWeights'] {
+  const weights = (raw ?? {}) as Record<string, unknown>;
+  return IMPORTANCE_LEVELS.reduce((result, level) => {
+    const weight = weights[level] ?? DEFAULT_UNLISTED_WEIGHTS[level];
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`unlistedCategoryWeights.${level} must be a non-negative number`);
+    }
+    return { ...result, [level]: weight };
+  }, DEFAULT_UNLISTED_WEIGHTS);
+}
+
+/** Validates a template read from `SCORING_TEMPLATES_PATH`, filling in default bands and unlisted weights. */
+function readTemplate(raw: unknown): ScoringTemplate {
+  const entry = (raw ?? {}) as Record<string, unknown>;
+  if (typeof entry.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(entry.id)) {
+    throw new Error('id must be lowercase letters, digits and dashes');
+  }
+  const categories = Array.isArray(entry.categories) ? entry.categories.map(readCategory) : [];
+  const names = categories.map((category) => normalizeName(category.name));
+  if (names.some((name, index) => names.indexOf(name) !== index)) {
+    throw new Error('category names must be unique');
+  }
+  return {
+    id: entry.id,
+    label: typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : entry.id,
+    description: typeof entry.description === 'string' ? entry.description.trim() : '',
+    categories,
+    importanceBands: readBands(entry.importanceBands),
+    unlistedCategoryWeights: readUnlistedWeights(entry.unlistedCategoryWeights),
+    instructions: readStringList(entry.instructions)
+  };
+}
+
+/**
+ * Reads the JSON array of custom templates at `SCORING_TEMPLATES_PATH`, once per path. Invalid templates are logged
+ * and skipped so one typo does not disable the others; a custom template may replace a built-in one with the same ID.
+ */
+function loadCustomTemplates(): ScoringTemplate[] {
+  const configured = process.env.SCORING_TEMPLATES_PATH;
+  if (!configured) {
+    return [];
+  }
+  const source = path.resolve(process.cwd(), configured);
+  if (customTemplates?.source === source) {
+    return customTemplates.templates;
+  }
+
+  const templates: ScoringTemplate[] = [];
+  try {
+    const parsed = JSON.parse(readFileSync(source, 'utf8')) as unknown;
+    (Array.isArray(parsed) ? parsed : [parsed]).forEach((raw, index) => {
+      try {
+        templates.push(readTemplate(raw));
+      } catch (error) {
+        console.error(`Skipping invalid scoring template #${index} in ${source}: ${(error as Error).message}`);
+      }
+    });
+  } catch (error) {
+    console.error('Failed to load scoring templates', error);
+  }
+  customTemplates = { source, templates };
+  return templates;
+}
+
+function allTemplates(): ScoringTemplate[] {
+  const custom = loadCustomTemplates();
+  const customIds = custom.map((template) => template.id);
+  return BUILT_IN_TEMPLATES.filter((template) => !customIds.includes(template.id)).concat(custom);
+}
+
+export function listScoringTemplates(): ScoringTemplateSummary[] {
+  return allTemplates().map(({ id, label, description }) => ({ id, label, description }));
+}
+
+export function getScoringTemplate(id: string | undefined): ScoringTemplate | undefined {
+  return id ? allTemplates().find((template) => template.id === id) : undefined;
+}
+
+/** `job_emphasis` bands in prompt form, e.g. "core ~85-100, complementary ~55-80, bonus ~25-50". */
+export function formatImportanceBands(bands: ScoringTemplate['importanceBands'] = DEFAULT_IMPORTANCE_BANDS): string {
+  return IMPORTANCE_LEVELS.map((level) => `${level} ~${bands[level].min}-${bands[level].max}`).join(', ');
+}
+
+/** Cache key variant; hashes the definition so editing a custom template invalidates results scored with it. */
+export function describeScoringTemplate(id: string | undefined): string {
+  const template = getScoringTemplate(id);
+  return template ? `template=${template.id}:${hashContent(JSON.stringify(template)).slice(0, 12)}` : 'template=';
+}
+
+function formatInstructions(template: ScoringTemplate) {
+  return template.instructions.map((instruction) => `- ${instruction}`).join('\n');
+}
+
+/** Skills matrix prompt section naming the template's categories and custom instructions. */
+export function buildScoringTemplateSection(template: ScoringTemplate | undefined): string {
+  if (!template) {
+    return '';
+  }
+  const categories = template.categories.map((category) => {
+    const aliases = category.aliases?.length ? ` (also called: ${category.aliases.join(', ')})` : '';
+    const details = category.description ? ` — ${category.description}` : '';
+    return `- "${category.name}"${category.required ? ' [required]' : ''}${aliases}${details}`;
+  });
+  const sections: string[] = [];
+  if (categories.length) {
+    sections.push(
+      'Use these exact category names where they apply. Always include every [required] category, even when the resume has no evidence for it (score it low and explain the gap):',
+      ...categories
+    );
+  }
+  if (template.instructions.length) {
+    sections.push('Additional scoring instructions:', formatInstructions(template));
+  }
+  return sections.length ? `\n\nScoring Template "${template.label}":\n${sections.join('\n')}` : '';
+}
+
+/** Analysis prompt section carrying the template's custom instructions; the fit score itself is aggregated later. */
+export function buildScoringInstructionsSection(template: ScoringTemplate | undefined): string {
+  if (!template?.instructions.length) {
+    return '';
+  }
+  return `\n\nScoring Template "${template.label}" instructions:\n${formatInstructions(template)}`;
+}
+
+function findTemplateCategory(template: ScoringTemplate, name: string) {
+  const key = normalizeName(name);
+  return template.categories.find((category) =>
+    [category.name].concat(category.aliases ?? []).some((candidate) => normalizeName(candidate) === key)
+  );
+}
+
+function roundTenth(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Computes the fit score as the weighted mean of skills matrix `matchScore`s. Categories the template names use its
+ * weight (several matrix categories mapping to one template category are averaged); other categories use the
+ * template's per-importance weight; required categories missing from the matrix count as a 0 match.
+ */
+export function aggregateFitScore(
+  matrix: SkillsMatrixResponse,
+  template: ScoringTemplate,
+  modelFitScore: number
+): { fitScore: number; breakdown: FitScoreBreakdown } {
+  const grouped = new Map<string, number[]>();
+  const rows: Array<Omit<CategoryScoreContribution, 'contribution'>> = [];
+
+  matrix.categories.forEach((entry) => {
+    const templateCategory = findTemplateCategory(template, entry.category);
+    if (templateCategory) {
+      grouped.set(templateCategory.name, (grouped.get(templateCategory.name) ?? []).concat(entry.matchScore));
+      return;
+    }
+    rows.push({
+      category: entry.category,
+      weight: template.unlistedCategoryWeights[entry.importance],
+      matchScore: entry.matchScore,
+      templateCategory: false,
+      missing: false
+    });
+  });
+
+  const missingRequiredCategories: string[] = [];
+  const templateRows = template.categories.flatMap((category) => {
+    const scores = grouped.get(category.name);
+    if (!scores && !category.required) {
+      return [];
+    }
+    if (!scores) {
+      missingRequiredCategories.push(category.name);
+    }
+    const matchScore = scores ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
+    return [{ category: category.name, weight: category.weight, matchScore, templateCategory: true, missing: !scores }];
+  });
+
+  const weightedRows = templateRows.concat(rows).filter((row) => row.weight > 0);
+  const totalWeight = weightedRows.reduce((sum, row) => sum + row.weight, 0);
+  const categories = weightedRows.map((row) => ({
+    ...row,
+    contribution: totalWeight ? roundTenth((row.weight * row.matchScore) / totalWeight) : 0
+  }));
+  const weightedSum = weightedRows.reduce((sum, row) => sum + row.weight * row.matchScore, 0);
+
+  return {
+    fitScore: totalWeight ? Math.round(weightedSum / totalWeight) : modelFitScore,
+    breakdown: {
+      templateId: template.id,
+      templateLabel: template.label,
+      modelFitScore,
+      categories,
+      missingRequiredCategories
+    }
+  };
+}
@@ -0,0 +1,224 @@
+import { parseJobDescription } from './jobDescriptionParser';
+import { getEmbeddings } from './openai';
+import { resolveEmbeddingProvider } from './providers/embeddings';
+import { parseResume } from './resumeParser';
+import { cleanExtractedText } from './textCleanup';
+import type {
+  EmbeddingProvider,
+  RequirementPriority,
+  RequirementSimilarity,
+  SemanticSimilarity,
+  SkillsMatrixResponse
+} from './types';
+
+const MAX_PASSAGES = 120;
+const MAX_FALLBACK_REQUIREMENTS = 30;
+/** Share of a skills matrix category's `candidateAlignment` taken from embedding similarity; the rest is the model's. */
+const SEMANTIC_ALIGNMENT_WEIGHT = 0.3;
+
+interface RequirementQuery {
+  id: string | null;
+  text: string;
+  priority: RequirementPriority;
+}
+
+interface QueryMatch {
+  similarity: number;
+  score: number;
+  bestMatch: string | null;
+}
+
+/**
+ * The configured embedding provider, or null when `EMBEDDING_PROVIDER` names an unknown or incompletely configured
+ * provider. Similarity is optional, so a bad setting disables it instead of failing the analysis.
+ */
+export function resolveSimilarityProvider(): EmbeddingProvider | null {
+  try {
+    return resolveEmbeddingProvider();
+  } catch (error) {
+    console.error('Embedding provider is misconfigured; semantic similarity is disabled', error);
+    return null;
+  }
+}
+
+function dedupe(values: string[]) {
+  return Array.from(new Set(values.map((value) => value.trim()).filter((value) => value.length > 2)));
+}
+
+/**
+ * Splits a resume into the passages requirements are matched against: the summary, each role with its highlights,
+ * each highlight on its own, skills, education, and certifications. Falls back to plain lines for unstructured text.
+ */
+function resumePassages(resumeText: string): string[] {
+  const parsed = parseResume(resumeText);
+  const passages = dedupe([
+    parsed.summary ?? '',
+    ...parsed.experience.flatMap((entry) => {
+      const header = [entry.title, entry.employer].filter(Boolean).join(' at ');
+      return [[header, ...entry.highlights].join('. '), ...entry.highlights];
+    }),
+    parsed.skills.join(', '),
+    ...parsed.education.map((entry) => [entry.degree, entry.institution, ...entry.details].filter(Boolean).join(', ')),
+    ...parsed.certifications,
+    ...parsed.otherSections.flatMap((section) => section.lines)
+  ]);
+
+  if (passages.length >= 3) {
+    return passages.slice(0, MAX_PASSAGES);
+  }
+  return dedupe(cleanExtractedText(resumeText).split(/\n+|(?:[.!?]\s+)/)).slice(0, MAX_PASSAGES);
+}
+
+function requirementQueries(jobDescription: string): RequirementQuery[] {
+  const { requirements } = parseJobDescription(jobDescription);
+  if (requirements.length) {
+    return requirements.map(({ id, text, priority }) => ({ id, text, priority }));
+  }
+  return dedupe(cleanExtractedText(jobDescription).split('\n'))
+    .slice(0, MAX_FALLBACK_REQUIREMENTS)
+    .map((text) => ({ id: null, text, priority: 'must-have' as const }));
+}
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function calibrate(similarity: number, { low, high }: EmbeddingProvider['similarityRange']) {
+  return Math.round(Math.min(1, Math.max(0, (similarity - low) / (high - low))) * 100);
+}
+
+/** Embeds queries and passages in one batch and finds each query's best-matching passage. */
+async function matchQueries(
+  queries: string[],
+  passages: string[]
+): Promise<{ provider: EmbeddingProvider; matches: QueryMatch[] }> {
+  const { provider, vectors } = await getEmbeddings(queries.concat(passages));
+  const passageVectors = vectors.slice(queries.length);
+
+  const matches = queries.map((_, queryIndex) => {
+    let best = { similarity: 0, index: -1 };
+    passageVectors.forEach((vector, passageIndex) => {
+      const similarity = cosine(vectors[queryIndex], vector);
+      if (similarity > best.similarity) {
+        best = { similarity, index: passageIndex };
+      }
+    });
+    return {
+      similarity: Math.round(best.similarity * 1000) / 1000,
+      score: calibrate(best.similarity, provider.similarityRange),
+      bestMatch: best.index >= 0 ? passages[best.index] : null
+    };
+  });
+
+  return { provider, matches };
+}
+
+function weightedScore(requirements: RequirementSimilarity[]) {
+  const weightOf = (priority: RequirementPriority) => (priority === 'must-have' ? 2 : 1);
+  const totalWeight = requirements.reduce((sum, requirement) => sum + weightOf(requirement.priority), 0);
+  const weighted = requirements.reduce((sum, requirement) => sum + requirement.score * weightOf(requirement.priority), 0);
+  return totalWeight ? Math.round(weighted / totalWeight) : 0;
+}
+
+/**
+ * Scores every parsed job requirement (or JD line, when none were recognized) by its embedding similarity to the
+ * closest resume passage. Returns null when either side is empty or embedding fails, so analysis proceeds without it.
+ */
+export async function computeSemanticSimilarity(
+  resumeText: string,
+  jobDescription: string
+): Promise<SemanticSimilarity | null> {
+  if (!resolveSimilarityProvider()) {
+    return null;
+  }
+  const queries = requirementQueries(jobDescription);
+  const passages = resumePassages(resumeText);
+  if (!queries.length || !passages.length) {
+    return null;
+  }
+
+  try {
+    const { provider, matches } = await matchQueries(
+      queries.map((query) => query.text),
+      passages
+    );
+    const requirements: RequirementSimilarity[] = queries.map((query, index) => ({
+      requirementId: query.id,
+      requirement: query.text,
+      priority: query.priority,
+      ...matches[index]
+    }));
+    return { provider: provider.name, model: provider.model, score: weightedScore(requirements), requirements };
+  } catch (error) {
+    console.error('Failed to compute semantic similarity', error);
+    return null;
+  }
+}
+
+/**
+ * Blends embedding similarity into each category's `candidateAlignment`. Categories linked to parsed requirements use
+ * the mean similarity of those requirements; others are matched on their name and required keywords.
+ */
+export async function applySemanticAlignment(
+  matrix: SkillsMatrixResponse,
+  resumeText: string,
+  jobDescription: string
+): Promise<SkillsMatrixResponse> {
+  const passages = resumePassages(resumeText);
+  if (!matrix.categories.length || !passages.length || !resolveSimilarityProvider()) {
+    return matrix;
+  }
+
+  const { requirements } = parseJobDescription(jobDescription);
+  const categoryQueries = matrix.categories.map((entry) =>
+    [entry.category, ...entry.requiredKeywords, ...entry.inferredRequirements].join(', ')
+  );
+
+  try {
+    const { matches } = await matchQueries(
+      requirements.map((requirement) => requirement.text).concat(categoryQueries),
+      passages
+    );
+    const requirementScores = new Map(requirements.map((requirement, index) => [requirement.id, matches[index].score]));
+
+    const categories = matrix.categories.map((entry, index) => {
+      const linked = (entry.requirementIds ?? [])
+        .map((id) => requirementScores.get(id))
+        .filter((score): score is number => score !== undefined);
+      const semanticAlignment = linked.length
+        ? Math.round(linked.reduce((sum, score) => sum + score, 0) / linked.length)
+        : matches[requirements.length + index].score;
+      const candidateAlignment = Math.round(
+        entry.candidateAlignment * (1 - SEMANTIC_ALIGNMENT_WEIGHT) + semanticAlignment * SEMANTIC_ALIGNMENT_WEIGHT
+      );
+      return { ...entry, semanticAlignment, candidateAlignment };
+    });
+
+    return { ...matrix, categories };
+  } catch (error) {
+    console.error('Failed to apply semantic alignment to the skills matrix', error);
+    return matrix;
+  }
+}
+
+/** Prompt section listing each requirement's calibrated similarity and best-matching resume passage. */
+export function buildSemanticSimilaritySection(similarity: SemanticSimilarity | null | undefined): string {
+  if (!similarity?.requirements.length) {
+    return '';
+  }
+  const truncate = (value: string) => (value.length > 140 ? `${value.slice(0, 137)}...` : value);
+  const lines = similarity.requirements.map((requirement) => {
+    const label = requirement.requirementId ? `[${requirement.requirementId}]` : `"${truncate(requirement.requirement)}"`;
+    const match = requirement.bestMatch ? ` <- "${truncate(requirement.bestMatch)}"` : '';
+    return `- ${label} ${requirement.score}/100${match}`;
+  });
+  return `\n\nSemantic Similarity (embedding match of each requirement to its closest resume passage, calibrated 0-100; overall ${similarity.score}/100):\n${lines.join('\n')}`;
+}
@@ -0,0 +1,115 @@
+import mammoth from 'mammoth';
+
+import { importJobDescription } from './jobPostingImport';
+import { detectLanguage } from './languageDetection';
+import { PayloadError } from './requestErrors';
+import { cleanExtractedText, stripRtf } from './textCleanup';
+import type { DocumentFormat, ExtractedDocument, ExtractedPage } from './types';
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  txt: 'txt',
+  md: 'md',
+  rtf: 'rtf',
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  json: 'json'
+};
+
+export class DocumentExtractionError extends PayloadError {
+  constructor(message: string, status = 422) {
+    super(message, status);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+export function detectDocumentFormat(fileName: string): DocumentFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_FORMATS[extension] ?? null;
+}
+
+async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  // The legacy build runs in Node without a DOM; loaded lazily so routes that never see PDFs skip the cost.
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.js');
+  const pdf = await pdfjsLib.getDocument({
+    data: new Uint8Array(buffer),
+    useSystemFonts: true,
+    isEvalSupported: false
+  }).promise;
+
+  try {
+    const pageTexts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items
+        .map((item) => ('str' in item && typeof item.str === 'string' ? item.str : ''))
+        .filter((segment) => segment.trim().length > 0)
+        .join(' ');
+      pageTexts.push(pageText);
+    }
+    return pageTexts;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Server-side counterpart of the browser upload pipeline: extracts PDF, DOCX, RTF, Markdown and plain text with bundled
+ * libraries, imports HTML and JSON-LD job postings, and applies the same `cleanExtractedText` normalization, keeping
+ * per-page text for PDFs and detecting the document's language.
+ */
+export async function extractDocument(buffer: Buffer, fileName: string): Promise<ExtractedDocument> {
+  const format = detectDocumentFormat(fileName);
+  if (!format) {
+    throw new DocumentExtractionError(
+      'Unsupported file type. Please upload a TXT, MD, RTF, PDF, DOCX, HTML, or JSON file.',
+      415
+    );
+  }
+
+  let rawPages: string[];
+  if (format === 'html' || format === 'json') {
+    try {
+      rawPages = [importJobDescription(buffer.toString('utf8'), format)];
+    } catch (error) {
+      throw new DocumentExtractionError(`Unable to import ${fileName}. ${(error as Error).message}`);
+    }
+  } else {
+    try {
+      if (format === 'pdf') {
+        rawPages = await extractPdfPages(buffer);
+      } else if (format === 'docx') {
+        const result = await mammoth.extractRawText({ buffer });
+        rawPages = [result.value ?? ''];
+      } else {
+        const rawText = buffer.toString('utf8');
+        rawPages = [format === 'rtf' ? stripRtf(rawText) : rawText];
+      }
+    } catch (error) {
+      console.error(`Failed to extract text from ${fileName}`, error);
+      throw new DocumentExtractionError(`Unable to read ${fileName}. The file may be corrupted or password protected.`);
+    }
+  }
+
+  const pages: ExtractedPage[] = rawPages.map((pageText, index) => {
+    const text = cleanExtractedText(pageText);
+    return { pageNumber: index + 1, text, characterCount: text.length };
+  });
+
+  const text = cleanExtractedText(rawPages.join('\n'));
+  if (!text) {
+    throw new DocumentExtractionError(`Unable to extract readable text from ${fileName}.`);
+  }
+
+  return {
+    fileName,
+    format,
+    text,
+    characterCount: text.length,
+    pageCount: pages.length,
+    pages,
+    language: detectLanguage(text)
+  };
+}
@@ -1,3 +1,17 @@
+import {
+  checkNullableString,
+  checkScore,
+  checkStringArray,
+  formatIssue,
+  parseJsonObject,
+  type ParseResult,
+  type ValidationIssue
+} from './modelOutput';
+import { createEvidenceLocator, readCitations, type EvidenceLocator, type EvidenceSources } from './evidence';
+import { buildJobContextSection } from './jobDescriptionParser';
+import { buildLanguageSection } from './languageDetection';
+import { buildResumeContextSection } from './resumeParser';
+import { buildScoringTemplateSection, formatImportanceBands, getScoringTemplate } from './scoringTemplates';
 import type {
   AzureOpenAIChatMessage,
   SkillsMatrixEntry,
@@ -6,6 +20,9 @@ import type {
   SkillImportance
 } from './types';
 
+/** Bump whenever the prompt or schema changes so cached responses are not reused across versions. */
+export const SKILLS_MATRIX_PROMPT_VERSION = 'skills-matrix-v9';
+
 const OUTPUT_SCHEMA = `{
   "summary": string | null,
   "categories": [
@@ -19,7 +36,9 @@ const OUTPUT_SCHEMA = `{
       "inferred_requirements": string[] (0-6 items, contextual inferences),
       "resume_keywords": string[] (0-8 items, resume evidence),
       "experience_evidence": string | null,
-      "gap_reason": string | null
+      "evidence_quotes": string[] (1-3 verbatim resume snippets backing experience_evidence; [] when it is null),
+      "gap_reason": string | null,
+      "requirement_ids": string[] (IDs of the structured job requirements this category covers; [] if none were provided)
     }
   ]
 }`;
@@ -44,10 +63,13 @@ const IMPORTANCE_ALIASES: Record<string, SkillImportance> = {
 
 export function buildSkillsMatrixPrompt({
   resumeText,
-  jobDescription
+  jobDescription,
+  scoringTemplate,
+  outputLanguage
 }: SkillsMatrixRequest): AzureOpenAIChatMessage[] {
   const trimmedResume = resumeText.trim();
   const trimmedJob = jobDescription.trim();
+  const template = getScoringTemplate(scoringTemplate);
 
   return [
     {
@@ -57,38 +79,66 @@ export function buildSkillsMatrixPrompt({
     },
     {
       role: 'user',
-      content: `Create a semantic skills comparison matrix using the following schema:\n${OUTPUT_SCHEMA}\n\nExpectations:\n- Identify distinct categories that cover core technical competencies, inferred or adjacent tooling, role expectations & soft skills, and business or industry domain knowledge. You may add other categories if meaningful.\n- Derive "required_keywords" from explicit job description language.\n- Populate "inferred_requirements" with contextual needs implied by the role (e.g., mention of dashboards implies BI tooling).\n- List "resume_keywords" using synonyms or equivalent skills from the candidate resume, even if phrasing differs.\n- Summarize key evidence of depth in "experience_evidence" (e.g., led a team, architected solution).\n- For "importance", classify as core (mission critical), complementary (important but not central), or bonus (nice-to-have).\n- Weight scores by importance:\n  • job_emphasis should reflect how heavily the job prioritizes the skill (core ~85-100, complementary ~55-80, bonus ~25-50).\n  • candidate_alignment should reflect demonstrated proficiency from the resume, considering depth indicators.\n  • match_score should synthesize alignment vs. requirement, emphasizing gaps for high-importance categories.\n- Provide "gap_reason" when the match_score is below 80, clarifying missing evidence or weaker depth.\n- Keep arrays concise, avoiding generic or irrelevant buzzwords.\n- Always produce at least four categories if information is available.\n\nJob Description:\n"""\n${trimmedJob}\n"""\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""`
+      content: `Create a semantic skills comparison matrix using the following schema:\n${OUTPUT_SCHEMA}\n\nExpectations:\n- Identify distinct categories that cover core technical competencies, inferred or adjacent tooling, role expectations & soft skills, and business or industry domain knowledge. You may add other categories if meaningful.\n- Derive "required_keywords" from explicit job description language.\n- Populate "inferred_requirements" with contextual needs implied by the role (e.g., mention of dashboards implies BI tooling).\n- List "resume_keywords" using synonyms or equivalent skills from the candidate resume, even if phrasing differs.\n- Summarize key evidence of depth in "experience_evidence" (e.g., led a team, architected solution) and back it with "evidence_quotes" copied exactly from the resume; quotes that do not appear in the resume are discarded.\n- For "importance", classify as core (mission critical), complementary (important but not central), or bonus (nice-to-have).\n- Weight scores by importance:\n  • job_emphasis should reflect how heavily the job prioritizes the skill (${formatImportanceBands(template?.importanceBands)}).\n  • candidate_alignment should reflect demonstrated proficiency from the resume, considering depth indicators.\n  • match_score should synthesize alignment vs. requirement, emphasizing gaps for high-importance categories.\n- Provide "gap_reason" when the match_score is below 80, clarifying missing evidence or weaker depth.\n- Keep arrays concise, avoiding generic or irrelevant buzzwords.\n- Bracketed placeholders such as [CANDIDATE_NAME] stand in for redacted personal details; copy them unchanged and never guess what they hide.\n- Always produce at least four categories if information is available.\n- When structured job requirements are provided, treat must-have requirements as core, list the IDs each category covers in "requirement_ids", and make sure every must-have requirement is covered by some category.\n\nJob Description:\n"""\n${trimmedJob}\n"""${buildJobContextSection(trimmedJob)}\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""${buildResumeContextSection(trimmedResume)}${buildScoringTemplateSection(template)}${buildLanguageSection(trimmedResume, trimmedJob, outputLanguage)}`
     }
   ];
 }
 
-export function parseSkillsMatrixResponse(content: string): SkillsMatrixResponse {
-  const jsonPayload = extractJson(content);
-  const data = JSON.parse(jsonPayload) as {
-    summary?: unknown;
-    categories?: unknown;
-  };
+/**
+ * Validates a skills matrix completion. `requirementIds` are the IDs offered in the prompt; references to any other ID
+ * are dropped with a warning. Evidence quotes are located in the resume in `sources`; unmatched quotes are dropped.
+ */
+export function parseSkillsMatrixResponse(
+  content: string,
+  requirementIds: string[],
+  sources: EvidenceSources
+): ParseResult<SkillsMatrixResponse> {
+  const issues: ValidationIssue[] = [];
+  const data = parseJsonObject(content, issues);
+  if (!data) {
+    return { value: null, issues };
+  }
 
-  const categories = Array.isArray(data.categories) ? data.categories : [];
+  checkNullableString(data.summary, 'summary', issues);
 
-  const parsedCategories: SkillsMatrixEntry[] = categories
-    .map((raw) => normalizeCategory(raw))
+  if (!Array.isArray(data.categories)) {
+    issues.push({ path: 'categories', message: 'expected an array of category objects', fatal: true });
+    return { value: null, issues };
+  }
+
+  const locator = createEvidenceLocator(sources);
+  const parsedCategories: SkillsMatrixEntry[] = data.categories
+    .map((raw, index) => normalizeCategory(raw, `categories[${index}]`, issues, requirementIds, locator))
     .filter((category): category is SkillsMatrixEntry => category !== null);
 
   const summary = normalizeString(data.summary);
 
-  return {
+  const value: SkillsMatrixResponse = {
     summary: summary ?? undefined,
     categories: parsedCategories
   };
+
+  if (issues.length) {
+    value.warnings = issues.map(formatIssue);
+  }
+
+  return { value, issues };
 }
 
-function normalizeCategory(raw: unknown): SkillsMatrixEntry | null {
+function normalizeCategory(
+  raw: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  knownRequirementIds: string[],
+  locator: EvidenceLocator
+): SkillsMatrixEntry | null {
   if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'expected a category object; dropped', fatal: false });
     return null;
   }
 
   const entry = raw as Record<string, unknown>;
+  validateCategory(entry, path, issues);
 
   const category = normalizeString(entry.category) ?? 'Uncategorized';
   const importance = normalizeImportance(entry.importance);
@@ -97,11 +147,23 @@ function normalizeCategory(raw: unknown): SkillsMatrixEntry | null {
   const resumeKeywords = normalizeStringArray(entry.resume_keywords ?? entry.resumeKeywords);
   const experienceEvidence = normalizeString(entry.experience_evidence ?? entry.experienceEvidence) ?? undefined;
   const gapReason = normalizeString(entry.gap_reason ?? entry.gapReason) ?? undefined;
+  const evidenceQuotes = entry.evidence_quotes ?? entry.evidenceQuotes;
+  if (experienceEvidence && (!evidenceQuotes || (Array.isArray(evidenceQuotes) && !evidenceQuotes.length))) {
+    issues.push({ path: `${path}.evidence_quotes`, message: 'missing; quote the resume for experience_evidence', fatal: false });
+  }
+  const evidenceCitations = readCitations(evidenceQuotes, `${path}.evidence_quotes`, issues, locator);
   const jobEmphasis = clampScore(entry.job_emphasis ?? entry.jobEmphasis);
   const candidateAlignment = clampScore(entry.candidate_alignment ?? entry.candidateAlignment);
   const matchScore = clampScore(entry.match_score ?? entry.matchScore);
+  const requirementIds = normalizeRequirementIds(
+    entry.requirement_ids ?? entry.requirementIds,
+    knownRequirementIds,
+    `${path}.requirement_ids`,
+    issues
+  );
 
   if (!requiredKeywords.length && !resumeKeywords.length && !inferredRequirements.length) {
+    issues.push({ path, message: 'category has no keywords or requirements; dropped', fatal: false });
     return null;
   }
 
@@ -112,16 +174,66 @@ function normalizeCategory(raw: unknown): SkillsMatrixEntry | null {
     inferredRequirements,
     resumeKeywords,
     experienceEvidence,
+    evidenceCitations,
     jobEmphasis,
     candidateAlignment,
     matchScore,
-    gapReason
+    gapReason,
+    requirementIds
   };
 }
 
+function normalizeRequirementIds(
+  value: unknown,
+  knownIds: string[],
+  path: string,
+  issues: ValidationIssue[]
+): string[] {
+  const ids = normalizeStringArray(value).map((id) => id.replace(/[[\]]/g, '').toUpperCase());
+  const unknown = ids.filter((id) => !knownIds.includes(id));
+  if (unknown.length) {
+    issues.push({ path, message: `unknown requirement IDs ${unknown.join(', ')}; dropped`, fatal: false });
+  }
+  return ids.filter((id, index) => knownIds.includes(id) && ids.indexOf(id) === index);
+}
+
+function validateCategory(entry: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  if (!normalizeString(entry.category)) {
+    issues.push({ path: `${path}.category`, message: 'missing; defaulted to "Uncategorized"', fatal: false });
+  }
+  if (!isKnownImportance(entry.importance)) {
+    issues.push({
+      path: `${path}.importance`,
+      message: `expected "core", "complementary" or "bonus", got ${JSON.stringify(entry.importance)}; defaulted to "complementary"`,
+      fatal: false
+    });
+  }
+  checkScore(entry.job_emphasis ?? entry.jobEmphasis, `${path}.job_emphasis`, issues, false);
+  checkScore(entry.candidate_alignment ?? entry.candidateAlignment, `${path}.candidate_alignment`, issues, false);
+  checkScore(entry.match_score ?? entry.matchScore, `${path}.match_score`, issues, false);
+  checkStringArray(entry.required_keywords ?? entry.requiredKeywords, `${path}.required_keywords`, issues, {
+    minItems: 3,
+    maxItems: 8
+  });
+  checkStringArray(entry.inferred_requirements ?? entry.inferredRequirements, `${path}.inferred_requirements`, issues, {
+    maxItems: 6
+  });
+  checkStringArray(entry.resume_keywords ?? entry.resumeKeywords, `${path}.resume_keywords`, issues, { maxItems: 8 });
+  checkNullableString(entry.experience_evidence ?? entry.experienceEvidence, `${path}.experience_evidence`, issues);
+  checkNullableString(entry.gap_reason ?? entry.gapReason, `${path}.gap_reason`, issues);
+}
+
+function isKnownImportance(value: unknown): boolean {
+  return typeof value === 'string' && Boolean(IMPORTANCE_ALIASES[importanceKey(value)]);
+}
+
+function importanceKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, '').replace(/-/g, '');
+}
+
 function normalizeImportance(value: unknown): SkillImportance {
   if (typeof value === 'string') {
-    const key = value.toLowerCase().replace(/\s+/g, '').replace(/-/g, '');
+    const key = importanceKey(value);
     if (IMPORTANCE_ALIASES[key]) {
       return IMPORTANCE_ALIASES[key];
     }
@@ -176,11 +288,3 @@ function normalizeStringArray(value: unknown): string[] {
   }
   return unique;
 }
-
-function extractJson(raw: string): string {
-  const jsonMatch = raw.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Model response did not contain valid JSON.');
-  }
-  return jsonMatch[0];
-}
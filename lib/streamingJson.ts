@@ -0,0 +1,79 @@
+export interface JsonSection {
+  key: string;
+  value: unknown;
+}
+
+export interface JsonSectionScanner {
+  /** Appends a streamed chunk and returns the top-level fields whose values completed within it. */
+  push: (chunk: string) => JsonSection[];
+  text: () => string;
+}
+
+/**
+ * Incrementally scans a streamed JSON object and reports each top-level property as soon as its value is closed, so
+ * callers can render early fields (e.g. `fit_score`) while later arrays are still being generated.
+ */
+export function createJsonSectionScanner(): JsonSectionScanner {
+  let buffer = '';
+  let index = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let keyStart = -1;
+  let key: string | null = null;
+  let valueStart = -1;
+
+  const push = (chunk: string): JsonSection[] => {
+    buffer += chunk;
+    const sections: JsonSection[] = [];
+
+    for (; index < buffer.length; index += 1) {
+      const char = buffer[index];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1 && keyStart >= 0) {
+            key = JSON.parse(buffer.slice(keyStart, index + 1)) as string;
+            keyStart = -1;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        if (depth === 1 && valueStart < 0) {
+          keyStart = index;
+        }
+      } else if (char === '{' || char === '[') {
+        depth += 1;
+      } else if (depth === 1 && char === ':' && key !== null && valueStart < 0) {
+        valueStart = index + 1;
+      } else if (depth === 1 && (char === ',' || char === '}')) {
+        if (key !== null && valueStart >= 0) {
+          try {
+            sections.push({ key, value: JSON.parse(buffer.slice(valueStart, index)) });
+          } catch {
+            // Malformed values are left for full-response validation to report.
+          }
+        }
+        key = null;
+        valueStart = -1;
+        if (char === '}') {
+          depth -= 1;
+        }
+      } else if (char === '}' || char === ']') {
+        depth -= 1;
+      }
+    }
+
+    return sections;
+  };
+
+  return { push, text: () => buffer };
+}
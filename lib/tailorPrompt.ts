@@ -0,0 +1,171 @@
+import {
+  checkNullableString,
+  checkStringArray,
+  formatIssue,
+  parseJsonObject,
+  type ParseResult,
+  type ValidationIssue
+} from './modelOutput';
+import { createEvidenceLocator, type EvidenceSources } from './evidence';
+import { buildJobContextSection } from './jobDescriptionParser';
+import { tokenize } from './keywordScoring';
+import { diffWords } from './textDiff';
+import type { AnalysisResponse, AzureOpenAIChatMessage, ResumeRewrite } from './types';
+
+/** Bump whenever the prompt or schema changes so cached responses are not reused across versions. */
+export const TAILOR_PROMPT_VERSION = 'tailor-v3';
+
+const OUTPUT_SCHEMA = `{
+  "rewrites": [
+    {
+      "original": string (one resume bullet or sentence, copied verbatim),
+      "rewritten": string,
+      "rationale": string (the gap or job requirement this addresses),
+      "job_keywords": string[] (job description terms the rewrite now uses)
+    }
+  ] (3-8 items),
+  "notes": string | null
+}`;
+
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+/** The parts of an analysis that steer rewrites; fit score and citations would only add noise. */
+export type TailorGuidance = Pick<AnalysisResponse, 'weaknesses' | 'recommendations'>;
+
+export function buildTailorPrompt(
+  { resumeText, jobDescription }: EvidenceSources,
+  { weaknesses, recommendations }: TailorGuidance
+): AzureOpenAIChatMessage[] {
+  const trimmedResume = resumeText.trim();
+  const trimmedJob = jobDescription.trim();
+  const formatList = (items: string[]) => (items.length ? items.map((item) => `- ${item}`).join('\n') : '- (none)');
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are an expert resume editor helping a candidate present their real experience for a specific job. Respond ONLY with valid JSON that matches the provided schema. Never invent employers, titles, tools, metrics, or achievements.'
+    },
+    {
+      role: 'user',
+      content: `Suggest concrete rewrites of resume bullets so the resume better reflects this job description. Return a JSON object that follows this schema:\n${OUTPUT_SCHEMA}\n\nGuidance:\n- "original" must be copied exactly from the resume; it is located in the resume and replaced by "rewritten", and rewrites whose original cannot be found are discarded. Pick separate, non-overlapping passages.\n- Ground every rewrite only in facts already stated in the resume: rephrase, reorder, and use the job description's terminology for experience the candidate actually has. Do not add numbers, tools, or skills the resume does not mention.\n- Prioritize the gaps and recommendations from the existing analysis below, then the must-have requirements.\n- Keep each rewrite about as long as the original, in the same voice and in the resume's language, even when the job description is written in another; carry the job's terminology over in translation.\n- Use "notes" for gaps that rewording cannot close (missing experience or credentials); return null if there are none.\n- Bracketed placeholders such as [CANDIDATE_NAME] stand in for redacted personal details; copy them unchanged and never guess what they hide.\n\nGaps identified by the analysis:\n${formatList(weaknesses)}\n\nRecommendations from the analysis:\n${formatList(recommendations)}\n\nJob Description:\n"""\n${trimmedJob}\n"""${buildJobContextSection(trimmedJob)}\n\nCandidate Resume:\n"""\n${trimmedResume}\n"""`
+    }
+  ];
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeString(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeStringArray(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/\n|,/) : [];
+  return items
+    .map(normalizeString)
+    .filter((item, index, all): item is string => Boolean(item) && all.indexOf(item) === index);
+}
+
+/**
+ * Numbers and job description terms in `rewritten` that the resume never mentions. Terms are compared after the
+ * keyword baseline's synonym mapping and stemming, so rephrasing ("k8s" → "Kubernetes") is not flagged.
+ */
+function findUnsupportedTerms(rewritten: string, resumeText: string, jobTerms: Set<string>, resumeTerms: Set<string>) {
+  const numbers = (rewritten.match(NUMBER_PATTERN) ?? []).filter((number) => !resumeText.includes(number));
+  const terms = tokenize(rewritten)
+    .filter(({ term }) => jobTerms.has(term) && !resumeTerms.has(term))
+    // Tokens are lowercased; show the word as the rewrite spells it.
+    .map(({ surface }) => rewritten.match(new RegExp(`\\b${escapeRegExp(surface)}\\b`, 'i'))?.[0] ?? surface);
+  return Array.from(new Set(numbers.concat(terms)));
+}
+
+/**
+ * Validates a tailoring completion against `sources`. Each rewrite's original is located in the resume; rewrites that
+ * cannot be located, change nothing, or overlap an earlier rewrite are dropped. Rewrites that introduce facts the
+ * resume lacks are kept, with those terms listed, and reported so a repair turn can remove them.
+ */
+export function parseTailorResponse(
+  content: string,
+  sources: EvidenceSources
+): ParseResult<{ rewrites: ResumeRewrite[]; notes?: string; warnings?: string[] }> {
+  const issues: ValidationIssue[] = [];
+  const data = parseJsonObject(content, issues);
+  if (!data) {
+    return { value: null, issues };
+  }
+  if (!Array.isArray(data.rewrites)) {
+    issues.push({ path: 'rewrites', message: 'expected an array of rewrite objects', fatal: true });
+    return { value: null, issues };
+  }
+  checkNullableString(data.notes, 'notes', issues);
+
+  const locator = createEvidenceLocator(sources);
+  const jobTerms = new Set(tokenize(sources.jobDescription).map(({ term }) => term));
+  const resumeTerms = new Set(tokenize(sources.resumeText).map(({ term }) => term));
+  const rewrites: ResumeRewrite[] = [];
+
+  data.rewrites.forEach((raw, index) => {
+    const path = `rewrites[${index}]`;
+    const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const originalQuote = normalizeString(entry.original ?? entry.before);
+    const rewritten = normalizeString(entry.rewritten ?? entry.after);
+    if (!originalQuote || !rewritten) {
+      issues.push({ path, message: 'expected "original" and "rewritten" strings; dropped', fatal: false });
+      return;
+    }
+
+    const original = locator('resume', originalQuote);
+    if (!original) {
+      issues.push({ path: `${path}.original`, message: 'not found verbatim in the resume; dropped', fatal: false });
+      return;
+    }
+    if (rewritten === original.quote.trim()) {
+      issues.push({ path: `${path}.rewritten`, message: 'identical to the original; dropped', fatal: false });
+      return;
+    }
+    if (rewrites.some((existing) => existing.original.start < original.end && original.start < existing.original.end)) {
+      issues.push({ path: `${path}.original`, message: 'overlaps an earlier rewrite; dropped', fatal: false });
+      return;
+    }
+
+    checkStringArray(entry.job_keywords ?? entry.jobKeywords, `${path}.job_keywords`, issues);
+    const unsupportedTerms = findUnsupportedTerms(rewritten, sources.resumeText, jobTerms, resumeTerms);
+    if (unsupportedTerms.length) {
+      issues.push({
+        path: `${path}.rewritten`,
+        message: `introduces ${unsupportedTerms.join(', ')}, which the resume does not mention; use only facts from the resume`,
+        fatal: false
+      });
+    }
+
+    rewrites.push({
+      original,
+      rewritten,
+      diff: diffWords(original.quote, rewritten),
+      rationale: normalizeString(entry.rationale) ?? '',
+      jobKeywords: normalizeStringArray(entry.job_keywords ?? entry.jobKeywords),
+      unsupportedTerms
+    });
+  });
+
+  if (!rewrites.length) {
+    issues.push({ path: 'rewrites', message: 'no usable rewrites of resume passages', fatal: true });
+    return { value: null, issues };
+  }
+
+  const notes = normalizeString(data.notes) ?? undefined;
+  return {
+    value: {
+      rewrites: rewrites.sort((a, b) => a.original.start - b.original.start),
+      notes,
+      warnings: issues.length ? issues.map(formatIssue) : undefined
+    },
+    issues
+  };
+}
@@ -0,0 +1,56 @@
+export const stripRtf = (value: string) =>
+  value
+    .replace(/\{\\(?:\*?[^}]|[^{}])*}/g, ' ')
+    .replace(/\n/g, ' ')
+    .replace(/\\'[0-9a-fA-F]{2}/g, (match) =>
+      String.fromCharCode(parseInt(match.slice(2), 16))
+    )
+    .replace(/\\[a-zA-Z]+-?\d* ?/g, ' ')
+    .replace(/[{}]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const LIGATURES: Record<string, string> = { 'ﬀ': 'ff', 'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬃ': 'ffi', 'ﬄ': 'ffl', 'ﬅ': 'st', 'ﬆ': 'st' };
+
+/** Page footers in the supported languages: "Page 2 of 3", "Page 2 sur 3", "Seite 2 von 3", "Página 2 de 3"... */
+const PAGE_MARKER = /^(?:page|seite|p[aá]gina|pag\.|p[aá]g\.|blz\.)\s*\d+(?:\s*(?:of|sur|von|de|di|van|\/)\s*\d+)?$/gim;
+
+/** Strips accents for matching ("Développement" → "developpement"); ß, æ and œ have no decomposition. */
+export const foldDiacritics = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/æ/g, 'ae')
+    .replace(/Æ/g, 'AE')
+    .replace(/œ/g, 'oe')
+    .replace(/Œ/g, 'OE');
+
+export const cleanExtractedText = (value: string) => {
+  const normalized = value
+    // Composed accents, so "é" is one character whichever way the extractor or the keyboard produced it.
+    .normalize('NFC')
+    .replace(/[ﬀ-ﬆ]/g, (ligature) => LIGATURES[ligature] ?? ligature)
+    .replace(/[\u00a0\u2007\u202f]/g, ' ')
+    .replace(/\u00ad/g, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\f/g, '\n')
+    .replace(/\u0000/g, '')
+    .replace(/^[\t ]*\d+[\t ]*$/gm, '')
+    .replace(PAGE_MARKER, '')
+    .replace(/^(title|author|subject|keywords|creator|producer|creationdate|moddate):.*$/gim, '')
+    .replace(/[ \t]+\n/g, '\n');
+
+  const lines = normalized
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/[^\S\n]+/g, ' ')
+        .replace(/\s?[-–—]\s?/g, (match) => (match.trim() === '-' ? ' - ' : ' '))
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .filter((line, index, array) => line.length > 0 || (index > 0 && array[index - 1].length > 0));
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
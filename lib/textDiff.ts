@@ -0,0 +1,61 @@
+import type { DiffSegment } from './types';
+
+/** Above this many token pairs the LCS table gets expensive; the texts are then shown as replaced wholesale. */
+const MAX_DIFF_CELLS = 250000;
+
+/** Words and the whitespace between them, so joining the tokens restores the text exactly. */
+function tokenizeWords(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of `before` and `after` via longest common subsequence. Joining the `equal` and `removed` segments
+ * gives `before`; joining `equal` and `added` gives `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : [])
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, 'added', b[j]);
+      j += 1;
+    }
+  }
+  a.slice(i).forEach((token) => pushSegment(segments, 'removed', token));
+  b.slice(j).forEach((token) => pushSegment(segments, 'added', token));
+  return segments;
+}
@@ -1,8 +1,130 @@
-export interface AnalysisRequest {
+export type GenerationProfileName = 'default' | 'balanced' | 'deterministic';
+
+export interface GenerationSettings {
+  temperature: number;
+  topP?: number;
+  seed?: number;
+}
+
+export interface AnalysisOptions {
+  generationProfile?: GenerationProfileName;
+  /** Number of independent analyses to aggregate (1 disables ensemble mode). */
+  ensembleRuns?: number;
+  /** Scoring template ID; when set, `fitScore` is the template-weighted aggregate of skills matrix categories. */
+  scoringTemplate?: string;
+  /** Keep PII placeholders in the response (and cite the redacted text) so reviewers never see the candidate's identity. */
+  blindReview?: boolean;
+  /** Language of the generated text; English when omitted. Quotes and keywords stay in the documents' language. */
+  outputLanguage?: LanguageCode;
+}
+
+/** Languages the detector recognizes and the model can be asked to write in. */
+export type LanguageCode = 'en' | 'fr' | 'de' | 'es' | 'pt' | 'it' | 'nl';
+
+export interface DetectedLanguage {
+  /** Null when the text is too short or mixed to tell. */
+  code: LanguageCode | null;
+  /** Lead of the best language's stopword share over the runner-up (0-1). */
+  confidence: number;
+}
+
+export interface DocumentLanguages {
+  resume: DetectedLanguage;
+  jobDescription: DetectedLanguage;
+}
+
+export type PiiKind = 'name' | 'email' | 'phone' | 'url' | 'address' | 'location' | 'personal';
+
+export interface RedactionEntity {
+  /** Stable within a document, e.g. `[EMAIL_1]`; the same value always gets the same placeholder. */
+  placeholder: string;
+  kind: PiiKind;
+  value: string;
+}
+
+/** The documents as the model saw them; returned in blind review so the UI can show and highlight them. */
+export interface RedactedDocuments {
+  resumeText: string;
+  jobDescription: string;
+}
+
+export interface AnalysisRequest extends AnalysisOptions {
   resumeText: string;
   jobDescription: string;
 }
 
+export interface ScoreStability {
+  runs: number;
+  scores: number[];
+  median: number;
+  mean: number;
+  standardDeviation: number;
+  /** 95% confidence band around the median fit score. */
+  low: number;
+  high: number;
+}
+
+export type CitationSource = 'resume' | 'jobDescription';
+
+/** A verbatim passage backing a claim; offsets index into the resume or job description text as submitted. */
+export interface EvidenceCitation {
+  source: CitationSource;
+  /** Exact text at `start`-`end`, which may differ from the model's quote in whitespace, case or punctuation. */
+  quote: string;
+  start: number;
+  end: number;
+}
+
+export interface CategoryScoreContribution {
+  category: string;
+  weight: number;
+  matchScore: number;
+  /** Share of the final fit score contributed by this category (`weight × matchScore / total weight`). */
+  contribution: number;
+  /** False for categories the template does not name, which are weighted by importance instead. */
+  templateCategory: boolean;
+  /** A required template category absent from the skills matrix, scored as 0. */
+  missing: boolean;
+}
+
+export interface FitScoreBreakdown {
+  templateId: string;
+  templateLabel: string;
+  /** The model's own `fit_score`, kept for comparison with the aggregate. */
+  modelFitScore: number;
+  categories: CategoryScoreContribution[];
+  missingRequiredCategories: string[];
+}
+
+export interface KeywordCoverage {
+  /** Weighted share (0–100) of the top job description terms found in the resume. */
+  score: number;
+  /** Ordered by term weight, heaviest first. */
+  matchedTerms: string[];
+  missingTerms: string[];
+  termCount: number;
+}
+
+export interface RequirementSimilarity {
+  /** Parsed requirement ID, or null when the job description had no recognizable requirements and lines were used. */
+  requirementId: string | null;
+  requirement: string;
+  priority: RequirementPriority;
+  /** Raw cosine similarity to the best-matching resume passage. */
+  similarity: number;
+  /** Similarity calibrated to 0–100 for the embedding model in use. */
+  score: number;
+  bestMatch: string | null;
+}
+
+export interface SemanticSimilarity {
+  provider: string;
+  model: string;
+  /** Priority-weighted mean of the per-requirement scores (must-haves count double). */
+  score: number;
+  requirements: RequirementSimilarity[];
+}
+
 export interface AnalysisResponse {
   fitScore: number;
   fitSummary?: string;
@@ -11,6 +133,489 @@ export interface AnalysisResponse {
   recommendations: string[];
   recruiterQuestions: string[];
   candidateQuestions: string[];
+  /** Schema problems that were repaired by substituting defaults. */
+  warnings?: string[];
+  /** Set when the result was saved to the local analysis history. */
+  historyId?: string;
+  /** Present when the score is the median of an ensemble of runs. */
+  scoreStability?: ScoreStability;
+  /** Offline lexical baseline computed without the model. */
+  keywordCoverage?: KeywordCoverage;
+  /** Embedding similarity between job requirements and resume passages. */
+  semanticSimilarity?: SemanticSimilarity;
+  /** How `fitScore` was aggregated when a scoring template was selected. */
+  scoreBreakdown?: FitScoreBreakdown;
+  /** The skills matrix `scoreBreakdown` was aggregated from, so it is shown rather than a separately generated one. */
+  skillsMatrix?: SkillsMatrixResponse;
+  /** Detected document languages; matching works across them. */
+  languages?: DocumentLanguages;
+  redactedDocuments?: RedactedDocuments;
+  /** Verified citations for each strength and weakness, index-aligned with those lists. */
+  citations?: {
+    strengths: EvidenceCitation[][];
+    weaknesses: EvidenceCitation[][];
+  };
+}
+
+export interface BatchCandidate {
+  id: string;
+  name: string;
+  resumeText: string;
+}
+
+export interface BatchAnalysisRequest extends AnalysisOptions {
+  jobDescription: string;
+  candidates: BatchCandidate[];
+}
+
+export type BatchCandidateResult =
+  | { id: string; name: string; status: 'ok'; analysis: AnalysisResponse }
+  | { id: string; name: string; status: 'error'; error: string };
+
+export interface RoleMatchJob {
+  id: string;
+  title: string;
+  jobDescription: string;
+}
+
+export interface RoleMatchRequest extends AnalysisOptions {
+  resumeText: string;
+  jobs: RoleMatchJob[];
+}
+
+export type RoleMatchJobResult =
+  | { id: string; title: string; status: 'ok'; analysis: AnalysisResponse; skillsMatrix: SkillsMatrixResponse }
+  | { id: string; title: string; status: 'error'; error: string };
+
+export interface RoleRanking {
+  jobId: string;
+  title: string;
+  fitScore: number;
+  /** Emphasis-weighted average of skills matrix match scores (0-100). */
+  weightedMatch: number;
+}
+
+export interface RoleDriver {
+  category: string;
+  bestJobMatch?: number;
+  comparisonJobMatch?: number;
+  /** Points of weighted match this category adds to (positive) or removes from the best role's lead. */
+  impact: number;
+}
+
+export interface RoleComparison {
+  ranking: RoleRanking[];
+  bestJobId?: string;
+  comparisonJobId?: string;
+  drivers: RoleDriver[];
+}
+
+export interface RoleMatchResponse {
+  jobs: RoleMatchJobResult[];
+  comparison: RoleComparison;
+}
+
+export type BiasPerturbationId = 'swap-name' | 'remove-dates' | 'alter-schools' | 'drop-articles' | 'add-career-break';
+
+export interface BiasAuditRequest extends AnalysisOptions {
+  resumeText: string;
+  jobDescription: string;
+  /** Perturbations to run; all of them when omitted. */
+  perturbations?: BiasPerturbationId[];
+}
+
+interface BiasVariantBase {
+  perturbation: BiasPerturbationId;
+  /** What this variant changed, e.g. `Name → Mei Chen`. */
+  label: string;
+  /** Number of replacements made in the resume. */
+  changes: number;
+  note?: string;
+}
+
+export type BiasVariantResult =
+  | (BiasVariantBase & { status: 'ok'; fitScore: number; delta: number; exceedsThreshold: boolean })
+  | (BiasVariantBase & { status: 'skipped'; reason: string })
+  | (BiasVariantBase & { status: 'error'; error: string });
+
+export type ProtectedAttribute =
+  | 'age'
+  | 'gender'
+  | 'race-ethnicity'
+  | 'national-origin'
+  | 'language'
+  | 'religion'
+  | 'disability-health'
+  | 'family-status'
+  | 'career-gap'
+  | 'school-prestige';
+
+export type BiasFlagField = 'weaknesses' | 'recruiterQuestions' | 'candidateQuestions';
+
+export interface BiasFlag {
+  field: BiasFlagField;
+  index: number;
+  text: string;
+  attribute: ProtectedAttribute;
+  /** The words that triggered the flag. */
+  match: string;
+  /** Label of the counterfactual variant whose output contained it; absent for the original resume. */
+  variant?: string;
+}
+
+export interface BiasAuditResponse {
+  baselineFitScore: number;
+  /** Score deltas at or above this many points are flagged. */
+  threshold: number;
+  variants: BiasVariantResult[];
+  flags: BiasFlag[];
+  summary: string;
+}
+
+export interface TailorRequest extends AnalysisOptions {
+  resumeText: string;
+  jobDescription: string;
+  /** The analysis being acted on; its gaps and recommendations steer the rewrites. */
+  analysis: AnalysisResponse;
+}
+
+export interface ResumeRewrite {
+  /** The resume passage to replace, located in the resume (its redacted copy in blind review). */
+  original: EvidenceCitation;
+  rewritten: string;
+  /** Word-level changes from `original.quote` to `rewritten`. */
+  diff: DiffSegment[];
+  /** Which gap or requirement the rewrite addresses. */
+  rationale: string;
+  /** Job description terms the rewrite now uses. */
+  jobKeywords: string[];
+  /** Numbers or job description terms in the rewrite that the resume never mentions; verify before using. */
+  unsupportedTerms: string[];
+}
+
+export interface TailorRescore {
+  originalFitScore: number;
+  tailoredFitScore: number;
+  delta: number;
+}
+
+export interface TailorResponse {
+  rewrites: ResumeRewrite[];
+  /** Gaps that rewording cannot close, such as missing experience. */
+  notes?: string;
+  /** The resume with every rewrite applied, except those with `unsupportedTerms`. */
+  tailoredResumeText: string;
+  /** Both versions re-scored with the same settings, so the delta reflects only the edits. */
+  rescore: TailorRescore;
+  redactedDocuments?: RedactedDocuments;
+  /** Schema problems that were repaired by substituting defaults. */
+  warnings?: string[];
+}
+
+/** A cover letter is written by the candidate; recruiter outreach is written to the candidate. */
+export type OutreachMode = 'cover-letter' | 'recruiter-outreach';
+export type OutreachTone = 'professional' | 'friendly' | 'enthusiastic';
+export type OutreachLength = 'short' | 'medium' | 'long';
+
+export interface OutreachRequest extends AnalysisOptions {
+  resumeText: string;
+  jobDescription: string;
+  mode: OutreachMode;
+  tone?: OutreachTone;
+  length?: OutreachLength;
+  /** Its cited strengths are the main material for the draft. */
+  analysis: AnalysisResponse;
+  /** Generated (or read from the cache) when omitted. */
+  skillsMatrix?: SkillsMatrixResponse;
+}
+
+/** What a sentence asserts: something about the candidate, something about the role, or neither (greetings, etc.). */
+export type OutreachClaim = 'candidate' | 'role' | null;
+
+export interface OutreachSentence {
+  text: string;
+  claim: OutreachClaim;
+  /** Verified passages backing the claim: resume passages for candidate claims, job description ones for role claims. */
+  citations: EvidenceCitation[];
+}
+
+export interface OutreachResponse {
+  mode: OutreachMode;
+  tone: OutreachTone;
+  length: OutreachLength;
+  /** Message subject line, in recruiter outreach mode. */
+  subject?: string;
+  paragraphs: OutreachSentence[][];
+  /** The draft as plain text, paragraphs separated by blank lines. */
+  text: string;
+  /** Claims left out of the draft because none of their quotes could be found in the documents. */
+  droppedClaims: string[];
+  redactedDocuments?: RedactedDocuments;
+  /** Schema problems that were repaired by substituting defaults. */
+  warnings?: string[];
+}
+
+export type InterviewerRole = 'recruiter' | 'hiring-manager' | 'technical-interviewer' | 'team-member';
+
+export interface InterviewKitRequest extends AnalysisOptions {
+  resumeText: string;
+  jobDescription: string;
+  /** Its gaps and recruiter questions seed the kit. */
+  analysis: AnalysisResponse;
+  /** Generated (or read from the cache) when omitted. */
+  skillsMatrix?: SkillsMatrixResponse;
+  /** Total interview time to allocate across the questions. */
+  durationMinutes?: number;
+  /** Analysis history record to store the kit on; replaces any kit (and scores) already stored there. */
+  historyId?: string;
+}
+
+export interface InterviewQuestion {
+  /** Stable within a kit (`Q1`, `Q2`, …) so scores can reference it. */
+  id: string;
+  question: string;
+  strongAnswer: string;
+  weakAnswer: string;
+  /** What earns each score; index 0 describes a 1, index 4 a 5. */
+  rubric: string[];
+  interviewer: InterviewerRole;
+  minutes: number;
+}
+
+export interface InterviewSection {
+  id: string;
+  /** A skills matrix category probes a claimed strength; a gap probes a weakness from the analysis. */
+  kind: 'skill' | 'gap';
+  /** The skills matrix category name or the analysis weakness. */
+  title: string;
+  questions: InterviewQuestion[];
+}
+
+export interface InterviewKit {
+  sections: InterviewSection[];
+  durationMinutes: number;
+  /** Sum of the question time allocations. */
+  totalMinutes: number;
+  redactedDocuments?: RedactedDocuments;
+  /** Schema problems that were repaired by substituting defaults. */
+  warnings?: string[];
+}
+
+export interface InterviewScore {
+  questionId: string;
+  /** 1-5 against the question's rubric. */
+  score: number;
+  interviewer?: string;
+  notes?: string;
+}
+
+export interface InterviewSectionScore {
+  sectionId: string;
+  /** Mean rubric score of the scored questions, or null when none are scored yet. */
+  average: number | null;
+  scored: number;
+  total: number;
+}
+
+export interface InterviewScorecard {
+  scores: InterviewScore[];
+  sections: InterviewSectionScore[];
+  /** 0-100 roll-up of the section averages weighted by their allotted time; null until a question is scored. */
+  interviewScore: number | null;
+  updatedAt: string;
+}
+
+/** The interview kit stored with an analysis history record, and the scores recorded against it. */
+export interface StoredInterview {
+  kit: InterviewKit;
+  scorecard?: InterviewScorecard;
+}
+
+/** One turn of a follow-up conversation about an analysis. */
+export interface ChatMessage {
+  role: Exclude<AzureOpenAIChatMessage['role'], 'system'>;
+  content: string;
+  /** Verified resume or job description passages the answer relies on (assistant turns only). */
+  citations?: EvidenceCitation[];
+}
+
+export interface ChatRequest extends AnalysisOptions {
+  resumeText: string;
+  jobDescription: string;
+  analysis: AnalysisResponse;
+  /** Generated (or read from the cache) when omitted. */
+  skillsMatrix?: SkillsMatrixResponse;
+  /** The conversation so far, oldest first, ending with the user's new question. */
+  messages: ChatMessage[];
+  /** Analysis history record to save the transcript with. */
+  historyId?: string;
+}
+
+export interface ChatResponse {
+  message: ChatMessage;
+  redactedDocuments?: RedactedDocuments;
+  /** Schema problems that were repaired by substituting defaults. */
+  warnings?: string[];
+}
+
+export interface ChatTranscript {
+  messages: ChatMessage[];
+  updatedAt: string;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+export type DocumentFormat = 'txt' | 'md' | 'rtf' | 'pdf' | 'docx' | 'html' | 'json';
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  characterCount: number;
+}
+
+export interface ExtractedDocument {
+  fileName: string;
+  format: DocumentFormat;
+  text: string;
+  characterCount: number;
+  pageCount: number;
+  /** One entry per PDF page; other formats are reported as a single page. */
+  pages: ExtractedPage[];
+  language: DetectedLanguage;
+}
+
+export interface ResumeContact {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  links: string[];
+}
+
+export interface ResumeExperienceEntry {
+  title: string | null;
+  employer: string | null;
+  /** `YYYY-MM`; the month is `01` when the resume only gives a year. */
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  durationMonths: number | null;
+  highlights: string[];
+}
+
+export interface ResumeEducationEntry {
+  institution: string | null;
+  degree: string | null;
+  graduationYear: number | null;
+  details: string[];
+}
+
+export interface ResumeSection {
+  heading: string;
+  lines: string[];
+}
+
+export interface ParsedResume {
+  contact: ResumeContact;
+  summary: string | null;
+  skills: string[];
+  /** Most recent role first. */
+  experience: ResumeExperienceEntry[];
+  education: ResumeEducationEntry[];
+  certifications: string[];
+  /** Sum of dated roles with overlapping periods counted once. */
+  totalExperienceMonths: number | null;
+  /** Recognized headings outside the structured sections, such as projects or awards. */
+  otherSections: ResumeSection[];
+}
+
+export type JobSeniority = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'principal' | 'executive';
+
+export type RemotePolicy = 'remote' | 'hybrid' | 'onsite';
+
+export type RequirementPriority = 'must-have' | 'nice-to-have';
+
+export type RequirementKind = 'skill' | 'experience' | 'education';
+
+export interface JobRequirement {
+  /** Stable within one job description (`R1`, `R2`, …) so model output can reference it. */
+  id: string;
+  text: string;
+  priority: RequirementPriority;
+  kind: RequirementKind;
+  minYears: number | null;
+}
+
+export interface ParsedJobDescription {
+  title: string | null;
+  seniority: JobSeniority | null;
+  location: string | null;
+  remotePolicy: RemotePolicy | null;
+  requirements: JobRequirement[];
+  responsibilities: string[];
+  /** Highest years-of-experience threshold among the must-have requirements. */
+  minYearsExperience: number | null;
+  educationRequirements: string[];
+}
+
+export type ReportFormat = 'pdf' | 'docx' | 'markdown' | 'json';
+
+/** Everything an exported fit report is rendered from. */
+export interface FitReport {
+  generatedAt: string;
+  analysis: AnalysisResponse;
+  skillsMatrix?: SkillsMatrixResponse;
+}
+
+export interface RadarSeries {
+  label: string;
+  /** Hex color without `#`, e.g. `0d9488`. */
+  color: string;
+  values: number[];
+}
+
+export interface RadarChartData {
+  labels: string[];
+  series: RadarSeries[];
+  max: number;
+}
+
+/** Format-neutral report content; each export format renders the same blocks. */
+export type ReportBlock =
+  | { type: 'title'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string; emphasis?: boolean }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; columns: string[]; rows: string[][]; numeric?: boolean[] }
+  | { type: 'radar'; chart: RadarChartData };
+
+export type HistoryKind = 'analysis' | 'skills-matrix';
+
+interface HistoryRecordBase {
+  id: string;
+  createdAt: string;
+  /** SHA-256 of the normalized resume and job description. */
+  contentHash: string;
+  request: AnalysisRequest;
+}
+
+export type HistoryRecord =
+  | (HistoryRecordBase & { kind: 'analysis'; response: AnalysisResponse; interview?: StoredInterview; chat?: ChatTranscript })
+  | (HistoryRecordBase & { kind: 'skills-matrix'; response: SkillsMatrixResponse });
+
+export interface HistorySummary {
+  id: string;
+  kind: HistoryKind;
+  createdAt: string;
+  contentHash: string;
+  jobPreview: string;
+  resumePreview: string;
+  fitScore?: number;
+  /** Post-interview score, once interviewers have scored questions from the stored kit. */
+  interviewScore?: number;
 }
 
 export interface AzureOpenAIChatMessage {
@@ -18,11 +623,64 @@ export interface AzureOpenAIChatMessage {
   content: string;
 }
 
+export interface ChatCompletionOptions {
+  generation?: GenerationSettings;
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  name: string;
+  model: string;
+  complete: (messages: AzureOpenAIChatMessage[], options?: ChatCompletionOptions) => Promise<string>;
+  stream: (messages: AzureOpenAIChatMessage[], options?: ChatCompletionOptions) => AsyncIterable<string>;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  /**
+   * Cosine similarities this model typically gives unrelated (`low`) and closely matching (`high`) texts; used to
+   * calibrate raw similarities onto a 0–100 scale comparable across models.
+   */
+  similarityRange: { low: number; high: number };
+  embed(texts: string[]): Promise<number[][]>;
+}
+
 export type SkillImportance = 'core' | 'complementary' | 'bonus';
 
+export interface ScoringTemplateCategory {
+  name: string;
+  /** Relative weight in the aggregated fit score. */
+  weight: number;
+  /** Required categories must appear in every skills matrix; when missing they count as a 0 match. */
+  required: boolean;
+  /** Other category names the model may use for the same category. */
+  aliases?: string[];
+  description?: string;
+}
+
+export interface ScoringTemplate {
+  id: string;
+  label: string;
+  description: string;
+  categories: ScoringTemplateCategory[];
+  /** `job_emphasis` range the model should use for each importance level. */
+  importanceBands: Record<SkillImportance, { min: number; max: number }>;
+  /** Weights for categories the template does not name, by importance. */
+  unlistedCategoryWeights: Record<SkillImportance, number>;
+  /** Extra rubric guidance appended to both prompts. */
+  instructions: string[];
+}
+
+export type ScoringTemplateSummary = Pick<ScoringTemplate, 'id' | 'label' | 'description'>;
+
 export interface SkillsMatrixRequest {
   resumeText: string;
   jobDescription: string;
+  generationProfile?: GenerationProfileName;
+  scoringTemplate?: string;
+  blindReview?: boolean;
+  outputLanguage?: LanguageCode;
 }
 
 export interface SkillsMatrixEntry {
@@ -32,13 +690,30 @@ export interface SkillsMatrixEntry {
   inferredRequirements: string[];
   resumeKeywords: string[];
   experienceEvidence?: string;
+  /** Verified resume passages supporting `experienceEvidence`. */
+  evidenceCitations?: EvidenceCitation[];
+  /** Resume keywords that appear in the resume neither verbatim, stemmed, nor as a known synonym. */
+  unverifiedResumeKeywords?: string[];
+  /** Required keywords that do not appear in the job description. */
+  unverifiedRequiredKeywords?: string[];
+  /** Points taken off `candidateAlignment` for unverified resume keywords. */
+  alignmentPenalty?: number;
   jobEmphasis: number;
   candidateAlignment: number;
   matchScore: number;
   gapReason?: string;
+  /** IDs of the parsed job requirements (`R1`, …) this category covers. */
+  requirementIds?: string[];
+  /** Embedding similarity (0–100) of the category to the resume, already blended into `candidateAlignment`. */
+  semanticAlignment?: number;
 }
 
 export interface SkillsMatrixResponse {
   summary?: string;
   categories: SkillsMatrixEntry[];
+  redactedDocuments?: RedactedDocuments;
+  /** Schema problems that were repaired by substituting defaults. */
+  warnings?: string[];
+  /** Set when the result was saved to the local analysis history. */
+  historyId?: string;
 }
@@ -0,0 +1,122 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { analyzeFit, readCachedAnalysis } from '../../lib/analysisService';
+import { openEventStream, writeEvent } from '../../lib/eventStream';
+import { normalizeEnsembleRuns, resolveGenerationSettings, validateAnalysisOptions } from '../../lib/generation';
+import { scoreKeywordCoverage } from '../../lib/keywordScoring';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import { streamChatCompletion } from '../../lib/openai';
+import { buildAnalysisPrompt, parseAnalysisSection } from '../../lib/prompt';
+import { prepareRedaction } from '../../lib/redaction';
+import { computeSemanticSimilarity } from '../../lib/semanticSimilarity';
+import { createJsonSectionScanner } from '../../lib/streamingJson';
+import type { AnalysisRequest } from '../../lib/types';
+
+/**
+ * Server-sent event variant of `/api/analyze`. Emits a `section` event for each top-level field as soon as the model
+ * finishes it, then a `complete` event carrying the validated `AnalysisResponse`, or an `error` event.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    (req.body ?? {}) as AnalysisRequest;
+
+  if (!resumeText?.trim() || !jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Resume and job description are required.' });
+  }
+
+  const optionsError = validateAnalysisOptions({
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const request = {
+    resumeText,
+    jobDescription,
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  };
+  const refresh = req.query.refresh === 'true';
+
+  try {
+    const cached = refresh ? null : await readCachedAnalysis(request);
+    res.setHeader('X-Cache', cached ? 'HIT' : 'MISS');
+    openEventStream(res);
+
+    if (cached) {
+      writeEvent(res, 'complete', cached);
+      return;
+    }
+
+    const redaction = prepareRedaction(request);
+    const { redacted, sources } = redaction;
+
+    // The keyword baseline needs no model call, so it renders before the first streamed section.
+    writeEvent(res, 'section', { keywordCoverage: scoreKeywordCoverage(sources.resumeText, sources.jobDescription) });
+
+    // Ensemble runs are aggregated after all of them finish, so there is nothing meaningful to stream.
+    if (normalizeEnsembleRuns(ensembleRuns) > 1) {
+      const { value } = await analyzeFit(request, { refresh: true });
+      writeEvent(res, 'complete', value);
+      return;
+    }
+
+    const semanticSimilarity = await computeSemanticSimilarity(redacted.resumeText, redacted.jobDescription);
+    if (semanticSimilarity) {
+      writeEvent(res, 'section', { semanticSimilarity: redaction.reveal(semanticSimilarity) });
+    }
+
+    const messages = buildAnalysisPrompt(
+      { ...request, resumeText: redacted.resumeText, jobDescription: redacted.jobDescription },
+      { semanticSimilarity }
+    );
+    const scanner = createJsonSectionScanner();
+    const generation = resolveGenerationSettings(generationProfile);
+
+    for await (const delta of streamChatCompletion(messages, { signal: controller.signal, generation })) {
+      for (const { key, value } of scanner.push(delta)) {
+        const section = parseAnalysisSection(key, value);
+        // A scoring template replaces the model's fit_score once the skills matrix is aggregated, so don't show it.
+        if (section && !(scoringTemplate && 'fitScore' in section)) {
+          writeEvent(res, 'section', redaction.reveal(section));
+        }
+      }
+    }
+
+    const { value } = await analyzeFit(request, { firstCompletion: scanner.text(), semanticSimilarity });
+    writeEvent(res, 'complete', value);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    if (!res.headersSent) {
+      openEventStream(res);
+    }
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      writeEvent(res, 'error', { error: error.message, details: error.issues.map(formatIssue) });
+    } else {
+      console.error('Failed to stream resume fit analysis', error);
+      const message =
+        error instanceof Error ? error.message : 'Unexpected error while analyzing the resume fit.';
+      writeEvent(res, 'error', { error: message });
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -1,12 +1,23 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { buildAnalysisPrompt, parseModelResponse } from '../../lib/prompt';
-import { getChatCompletion } from '../../lib/openai';
+import { analyzeFit } from '../../lib/analysisService';
+import { readAnalysisPayload } from '../../lib/documentIngestion';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import { PayloadError } from '../../lib/requestErrors';
 import type { AnalysisRequest, AnalysisResponse } from '../../lib/types';
 
 interface ErrorResponse {
   error: string;
+  details?: string[];
 }
 
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/** Scores a resume against a job description. Accepts JSON, or multipart/form-data with `resume`/`jobDescription` files. */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<AnalysisResponse | ErrorResponse>
@@ -16,19 +27,48 @@ export default async function handler(
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
-  const { resumeText, jobDescription } = req.body as AnalysisRequest;
+  let request: AnalysisRequest;
+  try {
+    ({ request } = await readAnalysisPayload(req));
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to read analysis request', error);
+    return res.status(500).json({ error: 'Unexpected error while reading the request.' });
+  }
+
+  const { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    request;
 
   if (!resumeText?.trim() || !jobDescription?.trim()) {
     return res.status(400).json({ error: 'Resume and job description are required.' });
   }
 
+  const optionsError = validateAnalysisOptions({
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
   try {
-    const messages = buildAnalysisPrompt({ resumeText, jobDescription });
-    const completion = await getChatCompletion(messages);
-    const parsed = parseModelResponse(completion);
+    const { value, cached } = await analyzeFit(
+      { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage },
+      { refresh: req.query.refresh === 'true' }
+    );
 
-    return res.status(200).json(parsed);
+    res.setHeader('X-Cache', cached ? 'HIT' : 'MISS');
+    return res.status(200).json(value);
   } catch (error) {
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
     console.error('Failed to analyze resume fit', error);
     const message =
       error instanceof Error ? error.message : 'Unexpected error while analyzing the resume fit.';
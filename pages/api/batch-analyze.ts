@@ -0,0 +1,98 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { analyzeFit } from '../../lib/analysisService';
+import { mapWithConcurrency, resolveBatchConcurrency } from '../../lib/concurrency';
+import { openEventStream, writeEvent } from '../../lib/eventStream';
+import { validateAnalysisOptions } from '../../lib/generation';
+import type { BatchAnalysisRequest, BatchCandidateResult } from '../../lib/types';
+
+const MAX_CANDIDATES = 200;
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb'
+    }
+  }
+};
+
+/**
+ * Scores many resumes against one job description. Streams a `result` event per candidate as it finishes (failures do
+ * not abort the batch), then a `complete` event with totals.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { jobDescription, candidates, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    (req.body ?? {}) as BatchAnalysisRequest;
+
+  if (!jobDescription?.trim()) {
+    return res.status(400).json({ error: 'A job description is required.' });
+  }
+
+  if (!Array.isArray(candidates) || candidates.length === 0) {
+    return res.status(400).json({ error: 'At least one candidate resume is required.' });
+  }
+
+  if (candidates.length > MAX_CANDIDATES) {
+    return res.status(400).json({ error: `A batch can contain at most ${MAX_CANDIDATES} resumes.` });
+  }
+
+  if (candidates.some((candidate) => !candidate?.id || !candidate.resumeText?.trim())) {
+    return res.status(400).json({ error: 'Every candidate needs an id and resume text.' });
+  }
+
+  const optionsError = validateAnalysisOptions({
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
+  const refresh = req.query.refresh === 'true';
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  openEventStream(res);
+
+  const results = await mapWithConcurrency(
+    candidates,
+    resolveBatchConcurrency(),
+    async ({ id, name, resumeText }): Promise<BatchCandidateResult> => {
+      const label = name?.trim() || id;
+      let result: BatchCandidateResult;
+
+      if (controller.signal.aborted) {
+        return { id, name: label, status: 'error', error: 'Batch cancelled.' };
+      }
+
+      try {
+        const { value } = await analyzeFit(
+          { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage },
+          { refresh }
+        );
+        result = { id, name: label, status: 'ok', analysis: value };
+      } catch (error) {
+        console.error(`Failed to analyze batch candidate ${id}`, error);
+        const message =
+          error instanceof Error ? error.message : 'Unexpected error while analyzing the resume fit.';
+        result = { id, name: label, status: 'error', error: message };
+      }
+
+      if (!controller.signal.aborted) {
+        writeEvent(res, 'result', result);
+      }
+      return result;
+    }
+  );
+
+  const succeeded = results.filter((result) => result.status === 'ok').length;
+  writeEvent(res, 'complete', { total: results.length, succeeded, failed: results.length - succeeded });
+  res.end();
+}
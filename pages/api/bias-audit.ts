@@ -0,0 +1,84 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { BIAS_PERTURBATION_IDS, isBiasPerturbationId, runBiasAudit } from '../../lib/biasAudit';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import type { BiasAuditRequest, BiasAuditResponse } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+/**
+ * Runs counterfactual variants of a resume through the fit analysis and reports score deltas per perturbation, plus
+ * weaknesses and questions that reference protected characteristics or proxies.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BiasAuditResponse | ErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const {
+    resumeText,
+    jobDescription,
+    perturbations,
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  } = (req.body ?? {}) as BiasAuditRequest;
+
+  if (!resumeText?.trim() || !jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Resume and job description are required.' });
+  }
+
+  if (
+    perturbations !== undefined &&
+    (!Array.isArray(perturbations) || !perturbations.length || !perturbations.every(isBiasPerturbationId))
+  ) {
+    return res
+      .status(400)
+      .json({ error: `Perturbations must be a non-empty list of: ${BIAS_PERTURBATION_IDS.join(', ')}.` });
+  }
+
+  const optionsError = validateAnalysisOptions({
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
+  try {
+    const audit = await runBiasAudit(
+      {
+        resumeText,
+        jobDescription,
+        perturbations,
+        generationProfile,
+        ensembleRuns,
+        scoringTemplate,
+        blindReview,
+        outputLanguage
+      },
+      { refresh: req.query.refresh === 'true' }
+    );
+    return res.status(200).json(audit);
+  } catch (error) {
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
+    console.error('Failed to run bias audit', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while running the bias audit.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,143 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { answerFollowUp, saveChatTranscript } from '../../lib/analysisChat';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { getMatchingAnalysisRecord, withStoredResume } from '../../lib/historyStore';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import { PayloadError } from '../../lib/requestErrors';
+import type { ChatMessage, ChatRequest, ChatResponse, EvidenceCitation } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+const MAX_MESSAGES = 40;
+const MAX_MESSAGE_LENGTH = 4000;
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isCitation = (value: unknown): value is EvidenceCitation => {
+  const entry = (value ?? {}) as Record<string, unknown>;
+  return (
+    (entry.source === 'resume' || entry.source === 'jobDescription') &&
+    typeof entry.quote === 'string' &&
+    typeof entry.start === 'number' &&
+    typeof entry.end === 'number'
+  );
+};
+
+/** Reads the conversation, keeping only the fields a `ChatMessage` has. Returns an error message when invalid. */
+function readMessages(value: unknown): ChatMessage[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return 'messages must be a non-empty list of { role, content } objects.';
+  }
+  if (value.length > MAX_MESSAGES) {
+    return `Conversations are limited to ${MAX_MESSAGES} messages; start a new one.`;
+  }
+  const messages: ChatMessage[] = [];
+  for (const item of value) {
+    const { role, content, citations } = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    if (role !== 'user' && role !== 'assistant') {
+      return 'Each message role must be "user" or "assistant".';
+    }
+    if (typeof content !== 'string' || !content.trim() || content.length > MAX_MESSAGE_LENGTH) {
+      return `Each message needs content of at most ${MAX_MESSAGE_LENGTH} characters.`;
+    }
+    messages.push({
+      role,
+      content: content.trim(),
+      citations: role === 'assistant' && Array.isArray(citations) ? citations.filter(isCitation) : undefined
+    });
+  }
+  if (messages[messages.length - 1].role !== 'user') {
+    return 'The last message must be the user\'s question.';
+  }
+  return messages;
+}
+
+function validateChatRequest({ analysis, skillsMatrix, historyId }: ChatRequest): string | null {
+  if (
+    !analysis ||
+    typeof analysis.fitScore !== 'number' ||
+    !isStringList(analysis.strengths) ||
+    !isStringList(analysis.weaknesses) ||
+    !isStringList(analysis.recommendations)
+  ) {
+    return 'An analysis with a fit score, strengths, weaknesses and recommendations is required.';
+  }
+  if (skillsMatrix !== undefined && (!skillsMatrix || !Array.isArray(skillsMatrix.categories))) {
+    return 'skillsMatrix must include a list of categories.';
+  }
+  if (historyId !== undefined && typeof historyId !== 'string') {
+    return 'historyId must be a string.';
+  }
+  return null;
+}
+
+/**
+ * Answers a follow-up question about an analysis. The client sends the whole conversation; with `historyId`, the
+ * conversation including the new answer is saved with that analysis history record.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ChatResponse | ErrorResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const body = (req.body ?? {}) as ChatRequest;
+  const { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    body;
+
+  // Blind review history records leave the resume out and refer to the record instead; see `withStoredResume`.
+  if ((!resumeText?.trim() && !body.historyId) || !jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Resume and job description are required.' });
+  }
+
+  const messages = readMessages(body.messages);
+  if (typeof messages === 'string') {
+    return res.status(400).json({ error: messages });
+  }
+
+  const validationError =
+    validateChatRequest(body) ??
+    validateAnalysisOptions({ generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const { analysis, skillsMatrix, historyId } = body;
+    const request = await withStoredResume(historyId, {
+      resumeText,
+      jobDescription,
+      generationProfile,
+      ensembleRuns,
+      scoringTemplate,
+      blindReview,
+      outputLanguage
+    });
+    if (historyId) {
+      // Fail an unknown or mismatched record before paying for a generation.
+      await getMatchingAnalysisRecord(historyId, request);
+    }
+    const response = await answerFollowUp(
+      { ...request, analysis, skillsMatrix, messages },
+      { refresh: req.query.refresh === 'true' }
+    );
+    if (historyId) {
+      await saveChatTranscript(historyId, request, [...messages, response.message]);
+    }
+    return res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
+    console.error('Failed to answer follow-up question', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while answering the question.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { REPORT_FORMATS, isReportFormat, loadReportFromHistory, renderReport } from '../../../lib/reportExport';
+import type { AnalysisResponse, FitReport, SkillsMatrixResponse } from '../../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+interface ExportRequest {
+  analysis?: AnalysisResponse;
+  skillsMatrix?: SkillsMatrixResponse;
+}
+
+const LIST_FIELDS = ['strengths', 'weaknesses', 'recommendations', 'recruiterQuestions', 'candidateQuestions'] as const;
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+function validateExportRequest({ analysis, skillsMatrix }: ExportRequest): string | null {
+  if (!analysis || typeof analysis !== 'object' || typeof analysis.fitScore !== 'number') {
+    return 'An analysis with a numeric fitScore is required.';
+  }
+  const invalidList = LIST_FIELDS.find((field) => !isStringList(analysis[field]));
+  if (invalidList) {
+    return `analysis.${invalidList} must be a list of strings.`;
+  }
+  if (skillsMatrix !== undefined && (!skillsMatrix || !Array.isArray(skillsMatrix.categories))) {
+    return 'skillsMatrix must include a list of categories.';
+  }
+  return null;
+}
+
+/**
+ * Downloads a fit report as PDF, DOCX, Markdown or JSON. GET renders a saved analysis (`?id=<history id>`) together
+ * with its skills matrix; POST renders the analysis and optional skills matrix in the request body.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | ErrorResponse>) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { format } = req.query;
+  if (!isReportFormat(format)) {
+    return res.status(400).json({ error: `Format must be one of: ${REPORT_FORMATS.join(', ')}.` });
+  }
+
+  try {
+    let report: FitReport;
+    let fileName = 'fit-report';
+
+    if (req.method === 'GET') {
+      const id = typeof req.query.id === 'string' ? req.query.id : '';
+      if (!id) {
+        return res.status(400).json({ error: 'A history id is required.' });
+      }
+      const saved = await loadReportFromHistory(id);
+      if (!saved) {
+        return res.status(404).json({ error: 'Analysis not found in history.' });
+      }
+      report = saved;
+      fileName = `fit-report-${id}`;
+    } else {
+      const body = (req.body ?? {}) as ExportRequest;
+      const validationError = validateExportRequest(body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      report = { generatedAt: new Date().toISOString(), analysis: body.analysis!, skillsMatrix: body.skillsMatrix };
+    }
+
+    const { body, contentType, extension } = renderReport(report, format);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${extension}"`);
+    res.setHeader('Content-Length', body.length);
+    return res.status(200).send(body);
+  } catch (error) {
+    console.error('Failed to export fit report', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while exporting the report.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isMultipartRequest, parseMultipartForm } from '../../lib/multipart';
+import { PayloadError } from '../../lib/requestErrors';
+import { extractDocument } from '../../lib/serverExtraction';
+import type { ExtractedDocument } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Extracts clean text from uploaded documents. Accepts one or more files in a `multipart/form-data` body and returns
+ * the text and per-page metadata for each, in upload order.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ documents: ExtractedDocument[] } | ErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!isMultipartRequest(req)) {
+    return res.status(415).json({ error: 'Upload files as multipart/form-data.' });
+  }
+
+  try {
+    const { files } = await parseMultipartForm(req);
+    if (!files.length) {
+      return res.status(400).json({ error: 'At least one file is required.' });
+    }
+
+    const documents = await Promise.all(files.map((file) => extractDocument(file.buffer, file.fileName)));
+    return res.status(200).json({ documents });
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to extract document text', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while extracting document text.';
+    return res.status(500).json({ error: message });
+  }
+}
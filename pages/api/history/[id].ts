@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { deleteHistoryRecord, getHistoryRecord, presentHistoryRecord } from '../../../lib/historyStore';
+import type { HistoryRecord } from '../../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HistoryRecord | { deleted: true } | ErrorResponse>
+) {
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+  try {
+    if (req.method === 'GET') {
+      const record = await getHistoryRecord(id);
+      if (!record) {
+        return res.status(404).json({ error: 'History record not found.' });
+      }
+      return res.status(200).json(presentHistoryRecord(record));
+    }
+
+    if (req.method === 'DELETE') {
+      const deleted = await deleteHistoryRecord(id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'History record not found.' });
+      }
+      return res.status(200).json({ deleted: true });
+    }
+
+    res.setHeader('Allow', 'GET, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error) {
+    console.error('Failed to access analysis history', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while accessing history.';
+    return res.status(500).json({ error: message });
+  }
+}
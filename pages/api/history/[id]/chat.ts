@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getHistoryRecord, updateHistoryRecord } from '../../../../lib/historyStore';
+import type { ChatTranscript } from '../../../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+/** The follow-up chat transcript saved with an analysis (GET), or clears it (DELETE). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ChatTranscript | { deleted: true } | ErrorResponse>) {
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+  try {
+    if (req.method === 'GET') {
+      const record = await getHistoryRecord(id);
+      if (!record || record.kind !== 'analysis' || !record.chat) {
+        return res.status(404).json({ error: 'No chat transcript is saved with this analysis.' });
+      }
+      return res.status(200).json(record.chat);
+    }
+
+    if (req.method === 'DELETE') {
+      const record = await getHistoryRecord(id);
+      if (!record || record.kind !== 'analysis' || !record.chat) {
+        return res.status(404).json({ error: 'No chat transcript is saved with this analysis.' });
+      }
+      await updateHistoryRecord(id, (current) => (current.kind === 'analysis' ? { ...current, chat: undefined } : current));
+      return res.status(200).json({ deleted: true });
+    }
+
+    res.setHeader('Allow', 'GET, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error) {
+    console.error('Failed to access chat transcript', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while accessing the chat transcript.';
+    return res.status(500).json({ error: message });
+  }
+}
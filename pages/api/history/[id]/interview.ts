@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getHistoryRecord } from '../../../../lib/historyStore';
+import { saveInterviewScores } from '../../../../lib/interviewKit';
+import { RUBRIC_LEVELS } from '../../../../lib/interviewKitPrompt';
+import { PayloadError } from '../../../../lib/requestErrors';
+import type { InterviewScore, StoredInterview } from '../../../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+const MAX_NOTES_LENGTH = 2000;
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+function readScores(value: unknown): InterviewScore[] | string {
+  if (!Array.isArray(value)) {
+    return 'scores must be a list of { questionId, score } objects.';
+  }
+  const scores: InterviewScore[] = [];
+  for (const item of value) {
+    const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const { questionId, score, interviewer, notes } = entry;
+    if (typeof questionId !== 'string' || !questionId) {
+      return 'Each score needs a questionId.';
+    }
+    if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > RUBRIC_LEVELS) {
+      return `The score for ${questionId} must be a whole number from 1 to ${RUBRIC_LEVELS}.`;
+    }
+    if (!isOptionalString(interviewer) || !isOptionalString(notes)) {
+      return `interviewer and notes for ${questionId} must be strings.`;
+    }
+    if (typeof notes === 'string' && notes.length > MAX_NOTES_LENGTH) {
+      return `Notes for ${questionId} must be at most ${MAX_NOTES_LENGTH} characters.`;
+    }
+    if (scores.some((existing) => existing.questionId === questionId)) {
+      return `${questionId} is scored more than once.`;
+    }
+    scores.push({
+      questionId,
+      score,
+      interviewer: typeof interviewer === 'string' && interviewer.trim() ? interviewer.trim() : undefined,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : undefined
+    });
+  }
+  return scores;
+}
+
+/** The interview kit stored with an analysis (GET) and the interviewers' per-question scores (PUT replaces them). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<StoredInterview | ErrorResponse>) {
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+  try {
+    if (req.method === 'GET') {
+      const record = await getHistoryRecord(id);
+      if (!record || record.kind !== 'analysis' || !record.interview) {
+        return res.status(404).json({ error: 'No interview kit is stored with this analysis.' });
+      }
+      return res.status(200).json(record.interview);
+    }
+
+    if (req.method === 'PUT') {
+      const scores = readScores(req.body?.scores);
+      if (typeof scores === 'string') {
+        return res.status(400).json({ error: scores });
+      }
+      return res.status(200).json(await saveInterviewScores(id, scores));
+    }
+
+    res.setHeader('Allow', 'GET, PUT');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to access interview scores', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while accessing interview scores.';
+    return res.status(500).json({ error: message });
+  }
+}
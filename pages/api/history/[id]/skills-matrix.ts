@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { findMatchingSkillsMatrix, getHistoryRecord } from '../../../../lib/historyStore';
+import type { SkillsMatrixResponse } from '../../../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+/**
+ * The matrix a template-weighted analysis was aggregated from, otherwise the newest skills matrix saved for its
+ * documents with the same review setting, template and language.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SkillsMatrixResponse | ErrorResponse>) {
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const record = await getHistoryRecord(id);
+    if (!record || record.kind !== 'analysis') {
+      return res.status(404).json({ error: 'Analysis history record not found.' });
+    }
+    const matrix = record.response.skillsMatrix ?? (await findMatchingSkillsMatrix(record))?.response;
+    if (!matrix) {
+      return res.status(404).json({ error: 'No skills matrix is saved for this analysis.' });
+    }
+    return res.status(200).json(matrix);
+  } catch (error) {
+    console.error('Failed to load the skills matrix for an analysis', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while loading the skills matrix.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listHistoryRecords, summarizeHistoryRecord } from '../../../lib/historyStore';
+import type { HistoryKind, HistorySummary } from '../../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+const HISTORY_KINDS: HistoryKind[] = ['analysis', 'skills-matrix'];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ records: HistorySummary[] } | ErrorResponse>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const kind = typeof req.query.kind === 'string' ? (req.query.kind as HistoryKind) : undefined;
+  const contentHash = typeof req.query.contentHash === 'string' ? req.query.contentHash : undefined;
+
+  if (kind && !HISTORY_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `Unknown history kind "${kind}".` });
+  }
+
+  try {
+    const records = await listHistoryRecords({ kind, contentHash });
+    return res.status(200).json({ records: records.map(summarizeHistoryRecord) });
+  } catch (error) {
+    console.error('Failed to list analysis history', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while listing history.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,99 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { getMatchingAnalysisRecord, withStoredResume } from '../../lib/historyStore';
+import { generateInterviewKit, saveInterviewKit } from '../../lib/interviewKit';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import { PayloadError } from '../../lib/requestErrors';
+import type { InterviewKit, InterviewKitRequest } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 240;
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+function validateInterviewKitRequest({ analysis, skillsMatrix, durationMinutes, historyId }: InterviewKitRequest): string | null {
+  if (!analysis || !isStringList(analysis.weaknesses) || !isStringList(analysis.recruiterQuestions)) {
+    return 'An analysis with weaknesses and recruiter questions is required.';
+  }
+  if (skillsMatrix !== undefined && (!skillsMatrix || !Array.isArray(skillsMatrix.categories))) {
+    return 'skillsMatrix must include a list of categories.';
+  }
+  if (
+    durationMinutes !== undefined &&
+    (!Number.isInteger(durationMinutes) || durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES)
+  ) {
+    return `durationMinutes must be a whole number between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}.`;
+  }
+  if (historyId !== undefined && typeof historyId !== 'string') {
+    return 'historyId must be a string.';
+  }
+  return null;
+}
+
+/**
+ * Builds a structured interview kit from an existing analysis and the skills matrix. With `historyId`, the kit is
+ * also stored on that analysis history record so interviewers can score it.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<InterviewKit | ErrorResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const body = (req.body ?? {}) as InterviewKitRequest;
+  const { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    body;
+
+  // Blind review history records leave the resume out and refer to the record instead; see `withStoredResume`.
+  if ((!resumeText?.trim() && !body.historyId) || !jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Resume and job description are required.' });
+  }
+
+  const validationError =
+    validateInterviewKitRequest(body) ??
+    validateAnalysisOptions({ generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const { analysis, skillsMatrix, durationMinutes, historyId } = body;
+    const request = await withStoredResume(historyId, {
+      resumeText,
+      jobDescription,
+      generationProfile,
+      ensembleRuns,
+      scoringTemplate,
+      blindReview,
+      outputLanguage
+    });
+    if (historyId) {
+      // Fail an unknown or mismatched record before paying for a generation.
+      await getMatchingAnalysisRecord(historyId, request);
+    }
+    const kit = await generateInterviewKit(
+      { ...request, analysis, skillsMatrix, durationMinutes },
+      { refresh: req.query.refresh === 'true' }
+    );
+    if (historyId) {
+      await saveInterviewKit(historyId, request, kit);
+    }
+    return res.status(200).json(kit);
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
+    console.error('Failed to build interview kit', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while building the interview kit.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,88 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import { generateOutreach } from '../../lib/outreachGeneration';
+import { OUTREACH_LENGTHS, OUTREACH_MODES, OUTREACH_TONES } from '../../lib/outreachPrompt';
+import type { OutreachRequest, OutreachResponse } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+function validateOutreachRequest({ mode, tone, length, analysis, skillsMatrix }: OutreachRequest): string | null {
+  if (!OUTREACH_MODES.includes(mode)) {
+    return `Mode must be one of: ${OUTREACH_MODES.join(', ')}.`;
+  }
+  if (tone !== undefined && !OUTREACH_TONES.includes(tone)) {
+    return `Tone must be one of: ${OUTREACH_TONES.join(', ')}.`;
+  }
+  if (length !== undefined && !OUTREACH_LENGTHS.includes(length)) {
+    return `Length must be one of: ${OUTREACH_LENGTHS.join(', ')}.`;
+  }
+  if (!analysis || !isStringList(analysis.strengths)) {
+    return 'An analysis with strengths is required.';
+  }
+  if (skillsMatrix !== undefined && (!skillsMatrix || !Array.isArray(skillsMatrix.categories))) {
+    return 'skillsMatrix must include a list of categories.';
+  }
+  return null;
+}
+
+/**
+ * Drafts a cover letter (candidate mode) or personalized recruiter outreach message from an existing analysis and the
+ * skills matrix, with every claim backed by a verified resume or job description quote.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<OutreachResponse | ErrorResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const body = (req.body ?? {}) as OutreachRequest;
+  const { resumeText, jobDescription, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    body;
+
+  if (!resumeText?.trim() || !jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Resume and job description are required.' });
+  }
+
+  const validationError =
+    validateOutreachRequest(body) ??
+    validateAnalysisOptions({ generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const { mode, tone, length, analysis, skillsMatrix } = body;
+    const draft = await generateOutreach(
+      {
+        resumeText,
+        jobDescription,
+        mode,
+        tone,
+        length,
+        analysis,
+        skillsMatrix,
+        generationProfile,
+        ensembleRuns,
+        scoringTemplate,
+        blindReview,
+        outputLanguage
+      },
+      { refresh: req.query.refresh === 'true' }
+    );
+    return res.status(200).json(draft);
+  } catch (error) {
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
+    console.error('Failed to draft outreach message', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while drafting the message.';
+    return res.status(500).json({ error: message });
+  }
+}
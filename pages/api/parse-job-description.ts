@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseJobDescription } from '../../lib/jobDescriptionParser';
+import type { ParsedJobDescription } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+/** Returns the structured requirements, with the IDs the prompts reference, for a job description. */
+export default function handler(req: NextApiRequest, res: NextApiResponse<ParsedJobDescription | ErrorResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { jobDescription } = (req.body ?? {}) as { jobDescription?: string };
+
+  if (!jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Job description is required.' });
+  }
+
+  try {
+    return res.status(200).json(parseJobDescription(jobDescription));
+  } catch (error) {
+    console.error('Failed to parse job description', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while parsing the job description.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseResume } from '../../lib/resumeParser';
+import type { ParsedResume } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+/** Returns the structured sections and experience timeline the prompts receive for a resume. */
+export default function handler(req: NextApiRequest, res: NextApiResponse<ParsedResume | ErrorResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { resumeText } = (req.body ?? {}) as { resumeText?: string };
+
+  if (!resumeText?.trim()) {
+    return res.status(400).json({ error: 'Resume text is required.' });
+  }
+
+  try {
+    return res.status(200).json(parseResume(resumeText));
+  } catch (error) {
+    console.error('Failed to parse resume', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while parsing the resume.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,99 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { analyzeFit, generateSkillsMatrix } from '../../lib/analysisService';
+import { mapWithConcurrency, resolveBatchConcurrency } from '../../lib/concurrency';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { compareRoles } from '../../lib/roleMatching';
+import type { RoleMatchJobResult, RoleMatchRequest, RoleMatchResponse } from '../../lib/types';
+
+const MAX_JOBS = 10;
+
+interface ErrorResponse {
+  error: string;
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb'
+    }
+  }
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RoleMatchResponse | ErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { resumeText, jobs, generationProfile, ensembleRuns, scoringTemplate, blindReview, outputLanguage } =
+    (req.body ?? {}) as RoleMatchRequest;
+
+  if (!resumeText?.trim()) {
+    return res.status(400).json({ error: 'A resume is required.' });
+  }
+
+  if (!Array.isArray(jobs) || jobs.length === 0) {
+    return res.status(400).json({ error: 'At least one job description is required.' });
+  }
+
+  if (jobs.length > MAX_JOBS) {
+    return res.status(400).json({ error: `Compare at most ${MAX_JOBS} job descriptions at a time.` });
+  }
+
+  if (jobs.some((job) => !job?.id || !job.jobDescription?.trim())) {
+    return res.status(400).json({ error: 'Every job needs an id and a job description.' });
+  }
+
+  const optionsError = validateAnalysisOptions({
+    generationProfile,
+    ensembleRuns,
+    scoringTemplate,
+    blindReview,
+    outputLanguage
+  });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
+  const refresh = req.query.refresh === 'true';
+  const results = await mapWithConcurrency(
+    jobs,
+    resolveBatchConcurrency(),
+    async ({ id, title, jobDescription }): Promise<RoleMatchJobResult> => {
+      const label = title?.trim() || id;
+      try {
+        const request = {
+          resumeText,
+          jobDescription,
+          generationProfile,
+          ensembleRuns,
+          scoringTemplate,
+          blindReview,
+          outputLanguage
+        };
+        const matrixRun = generateSkillsMatrix(request, { refresh });
+        // A template aggregates the fit score from this same matrix, so the score and the match drivers agree.
+        const [analysis, skillsMatrix] = await Promise.all([
+          scoringTemplate
+            ? matrixRun.then(({ value }) => analyzeFit(request, { refresh, skillsMatrix: value }))
+            : analyzeFit(request, { refresh }),
+          matrixRun
+        ]);
+        return { id, title: label, status: 'ok', analysis: analysis.value, skillsMatrix: skillsMatrix.value };
+      } catch (error) {
+        console.error(`Failed to match role ${id}`, error);
+        const message = error instanceof Error ? error.message : 'Unexpected error while analyzing the role.';
+        return { id, title: label, status: 'error', error: message };
+      }
+    }
+  );
+
+  if (results.every((result) => result.status === 'error')) {
+    return res.status(502).json({ error: 'Unable to analyze the resume against any of the job descriptions.' });
+  }
+
+  return res.status(200).json({ jobs: results, comparison: compareRoles(results) });
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listScoringTemplates } from '../../lib/scoringTemplates';
+import type { ScoringTemplateSummary } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+}
+
+/** Lists the built-in and `SCORING_TEMPLATES_PATH` scoring templates an analysis can select. */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ templates: ScoringTemplateSummary[] } | ErrorResponse>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    return res.status(200).json({ templates: listScoringTemplates() });
+  } catch (error) {
+    console.error('Failed to list scoring templates', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while listing scoring templates.';
+    return res.status(500).json({ error: message });
+  }
+}
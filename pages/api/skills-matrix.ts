@@ -1,10 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getChatCompletion } from '../../lib/openai';
-import { buildSkillsMatrixPrompt, parseSkillsMatrixResponse } from '../../lib/skillsMatrixPrompt';
+import { generateSkillsMatrix } from '../../lib/analysisService';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
 import type { SkillsMatrixRequest, SkillsMatrixResponse } from '../../lib/types';
 
 interface ErrorResponse {
   error: string;
+  details?: string[];
 }
 
 export default async function handler(
@@ -16,16 +18,23 @@ export default async function handler(
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
-  const { resumeText, jobDescription } = req.body as SkillsMatrixRequest;
+  const { resumeText, jobDescription, generationProfile, scoringTemplate, blindReview, outputLanguage } =
+    req.body as SkillsMatrixRequest;
 
   if (!resumeText?.trim() || !jobDescription?.trim()) {
     return res.status(400).json({ error: 'Resume and job description are required.' });
   }
 
+  const optionsError = validateAnalysisOptions({ generationProfile, scoringTemplate, blindReview, outputLanguage });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
   try {
-    const messages = buildSkillsMatrixPrompt({ resumeText, jobDescription });
-    const completion = await getChatCompletion(messages);
-    const parsed = parseSkillsMatrixResponse(completion);
+    const { value: parsed, cached } = await generateSkillsMatrix(
+      { resumeText, jobDescription, generationProfile, scoringTemplate, blindReview, outputLanguage },
+      { refresh: req.query.refresh === 'true' }
+    );
 
     if (!parsed.categories.length) {
       return res.status(422).json({
@@ -33,8 +42,13 @@ export default async function handler(
       });
     }
 
+    res.setHeader('X-Cache', cached ? 'HIT' : 'MISS');
     return res.status(200).json(parsed);
   } catch (error) {
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
     console.error('Failed to generate skills matrix', error);
     const message =
       error instanceof Error ? error.message : 'Unexpected error while generating the skills matrix.';
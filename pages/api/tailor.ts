@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateAnalysisOptions } from '../../lib/generation';
+import { ModelOutputError, formatIssue } from '../../lib/modelOutput';
+import { tailorResume } from '../../lib/resumeTailoring';
+import type { TailorRequest, TailorResponse } from '../../lib/types';
+
+interface ErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Suggests before/after rewrites of resume bullets, grounded in the resume and steered by an existing analysis, and
+ * re-scores the edited resume to project the fit score change.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<TailorResponse | ErrorResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { resumeText, jobDescription, analysis, generationProfile, ensembleRuns, scoringTemplate, blindReview } =
+    (req.body ?? {}) as TailorRequest;
+
+  if (!resumeText?.trim() || !jobDescription?.trim()) {
+    return res.status(400).json({ error: 'Resume and job description are required.' });
+  }
+
+  if (!analysis || !isStringList(analysis.weaknesses) || !isStringList(analysis.recommendations)) {
+    return res.status(400).json({ error: 'An analysis with weaknesses and recommendations is required.' });
+  }
+
+  const optionsError = validateAnalysisOptions({ generationProfile, ensembleRuns, scoringTemplate, blindReview });
+  if (optionsError) {
+    return res.status(400).json({ error: optionsError });
+  }
+
+  try {
+    const tailored = await tailorResume(
+      { resumeText, jobDescription, analysis, generationProfile, ensembleRuns, scoringTemplate, blindReview },
+      { refresh: req.query.refresh === 'true' }
+    );
+    return res.status(200).json(tailored);
+  } catch (error) {
+    if (error instanceof ModelOutputError) {
+      console.error('Model output failed validation', error.issues);
+      return res.status(502).json({ error: error.message, details: error.issues.map(formatIssue) });
+    }
+    console.error('Failed to tailor resume', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error while tailoring the resume.';
+    return res.status(500).json({ error: message });
+  }
+}
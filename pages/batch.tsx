@@ -0,0 +1,192 @@
+import Link from 'next/link';
+import { useRef, useState } from 'react';
+import BatchLeaderboard from '../components/BatchLeaderboard';
+import Loader from '../components/Loader';
+import { RESUME_FILE_ACCEPT, extractTextFromFile } from '../lib/browserExtraction';
+import { readEventStream } from '../lib/eventStream';
+import type { BatchCandidate, BatchCandidateResult } from '../lib/types';
+
+const MAX_CANDIDATES = 200;
+
+interface UploadedResume extends BatchCandidate {
+  error?: string;
+}
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+export default function BatchScoring() {
+  const [jobDescription, setJobDescription] = useState('');
+  const [resumes, setResumes] = useState<UploadedResume[]>([]);
+  const [results, setResults] = useState<BatchCandidateResult[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const nextIdRef = useRef(0);
+
+  const readyResumes = resumes.filter((resume) => !resume.error);
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (!files.length) {
+      return;
+    }
+
+    setIsExtracting(true);
+    const uploaded: UploadedResume[] = [];
+    for (const file of files) {
+      nextIdRef.current += 1;
+      const id = `resume-${nextIdRef.current}`;
+      const name = stripExtension(file.name);
+      try {
+        uploaded.push({ id, name, resumeText: await extractTextFromFile(file) });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unable to read this file.';
+        uploaded.push({ id, name, resumeText: '', error: message });
+      }
+    }
+
+    setResumes((previous) => [...previous, ...uploaded].slice(0, MAX_CANDIDATES));
+    setIsExtracting(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setResumes((previous) => previous.filter((resume) => resume.id !== id));
+  };
+
+  const handleSubmit: React.FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+    setError(null);
+    setResults([]);
+    setIsScoring(true);
+
+    try {
+      const response = await fetch('/api/batch-analyze', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          jobDescription,
+          candidates: readyResumes.map(({ id, name, resumeText }) => ({ id, name, resumeText }))
+        })
+      });
+
+      if (!response.ok) {
+        const message = await response.json();
+        throw new Error(message.error ?? 'Unable to score the batch.');
+      }
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'result') {
+          setResults((previous) => [...previous, data as BatchCandidateResult]);
+        }
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to score the batch.';
+      setError(message);
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-950 to-slate-900 py-16">
+      <div className="mx-auto max-w-6xl px-4">
+        <header className="text-center">
+          <span className="inline-flex items-center rounded-full border border-emerald-500/40 bg-emerald-500/10 px-4 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-emerald-300">
+            SmartRecruit
+          </span>
+          <h1 className="mt-4 text-3xl font-bold text-slate-50 sm:text-5xl">Batch resume screening</h1>
+          <p className="mx-auto mt-4 max-w-2xl text-sm text-slate-300 sm:text-base">
+            Upload every resume for a requisition and rank candidates by fit against a single job description.
+          </p>
+          <Link href="/" className="mt-4 inline-block text-sm text-emerald-300 underline-offset-4 hover:underline">
+            ← Back to single analysis
+          </Link>
+        </header>
+
+        <form
+          onSubmit={handleSubmit}
+          className="mt-10 space-y-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40"
+        >
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-slate-50">Job Description</h2>
+            <textarea
+              required
+              value={jobDescription}
+              onChange={(event) => setJobDescription(event.target.value)}
+              placeholder="Paste the job description here..."
+              className="h-48 w-full rounded-xl border border-slate-800 bg-slate-950/80 p-4 text-sm text-slate-100 placeholder:text-slate-500 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+            />
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <h2 className="text-lg font-semibold text-slate-50">
+                Candidate Resumes <span className="text-sm font-normal text-slate-400">({readyResumes.length})</span>
+              </h2>
+              <label className="inline-flex cursor-pointer items-center gap-2 self-start rounded-full border border-dashed border-slate-700 px-3 py-1 text-xs font-medium text-slate-300 hover:border-emerald-400 hover:text-emerald-200">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={RESUME_FILE_ACCEPT}
+                  className="hidden"
+                  onChange={handleFilesSelected}
+                />
+                Upload files
+              </label>
+            </div>
+            <p className="text-xs text-slate-400">
+              Select up to {MAX_CANDIDATES} files (.txt, .md, .rtf, .pdf, .docx). Each file name is used as the candidate
+              label.
+            </p>
+            {isExtracting && <Loader label="Extracting resume text" />}
+            {resumes.length > 0 && (
+              <ul className="max-h-64 divide-y divide-slate-800 overflow-y-auto rounded-xl border border-slate-800 bg-slate-950/60 text-sm">
+                {resumes.map((resume) => (
+                  <li key={resume.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                    <div>
+                      <p className="text-slate-100">{resume.name}</p>
+                      <p className={resume.error ? 'text-xs text-rose-300' : 'text-xs text-slate-500'}>
+                        {resume.error ?? `${resume.resumeText.length.toLocaleString()} characters`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(resume.id)}
+                      className="text-xs text-slate-400 hover:text-slate-200"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <button
+            type="submit"
+            disabled={isScoring || isExtracting || !jobDescription.trim() || !readyResumes.length}
+            className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-700/40 disabled:text-emerald-200/70"
+          >
+            {isScoring ? 'Scoring…' : `Score ${readyResumes.length} resume${readyResumes.length === 1 ? '' : 's'}`}
+          </button>
+        </form>
+
+        <div className="mt-6 min-h-[24px]">
+          {isScoring && <Loader label={`Scored ${results.length} of ${readyResumes.length}`} />}
+          {error && (
+            <p className="rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+          )}
+        </div>
+
+        <BatchLeaderboard results={results} />
+      </div>
+    </main>
+  );
+}
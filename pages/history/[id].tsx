@@ -0,0 +1,128 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useEffect, useState } from 'react';
+import AnalysisChatPanel from '../../components/AnalysisChatPanel';
+import InterviewKitPanel from '../../components/InterviewKitPanel';
+import Loader from '../../components/Loader';
+import ResultsCard from '../../components/ResultsCard';
+import SkillsRadarMatrix from '../../components/SkillsRadarMatrix';
+import type { HistoryRecord, SkillsMatrixResponse } from '../../lib/types';
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload.error ?? 'Unable to load the saved result.');
+  }
+  return payload as T;
+}
+
+export default function HistoryDetail() {
+  const router = useRouter();
+  const id = typeof router.query.id === 'string' ? router.query.id : undefined;
+  const [record, setRecord] = useState<HistoryRecord | null>(null);
+  const [matrix, setMatrix] = useState<SkillsMatrixResponse | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  // Blind review records show the redacted resume wherever the candidate's text appears.
+  const documents = record ? record.response.redactedDocuments ?? record.request : null;
+  // The API never returns a blind record's original resume; follow-up requests refer to the record instead.
+  const resumeText = record?.request.blindReview ? undefined : record?.request.resumeText;
+
+  useEffect(() => {
+    if (!id) {
+      return;
+    }
+
+    const loadRecord = async () => {
+      try {
+        const loaded = await fetchJson<HistoryRecord>(`/api/history/${id}`);
+        setRecord(loaded);
+
+        if (loaded.kind === 'skills-matrix') {
+          setMatrix(loaded.response);
+          return;
+        }
+
+        // Only a matrix saved with the same review setting and template; there may be none yet.
+        const response = await fetch(`/api/history/${id}/skills-matrix`);
+        if (response.ok) {
+          setMatrix((await response.json()) as SkillsMatrixResponse);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load the saved result.');
+      }
+    };
+
+    loadRecord();
+  }, [id]);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-950 to-slate-900 py-16">
+      <div className="mx-auto max-w-5xl px-4">
+        <Link href="/history" className="text-sm text-emerald-300 underline-offset-4 hover:underline">
+          ← All saved analyses
+        </Link>
+
+        {error && (
+          <p className="mt-6 rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+        )}
+        {!record && !error && (
+          <div className="mt-6">
+            <Loader label="Loading saved result" />
+          </div>
+        )}
+
+        {record && documents && (
+          <>
+            <p className="mt-6 text-xs text-slate-400">
+              Saved {new Date(record.createdAt).toLocaleString()} · content hash {record.contentHash.slice(0, 12)}
+            </p>
+
+            {record.kind === 'analysis' && (
+              <ResultsCard result={{ ...record.response, historyId: record.id }} documents={documents} />
+            )}
+
+            {record.kind === 'analysis' && (
+              <AnalysisChatPanel
+                resumeText={resumeText}
+                jobDescription={record.request.jobDescription}
+                options={record.request}
+                analysis={record.response}
+                historyId={record.id}
+              />
+            )}
+
+            {record.kind === 'analysis' && (
+              <InterviewKitPanel
+                resumeText={resumeText}
+                jobDescription={record.request.jobDescription}
+                options={record.request}
+                analysis={record.response}
+                historyId={record.id}
+              />
+            )}
+
+            {matrix && (
+              <SkillsRadarMatrix
+                resumeText={documents.resumeText}
+                jobDescriptionText={documents.jobDescription}
+                matrix={matrix}
+              />
+            )}
+
+            <div className="mt-8 grid gap-6 md:grid-cols-2">
+              <details className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 text-sm text-slate-300">
+                <summary className="cursor-pointer font-semibold text-slate-100">Resume</summary>
+                <pre className="mt-3 whitespace-pre-wrap font-sans">{documents.resumeText}</pre>
+              </details>
+              <details className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 text-sm text-slate-300">
+                <summary className="cursor-pointer font-semibold text-slate-100">Job description</summary>
+                <pre className="mt-3 whitespace-pre-wrap font-sans">{documents.jobDescription}</pre>
+              </details>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
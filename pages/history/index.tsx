@@ -0,0 +1,103 @@
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import Loader from '../../components/Loader';
+import type { HistorySummary } from '../../lib/types';
+
+const formatKind = (kind: HistorySummary['kind']) => (kind === 'analysis' ? 'Fit analysis' : 'Skills matrix');
+
+export default function HistoryList() {
+  const [records, setRecords] = useState<HistorySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch('/api/history');
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Unable to load history.');
+        }
+        setRecords((payload as { records: HistorySummary[] }).records);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this saved result?')) {
+      return;
+    }
+    const response = await fetch(`/api/history/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      setError(payload?.error ?? 'Unable to delete the saved result.');
+      return;
+    }
+    setRecords((previous) => previous.filter((record) => record.id !== id));
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-950 to-slate-900 py-16">
+      <div className="mx-auto max-w-5xl px-4">
+        <header className="text-center">
+          <span className="inline-flex items-center rounded-full border border-emerald-500/40 bg-emerald-500/10 px-4 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-emerald-300">
+            SmartRecruit
+          </span>
+          <h1 className="mt-4 text-3xl font-bold text-slate-50 sm:text-5xl">Analysis history</h1>
+          <Link href="/" className="mt-4 inline-block text-sm text-emerald-300 underline-offset-4 hover:underline">
+            ← Back to analyzer
+          </Link>
+        </header>
+
+        <section className="mt-10 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40">
+          {isLoading && <Loader label="Loading history" />}
+          {error && (
+            <p className="rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+          )}
+          {!isLoading && !error && records.length === 0 && (
+            <p className="text-sm text-slate-400">No saved analyses yet. Run an analysis to start building history.</p>
+          )}
+          {records.length > 0 && (
+            <ul className="divide-y divide-slate-800">
+              {records.map((record) => (
+                <li key={record.id} className="flex items-start justify-between gap-4 py-3 text-sm">
+                  <Link href={`/history/${record.id}`} className="group flex-1">
+                    <p className="font-medium text-slate-100 group-hover:text-emerald-200">
+                      {record.jobPreview || 'Untitled job description'}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {formatKind(record.kind)} · {new Date(record.createdAt).toLocaleString()} ·{' '}
+                      {record.resumePreview || 'Resume'}
+                    </p>
+                  </Link>
+                  {record.interviewScore !== undefined && (
+                    <span className="text-right text-xs text-slate-400">
+                      Interview
+                      <span className="block text-lg font-bold text-sky-300">{record.interviewScore}</span>
+                    </span>
+                  )}
+                  {record.fitScore !== undefined && (
+                    <span className="text-lg font-bold text-emerald-400">{record.fitScore}</span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(record.id)}
+                    className="text-xs text-slate-400 hover:text-rose-300"
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -1,15 +1,24 @@
+import Link from 'next/link';
 import { useState } from 'react';
+import AnalysisChatPanel from '../components/AnalysisChatPanel';
+import BiasAuditPanel from '../components/BiasAuditPanel';
 import AnalyzerForm from '../components/Form';
+import InterviewKitPanel from '../components/InterviewKitPanel';
 import Loader from '../components/Loader';
+import OutreachPanel from '../components/OutreachPanel';
 import ResultsCard from '../components/ResultsCard';
+import ResumeTailorPanel from '../components/ResumeTailorPanel';
 import SkillsRadarMatrix from '../components/SkillsRadarMatrix';
-import type { AnalysisResponse } from '../lib/types';
+import { readEventStream } from '../lib/eventStream';
+import type { AnalysisOptions, AnalysisResponse } from '../lib/types';
 
 export default function Home() {
   const [resumeText, setResumeText] = useState('');
   const [jobDescription, setJobDescription] = useState('');
-  const [result, setResult] = useState<AnalysisResponse | null>(null);
+  const [options, setOptions] = useState<AnalysisOptions>({ generationProfile: 'default', ensembleRuns: 1 });
+  const [result, setResult] = useState<Partial<AnalysisResponse> | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const handleSubmit: React.FormEventHandler<HTMLFormElement> = async (event) => {
@@ -19,12 +28,12 @@ export default function Home() {
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyze-stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ resumeText, jobDescription })
+        body: JSON.stringify({ resumeText, jobDescription, ...options })
       });
 
       if (!response.ok) {
@@ -32,13 +41,30 @@ export default function Home() {
         throw new Error(message.error ?? 'Unable to analyze resume fit.');
       }
 
-      const data = (await response.json()) as AnalysisResponse;
-      setResult(data);
+      setIsStreaming(true);
+      let streamError: string | null = null;
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'section') {
+          setIsLoading(false);
+          setResult((previous) => ({ ...previous, ...(data as Partial<AnalysisResponse>) }));
+        } else if (event === 'complete') {
+          setResult(data as AnalysisResponse);
+        } else if (event === 'error') {
+          streamError = (data as { error?: string }).error ?? 'Unable to analyze resume fit.';
+        }
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to analyze resume fit.';
+      setResult(null);
       setError(message);
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
@@ -49,6 +75,12 @@ export default function Home() {
     setError(null);
   };
 
+  // With a template, the matrix shown is the one the fit score was aggregated from, so wait for the analysis.
+  const showSkillsMatrix =
+    resumeText.trim().length > 0 &&
+    jobDescription.trim().length > 0 &&
+    (!options.scoringTemplate || Boolean(result && !isLoading && !isStreaming));
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-950 to-slate-900 py-16">
       <div className="mx-auto max-w-5xl px-4">
@@ -63,6 +95,21 @@ export default function Home() {
             Compare candidate resumes against job descriptions with Azure OpenAI. Generate fit scores, actionable improvement
             tips, and interview questions for both recruiters and candidates.
           </p>
+          <Link href="/batch" className="mt-4 inline-block text-sm text-emerald-300 underline-offset-4 hover:underline">
+            Screening many resumes? Try batch scoring →
+          </Link>
+          <Link
+            href="/roles"
+            className="ml-6 mt-4 inline-block text-sm text-sky-300 underline-offset-4 hover:underline"
+          >
+            Compare one resume across roles →
+          </Link>
+          <Link
+            href="/history"
+            className="ml-6 mt-4 inline-block text-sm text-slate-300 underline-offset-4 hover:underline"
+          >
+            View history →
+          </Link>
         </header>
 
         <section className="mt-10">
@@ -71,6 +118,8 @@ export default function Home() {
             jobDescription={jobDescription}
             onResumeChange={setResumeText}
             onJobDescriptionChange={setJobDescription}
+            options={options}
+            onOptionsChange={setOptions}
             onSubmit={handleSubmit}
             isLoading={isLoading}
             onReset={handleReset}
@@ -85,12 +134,61 @@ export default function Home() {
             )}
           </div>
 
-          {result && <ResultsCard result={result} />}
+          {result && (
+            <ResultsCard result={result} isStreaming={isStreaming} documents={{ resumeText, jobDescription }} />
+          )}
+
+          {result && !isLoading && !isStreaming && (
+            <AnalysisChatPanel
+              resumeText={resumeText}
+              jobDescription={jobDescription}
+              options={options}
+              analysis={result as AnalysisResponse}
+              historyId={result.historyId}
+            />
+          )}
+
+          {result && !isLoading && !isStreaming && (
+            <ResumeTailorPanel
+              resumeText={resumeText}
+              jobDescription={jobDescription}
+              options={options}
+              analysis={result as AnalysisResponse}
+            />
+          )}
+
+          {result && !isLoading && !isStreaming && (
+            <OutreachPanel
+              resumeText={resumeText}
+              jobDescription={jobDescription}
+              options={options}
+              analysis={result as AnalysisResponse}
+            />
+          )}
+
+          {result && !isLoading && !isStreaming && (
+            <InterviewKitPanel
+              resumeText={resumeText}
+              jobDescription={jobDescription}
+              options={options}
+              analysis={result as AnalysisResponse}
+              historyId={result.historyId}
+            />
+          )}
+
+          {result && !isLoading && !isStreaming && (
+            <BiasAuditPanel resumeText={resumeText} jobDescription={jobDescription} options={options} />
+          )}
 
-          {resumeText.trim().length > 0 && jobDescription.trim().length > 0 && (
+          {showSkillsMatrix && (
             <SkillsRadarMatrix
               resumeText={resumeText}
               jobDescriptionText={jobDescription}
+              matrix={result?.skillsMatrix}
+              generationProfile={options.generationProfile}
+              scoringTemplate={options.scoringTemplate}
+              blindReview={options.blindReview}
+              outputLanguage={options.outputLanguage}
             />
           )}
         </section>
@@ -0,0 +1,175 @@
+import Link from 'next/link';
+import { useRef, useState } from 'react';
+import Loader from '../components/Loader';
+import RoleComparisonView from '../components/RoleComparisonView';
+import { RESUME_FILE_ACCEPT, extractTextFromFile } from '../lib/browserExtraction';
+import type { RoleMatchJob, RoleMatchResponse } from '../lib/types';
+
+const MAX_JOBS = 10;
+
+export default function RoleMatching() {
+  const nextIdRef = useRef(1);
+  const [resumeText, setResumeText] = useState('');
+  const [jobs, setJobs] = useState<RoleMatchJob[]>([{ id: 'job-1', title: '', jobDescription: '' }]);
+  const [result, setResult] = useState<RoleMatchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filledJobs = jobs.filter((job) => job.jobDescription.trim());
+
+  const updateJob = (id: string, changes: Partial<RoleMatchJob>) => {
+    setJobs((previous) => previous.map((job) => (job.id === id ? { ...job, ...changes } : job)));
+  };
+
+  const addJob = () => {
+    nextIdRef.current += 1;
+    setJobs((previous) => [...previous, { id: `job-${nextIdRef.current}`, title: '', jobDescription: '' }]);
+  };
+
+  const removeJob = (id: string) => {
+    setJobs((previous) => previous.filter((job) => job.id !== id));
+  };
+
+  const handleResumeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      setResumeText(await extractTextFromFile(file));
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Unable to read the selected file.');
+    }
+  };
+
+  const handleSubmit: React.FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+    setError(null);
+    setResult(null);
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/role-match', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          resumeText,
+          jobs: filledJobs.map((job, index) => ({ ...job, title: job.title.trim() || `Role ${index + 1}` }))
+        })
+      });
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to compare roles.');
+      }
+      setResult(payload as RoleMatchResponse);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to compare roles.';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-950 to-slate-900 py-16">
+      <div className="mx-auto max-w-5xl px-4">
+        <header className="text-center">
+          <span className="inline-flex items-center rounded-full border border-emerald-500/40 bg-emerald-500/10 px-4 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-emerald-300">
+            SmartRecruit
+          </span>
+          <h1 className="mt-4 text-3xl font-bold text-slate-50 sm:text-5xl">Find your best-fit role</h1>
+          <p className="mx-auto mt-4 max-w-2xl text-sm text-slate-300 sm:text-base">
+            Compare one resume against several job descriptions to see which role fits best and which skills make the
+            difference.
+          </p>
+          <Link href="/" className="mt-4 inline-block text-sm text-emerald-300 underline-offset-4 hover:underline">
+            ← Back to single analysis
+          </Link>
+        </header>
+
+        <form
+          onSubmit={handleSubmit}
+          className="mt-10 space-y-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-slate-950/40"
+        >
+          <section className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <h2 className="text-lg font-semibold text-slate-50">Candidate Resume</h2>
+              <label className="inline-flex cursor-pointer items-center gap-2 self-start rounded-full border border-dashed border-slate-700 px-3 py-1 text-xs font-medium text-slate-300 hover:border-emerald-400 hover:text-emerald-200">
+                <input type="file" accept={RESUME_FILE_ACCEPT} className="hidden" onChange={handleResumeUpload} />
+                Upload file
+              </label>
+            </div>
+            <textarea
+              required
+              value={resumeText}
+              onChange={(event) => setResumeText(event.target.value)}
+              placeholder="Paste the candidate resume here..."
+              className="h-56 w-full rounded-xl border border-slate-800 bg-slate-950/80 p-4 text-sm text-slate-100 placeholder:text-slate-500 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+            />
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-lg font-semibold text-slate-50">Job Descriptions</h2>
+            {jobs.map((job, index) => (
+              <div key={job.id} className="space-y-2 rounded-xl border border-slate-800 bg-slate-950/40 p-4">
+                <div className="flex items-center gap-3">
+                  <input
+                    value={job.title}
+                    onChange={(event) => updateJob(job.id, { title: event.target.value })}
+                    placeholder={`Role ${index + 1} title`}
+                    className="flex-1 rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-sky-500 focus:outline-none"
+                  />
+                  {jobs.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeJob(job.id)}
+                      className="text-xs text-slate-400 hover:text-slate-200"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <textarea
+                  value={job.jobDescription}
+                  onChange={(event) => updateJob(job.id, { jobDescription: event.target.value })}
+                  placeholder="Paste the job description here..."
+                  className="h-36 w-full rounded-xl border border-slate-800 bg-slate-950/80 p-4 text-sm text-slate-100 placeholder:text-slate-500 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                />
+              </div>
+            ))}
+            {jobs.length < MAX_JOBS && (
+              <button
+                type="button"
+                onClick={addJob}
+                className="text-sm font-medium text-sky-300 underline-offset-4 hover:underline"
+              >
+                + Add another job description
+              </button>
+            )}
+          </section>
+
+          <button
+            type="submit"
+            disabled={isLoading || !resumeText.trim() || !filledJobs.length}
+            className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-700/40 disabled:text-emerald-200/70"
+          >
+            {isLoading ? 'Comparing…' : 'Compare Roles'}
+          </button>
+        </form>
+
+        <div className="mt-6 min-h-[24px]">
+          {isLoading && <Loader label={`Scoring ${filledJobs.length} roles`} />}
+          {error && (
+            <p className="rounded-lg border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</p>
+          )}
+        </div>
+
+        {result && <RoleComparisonView result={result} />}
+      </div>
+    </main>
+  );
+}